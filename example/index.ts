@@ -55,6 +55,7 @@ const NUMBER_KEYS = [
   "syncInterval",
   "gravity",
   "scalingRatio",
+  "margin",
   "quadTreeDepth",
   "quadTreeTheta",
   "kMeansCentroids",
@@ -75,13 +76,14 @@ const BOOLEAN_KEYS = [
   "outboundAttractionDistribution",
   "useFA2GPU",
   "debug",
+  "quadTreeQuadrupole",
   "kMeansNodeToNodeRepulsion",
   "kMeansReinitialize",
 ] as const;
 const BOOLEAN_KEYS_SET = new Set<string>(BOOLEAN_KEYS);
 type BooleanKey = (typeof BOOLEAN_KEYS)[number];
 
-type RepulsionMode = "all-pairs" | "quad-tree" | "k-means";
+type RepulsionMode = "all-pairs" | "quad-tree" | "barnes-hut" | "k-means";
 type InitialPositions = "random" | "circle-packing" | "circle";
 
 type Params = Record<NumberKey, number> &
@@ -99,6 +101,7 @@ const DEFAULT_PARAMS: Params = {
   scalingRatio: 10,
   strongGravityMode: true,
   adjustSizes: false,
+  margin: 0,
   linLogMode: false,
   outboundAttractionDistribution: false,
   dataset: "random",
@@ -108,6 +111,7 @@ const DEFAULT_PARAMS: Params = {
   repulsionMode: "quad-tree",
   quadTreeDepth: 0,
   quadTreeTheta: 1,
+  quadTreeQuadrupole: false,
   kMeansCentroids: 100,
   kMeansSteps: 1,
   kMeansCentroidUpdateInterval: 1,
@@ -177,6 +181,7 @@ const FORM_FIELDS: FieldDef[] = [
   { type: "number", name: "scalingRatio", label: "Scaling ratio", step: "0.1", min: "0" },
   { type: "checkbox", name: "strongGravityMode", label: "Strong gravity mode", section: true },
   { type: "checkbox", name: "adjustSizes", label: "Adjust sizes" },
+  { type: "number", name: "margin", label: "Margin between nodes", step: "0.1", min: "0" },
   { type: "checkbox", name: "linLogMode", label: "LinLog mode" },
   { type: "checkbox", name: "outboundAttractionDistribution", label: "Outbound attraction distribution" },
   {
@@ -187,11 +192,13 @@ const FORM_FIELDS: FieldDef[] = [
     options: [
       { value: "all-pairs", label: "All pairs (exact, slow)" },
       { value: "quad-tree", label: "Quad-tree" },
+      { value: "barnes-hut", label: "Barnes-Hut (adaptive tree)" },
       { value: "k-means", label: "K-means" },
     ],
   },
   { type: "number", name: "quadTreeDepth", label: "Tree depth (0 = auto)", step: "1", min: "0" },
   { type: "number", name: "quadTreeTheta", label: "Tree theta", step: "0.05", min: "0.25", max: "1" },
+  { type: "checkbox", name: "quadTreeQuadrupole", label: "Quadrupole correction" },
   { type: "number", name: "kMeansCentroids", label: "K-means centroids", step: "1", min: "1" },
   { type: "number", name: "kMeansSteps", label: "K-means steps", step: "1", min: "1" },
   { type: "number", name: "kMeansCentroidUpdateInterval", label: "Centroid update interval", step: "1", min: "1" },
@@ -284,8 +291,9 @@ function buildForm(form: HTMLFormElement, params: Params) {
     const useFA2GPU = data.get("useFA2GPU") === "on";
     const mode = data.get("repulsionMode") as RepulsionMode;
     const needsTree = mode === "quad-tree" && useFA2GPU;
+    const needsTheta = (mode === "quad-tree" || mode === "barnes-hut") && useFA2GPU;
     const needsKMeans = mode === "k-means" && useFA2GPU;
-    const showAdjustSizes = mode === "all-pairs";
+    const adjustSizes = data.get("adjustSizes") === "on";
 
     const toggle = (name: string, show: boolean) => {
       form.querySelector(`[data-field="${name}"]`)?.classList.toggle("hidden", !show);
@@ -293,11 +301,12 @@ function buildForm(form: HTMLFormElement, params: Params) {
 
     ["graphOrder", "graphSize", "graphClusters", "graphClusterDensity"].forEach((f) => toggle(f, useRandomGraph));
     toggle("repulsionMode", useFA2GPU);
-    ["quadTreeDepth", "quadTreeTheta"].forEach((f) => toggle(f, needsTree));
+    ["quadTreeDepth", "quadTreeQuadrupole"].forEach((f) => toggle(f, needsTree));
+    toggle("quadTreeTheta", needsTheta);
     ["kMeansCentroids", "kMeansSteps", "kMeansCentroidUpdateInterval", "kMeansNodeToNodeRepulsion", "kMeansReinitialize"].forEach((f) =>
       toggle(f, needsKMeans),
     );
-    toggle("adjustSizes", showAdjustSizes);
+    toggle("margin", adjustSizes && useFA2GPU);
   };
 
   form.addEventListener("change", updateVisibility);
@@ -407,8 +416,11 @@ async function init() {
         return {
           type: "quad-tree",
           theta: params.quadTreeTheta,
+          quadrupole: params.quadTreeQuadrupole,
           ...(params.quadTreeDepth > 0 ? { depth: params.quadTreeDepth } : {}),
         };
+      case "barnes-hut":
+        return { type: "barnes-hut", theta: params.quadTreeTheta };
       default:
         return { type: "all-pairs" };
     }
@@ -1,6 +1,9 @@
 export * from "./programs/boundariesGPU";
 export * from "./programs/forceAtlas2GPU";
+export * from "./programs/forceAtlas2GPU/layout";
+export * from "./programs/forceAtlas2GPU/worker";
 export * from "./programs/quadTreeGPU";
+export * from "./programs/barnesHutGPU";
 export * from "./programs/kMeansGPU";
 export * from "./programs/kMeansGroupedGPU";
 export * from "./programs/bitonicSortGPU";
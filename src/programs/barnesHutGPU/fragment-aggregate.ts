@@ -0,0 +1,94 @@
+import {
+  GLSL_getIndex,
+  GLSL_getValueInTexture,
+  getSortedTextureSize,
+  getTextureSize,
+  numberToGLSLFloat,
+} from "../../utils/webgl";
+
+/**
+ * This shader is executed for each internal node of the tree, and sums its
+ * two children cells, as (sum(x * mass), sum(y * mass), sum(mass), count),
+ * like the quadtree texels. Leaves are read from the nodes directly, and
+ * internal children from the previous pass output: after as many passes as
+ * the height of the tree, all cells are complete.
+ *
+ * With adjustSizes, it also returns (sum(size), max(size)) for each cell.
+ */
+export function getBarnesHutAggregateFragmentShader({
+  nodesCount,
+  adjustSizes = false,
+}: {
+  nodesCount: number;
+  adjustSizes?: boolean;
+}) {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define NODES_COUNT ${numberToGLSLFloat(nodesCount)}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCount))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCount))}
+${adjustSizes ? "#define ADJUST_SIZES" : ""}
+
+// Graph data:
+uniform sampler2D u_nodesPositionTexture;
+uniform sampler2D u_nodesMetadataTexture;
+// Tree:
+uniform sampler2D u_treeNodesTexture;
+uniform sampler2D u_nodesInLeavesTexture;
+uniform sampler2D u_cellsTexture;
+uniform sampler2D u_cellsSizesTexture;
+in vec2 v_textureCoord;
+
+// Output
+layout(location = 0) out vec4 treeCell;
+#if defined(ADJUST_SIZES)
+  layout(location = 1) out vec4 treeCellSizes;
+#endif
+
+// Additional helpers:
+${GLSL_getValueInTexture}
+${GLSL_getIndex}
+
+void addChild(float child) {
+  if (child >= 0.0) {
+    treeCell += getValueInTexture(u_cellsTexture, child, NODES_TEXTURE_SIZE);
+    #if defined(ADJUST_SIZES)
+      vec2 childSizes = getValueInTexture(u_cellsSizesTexture, child, NODES_TEXTURE_SIZE).xy;
+      treeCellSizes.x += childSizes.x;
+      treeCellSizes.y = max(treeCellSizes.y, childSizes.y);
+    #endif
+    return;
+  }
+
+  // Leaves are nodes (free slots and excess slots have no mass):
+  float nodeIndex = getValueInTexture(u_nodesInLeavesTexture, -child - 1.0, SORTED_TEXTURE_SIZE).x;
+  if (nodeIndex >= NODES_COUNT) return;
+  vec4 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE);
+  float nodeMass = nodePosition.z;
+  if (nodeMass <= 0.0) return;
+
+  treeCell += vec4(nodePosition.xy * nodeMass, nodeMass, 1.0);
+  #if defined(ADJUST_SIZES)
+    float nodeSize = getValueInTexture(u_nodesMetadataTexture, nodeIndex, NODES_TEXTURE_SIZE).r;
+    treeCellSizes.x += nodeSize;
+    treeCellSizes.y = max(treeCellSizes.y, nodeSize);
+  #endif
+}
+
+void main() {
+  float index = getIndex(v_textureCoord, NODES_TEXTURE_SIZE);
+  treeCell = vec4(0.0);
+  #if defined(ADJUST_SIZES)
+    treeCellSizes = vec4(0.0);
+  #endif
+  if (index >= NODES_COUNT - 1.0) return;
+
+  vec4 treeNode = getValueInTexture(u_treeNodesTexture, index, NODES_TEXTURE_SIZE);
+  addChild(treeNode.x);
+  addChild(treeNode.y);
+}`;
+
+  return SHADER;
+}
@@ -0,0 +1,71 @@
+import {
+  GLSL_getIndex,
+  GLSL_getValueInTexture,
+  getSortedTextureSize,
+  getTextureSize,
+  numberToGLSLFloat,
+} from "../../utils/webgl";
+
+/**
+ * This shader is executed for each node, and returns on a texture its index,
+ * and on another texture its Morton code (the bits of its cell coordinates
+ * in the finest grid, interleaved), so that the nodes can be sorted along
+ * the Z-order curve.
+ */
+export function getBarnesHutSetupSortFragmentShader({ nodesCount, depth }: { nodesCount: number; depth: number }) {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define GRID_SIZE ${numberToGLSLFloat(2 ** depth)}
+#define VALUE_FOR_EXCESS_NODE ${numberToGLSLFloat(4 ** depth)}
+#define NODES_COUNT ${numberToGLSLFloat(nodesCount)}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCount))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCount))}
+
+// Graph data:
+uniform sampler2D u_nodesPositionTexture;
+uniform sampler2D u_boundariesTexture;
+in vec2 v_textureCoord;
+
+// Output
+layout(location = 0) out vec4 values;
+layout(location = 1) out vec4 sortOn;
+
+// Additional helpers:
+${GLSL_getValueInTexture}
+${GLSL_getIndex}
+
+// Spreads the 16 lower bits of a number over its even bits:
+uint spreadBits(uint n) {
+  n &= 0x0000ffffu;
+  n = (n | (n << 8u)) & 0x00ff00ffu;
+  n = (n | (n << 4u)) & 0x0f0f0f0fu;
+  n = (n | (n << 2u)) & 0x33333333u;
+  n = (n | (n << 1u)) & 0x55555555u;
+  return n;
+}
+
+void main() {
+  float nodeIndex = getIndex(v_textureCoord, SORTED_TEXTURE_SIZE);
+  values.x = nodeIndex;
+  // Free slots and excess slots get a code higher than all nodes ones, and
+  // are sorted after them:
+  sortOn.x = VALUE_FOR_EXCESS_NODE;
+  if (nodeIndex >= NODES_COUNT) return;
+
+  vec4 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE);
+  if (nodePosition.z <= 0.0) return;
+
+  // Square bounding box (like the quadtree one):
+  vec4 boundaries = texelFetch(u_boundariesTexture, ivec2(0), 0);
+  vec2 bbCenter = vec2((boundaries.x + boundaries.y) / 2.0, (boundaries.z + boundaries.w) / 2.0);
+  float bbSide = max(max(boundaries.y - boundaries.x, boundaries.w - boundaries.z), 1e-6);
+
+  vec2 relativePosition = clamp((nodePosition.xy - bbCenter) / bbSide + 0.5, 0.0, 0.999999);
+  uvec2 cell = uvec2(floor(relativePosition * GRID_SIZE));
+  sortOn.x = float((spreadBits(cell.y) << 1u) | spreadBits(cell.x));
+}`;
+
+  return SHADER;
+}
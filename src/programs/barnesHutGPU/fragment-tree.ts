@@ -0,0 +1,114 @@
+import {
+  GLSL_getIndex,
+  GLSL_getValueInTexture,
+  getSortedTextureSize,
+  getTextureSize,
+  numberToGLSLFloat,
+} from "../../utils/webgl";
+
+/**
+ * This shader is executed for each internal node of the tree (there are
+ * nodesCount - 1 of them, over nodesCount leaves: the nodes sorted by Morton
+ * code), and finds its range of leaves and its children, independently from
+ * all other internal nodes (see "Maximizing Parallelism in the Construction
+ * of BVHs, Octrees, and k-d Trees", T. Karras, 2012).
+ *
+ * It returns (left child, right child, prefix length, code of the first
+ * leaf), where children are internal nodes indices, or -(leaf index) - 1
+ * for leaves, and where the prefix length is the count of leading bits all
+ * the leaves codes share (equal codes are told apart by their leaves
+ * indices, so that the prefix length of their internal nodes is more than
+ * codeBits).
+ */
+export function getBarnesHutTreeFragmentShader({ nodesCount, codeBits }: { nodesCount: number; codeBits: number }) {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define LEAVES_COUNT ${Math.floor(nodesCount)}
+#define CODE_BITS ${Math.floor(codeBits)}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCount))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCount))}
+
+// Sorted nodes:
+uniform sampler2D u_nodesInLeavesTexture;
+uniform sampler2D u_nodesCodeTexture;
+in vec2 v_textureCoord;
+
+// Output
+layout(location = 0) out vec4 treeNode;
+
+// Additional helpers:
+${GLSL_getValueInTexture}
+${GLSL_getIndex}
+
+// (GLSL ES 3.00 has no findMSB)
+int getMostSignificantBit(uint n) {
+  int bit = 0;
+  if (n >= 0x10000u) { bit += 16; n >>= 16u; }
+  if (n >= 0x100u) { bit += 8; n >>= 8u; }
+  if (n >= 0x10u) { bit += 4; n >>= 4u; }
+  if (n >= 0x4u) { bit += 2; n >>= 2u; }
+  if (n >= 0x2u) { bit += 1; }
+  return bit;
+}
+
+uint getLeafCode(int leaf) {
+  float nodeIndex = getValueInTexture(u_nodesInLeavesTexture, float(leaf), SORTED_TEXTURE_SIZE).x;
+  return uint(getValueInTexture(u_nodesCodeTexture, nodeIndex, SORTED_TEXTURE_SIZE).x);
+}
+
+// Returns the length of the prefix shared by the leaves i and j codes (or
+// -1 if j is out of the leaves):
+int getCommonPrefix(int i, uint codeI, int j) {
+  if (j < 0 || j >= LEAVES_COUNT) return -1;
+  uint codeJ = getLeafCode(j);
+  if (codeI != codeJ) return CODE_BITS - 1 - getMostSignificantBit(codeI ^ codeJ);
+  return CODE_BITS + 31 - getMostSignificantBit(uint(i ^ j));
+}
+
+void main() {
+  int i = int(getIndex(v_textureCoord, NODES_TEXTURE_SIZE));
+  treeNode = vec4(0.0);
+  if (i >= LEAVES_COUNT - 1) return;
+  uint codeI = getLeafCode(i);
+
+  // 1. Direction of the range:
+  int direction = getCommonPrefix(i, codeI, i + 1) > getCommonPrefix(i, codeI, i - 1) ? 1 : -1;
+
+  // 2. Other end of the range (exponential, then binary search):
+  int minPrefix = getCommonPrefix(i, codeI, i - direction);
+  int maxLength = 2;
+  for (int step = 0; step < 32 && getCommonPrefix(i, codeI, i + maxLength * direction) > minPrefix; step++) {
+    maxLength *= 2;
+  }
+  int rangeLength = 0;
+  for (int t = maxLength / 2; t >= 1; t /= 2) {
+    if (getCommonPrefix(i, codeI, i + (rangeLength + t) * direction) > minPrefix) rangeLength += t;
+  }
+  int j = i + rangeLength * direction;
+  int nodePrefix = getCommonPrefix(i, codeI, j);
+
+  // 3. Split position (binary search of the last leaf sharing more than
+  // nodePrefix bits with i):
+  int split = 0;
+  int divider = 2;
+  for (int step = 0; step < 32; step++) {
+    int t = (rangeLength + divider - 1) / divider;
+    if (getCommonPrefix(i, codeI, i + (split + t) * direction) > nodePrefix) split += t;
+    if (t <= 1) break;
+    divider *= 2;
+  }
+  int gamma = i + split * direction + min(direction, 0);
+
+  // 4. Children:
+  int first = min(i, j);
+  int last = max(i, j);
+  treeNode.x = first == gamma ? -float(gamma) - 1.0 : float(gamma);
+  treeNode.y = last == gamma + 1 ? -float(gamma + 1) - 1.0 : float(gamma + 1);
+  treeNode.z = float(nodePrefix);
+  treeNode.w = float(getLeafCode(first));
+}`;
+
+  return SHADER;
+}
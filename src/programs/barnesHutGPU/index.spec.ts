@@ -0,0 +1,125 @@
+import { describe, expect, test } from "vitest";
+
+import { setupWebGL2Context, waitForGPUCompletion } from "../../utils/webgl";
+import { BarnesHutCPU } from "../forceAtlas2CPU";
+import { BARNES_HUT_CODE_BITS, BARNES_HUT_DEPTH, BarnesHutGPU, BarnesHutNode } from "./index";
+
+// Helper: Generate random nodes (seeded), like in the quadtree tests, but at
+// the centers of the finest grid cells (plus two corners to fix the bounding
+// box), so that the Morton codes are exact on both the CPU and the GPU. One
+// node out of four is in a dense cluster, where many nodes share a code:
+function generateGridNodes(N: number, seed: number): Required<BarnesHutNode>[] {
+  const gridSize = 2 ** BARNES_HUT_DEPTH;
+  return Array.from({ length: N }, (_, i) => {
+    if (i < 2) return { x: i * gridSize, y: i * gridSize, mass: 1, size: 1 };
+    const inCluster = i % 4 === 0;
+    return {
+      x: (inCluster ? 1000 + (i % 5) : (seed + i * 13) % gridSize) + 0.5,
+      y: (inCluster ? 2000 + (i % 3) : (seed + i * 17) % gridSize) + 0.5,
+      mass: 1 + (i % 3),
+      size: 1 + (i % 4) / 2,
+    };
+  });
+}
+
+// Helper: Compare sums of floats, computed in different orders:
+function expectClose(actual: number, expected: number, message: string) {
+  expect(Math.abs(actual - expected), message).toBeLessThanOrEqual(1e-5 * Math.abs(expected) + 1e-3);
+}
+
+// Helper: CPU reference of the same tree:
+function computeExpectedTree(nodes: Required<BarnesHutNode>[]): BarnesHutCPU {
+  const nodesPosition = new Float32Array(nodes.flatMap(({ x, y, mass }) => [x, y, mass, 0]));
+  const nodesMetadata = new Float32Array(nodes.flatMap(({ size }) => [size, 0, 0, 0]));
+  const barnesHut = new BarnesHutCPU({ adjustSizes: true });
+  barnesHut.compute(nodesPosition, nodes.length, nodesMetadata);
+  return barnesHut;
+}
+
+describe("Barnes-Hut GPU Program", () => {
+  const testCases = [10, 1000, 5000].map((N) => ({ N }));
+
+  test.each(testCases)("N=$N - nodes are sorted by Morton code, like on the CPU", async ({ N }) => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const nodes = generateGridNodes(N, 42);
+      const barnesHut = new BarnesHutGPU(gl, { nodesCount: N });
+      barnesHut.setNodesData(nodes);
+      barnesHut.compute();
+      await waitForGPUCompletion(gl);
+
+      const nodesCode = barnesHut.getNodesCode();
+      expect(nodesCode).toEqual(Array.from(computeExpectedTree(nodes).getNodesCode()));
+
+      const nodesInLeaves = barnesHut.getNodesInLeaves();
+      expect(nodesInLeaves.slice().sort((a, b) => a - b)).toEqual(nodes.map((_, i) => i));
+      for (let i = 1; i < N; i++) {
+        expect(nodesCode[nodesInLeaves[i]]).toBeGreaterThanOrEqual(nodesCode[nodesInLeaves[i - 1]]);
+      }
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test.each(testCases)("N=$N - the tree and its cells match a CPU reference", async ({ N }) => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const nodes = generateGridNodes(N, 42);
+      const barnesHut = new BarnesHutGPU(gl, { nodesCount: N }, { adjustSizes: true });
+      barnesHut.setNodesData(nodes);
+      barnesHut.compute();
+      await waitForGPUCompletion(gl);
+
+      const expected = computeExpectedTree(nodes);
+      const treeNodes = barnesHut.getTreeNodes();
+      const treeCells = barnesHut.getTreeCells();
+      const treeCellsSizes = barnesHut.getTreeCellsSizes();
+      const expectedCells = expected.getTreeCells();
+      const expectedCellsSizes = expected.getTreeCellsSizes();
+
+      // The structure only depends on the sorted codes:
+      expect(Array.from(treeNodes)).toEqual(Array.from(expected.getTreeNodes()));
+
+      // The root holds all nodes:
+      expect(treeCells[3]).toBe(N);
+      expectClose(
+        treeCells[2],
+        nodes.reduce((sum, n) => sum + n.mass, 0),
+        "Root mass",
+      );
+
+      // Nodes with equal codes can be sorted differently, so only the cells
+      // that don't split them are compared:
+      for (let i = 0; i < N - 1; i++) {
+        if (treeNodes[i * 4 + 2] >= BARNES_HUT_CODE_BITS) continue;
+        expect(treeCells[i * 4 + 3], `Cell ${i} count`).toBe(expectedCells[i * 4 + 3]);
+        expectClose(treeCells[i * 4], expectedCells[i * 4], `Cell ${i} x sum`);
+        expectClose(treeCells[i * 4 + 1], expectedCells[i * 4 + 1], `Cell ${i} y sum`);
+        expectClose(treeCells[i * 4 + 2], expectedCells[i * 4 + 2], `Cell ${i} mass`);
+        expectClose(treeCellsSizes[i * 2], expectedCellsSizes[i * 2], `Cell ${i} sizes`);
+        expect(treeCellsSizes[i * 2 + 1], `Cell ${i} max size`).toBe(expectedCellsSizes[i * 2 + 1]);
+      }
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("Killing the tree deletes its textures", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const barnesHut = new BarnesHutGPU(gl, { nodesCount: 10 });
+      barnesHut.setNodesData(generateGridNodes(10, 42));
+      barnesHut.compute();
+      const treeCellsTexture = barnesHut.getTreeCellsTexture();
+      const boundariesTexture = barnesHut.getBoundariesTexture();
+      expect(gl.isTexture(treeCellsTexture)).toBe(true);
+      expect(gl.isTexture(boundariesTexture)).toBe(true);
+
+      barnesHut.kill();
+      expect(gl.isTexture(treeCellsTexture)).toBe(false);
+      expect(gl.isTexture(boundariesTexture)).toBe(false);
+    } finally {
+      canvas.remove();
+    }
+  });
+});
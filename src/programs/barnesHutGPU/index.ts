@@ -0,0 +1,313 @@
+import { createFloatTexture, getNextPowerOfTwo, getTextureSize } from "../../utils/webgl";
+import { BitonicSortGPU } from "../bitonicSortGPU";
+import { BoundariesGPU } from "../boundariesGPU";
+import { WebCLProgram } from "../webCLProgram";
+import { getVertexShader } from "../webCLProgram/vertex";
+import { getBarnesHutAggregateFragmentShader } from "./fragment-aggregate";
+import { getBarnesHutSetupSortFragmentShader } from "./fragment-setup-sort";
+import { getBarnesHutTreeFragmentShader } from "./fragment-tree";
+
+export type BarnesHutGPUSettings = {
+  // Also sums the nodes sizes of each cell, and keeps their maximum, for the
+  // anti-collision:
+  adjustSizes?: boolean;
+};
+
+export type BarnesHutNode = { x: number; y: number; mass?: number; size?: number };
+
+/**
+ * Morton codes interleave the coordinates of the nodes cells in a
+ * 2^BARNES_HUT_DEPTH x 2^BARNES_HUT_DEPTH grid (so that they stay exact as
+ * floats), plus one more bit, only set for free slots, so that they are
+ * sorted after all nodes:
+ */
+export const BARNES_HUT_DEPTH = 12;
+export const BARNES_HUT_CODE_BITS = 2 * BARNES_HUT_DEPTH + 1;
+
+/**
+ * Returns the maximum height of the tree over some nodes: the prefix length
+ * strictly grows from an internal node to its internal children, up to
+ * BARNES_HUT_CODE_BITS for distinct codes, and then as the leaves indices
+ * of equal codes are told apart.
+ */
+export function getBarnesHutTreeHeight(nodesCount: number): number {
+  return BARNES_HUT_CODE_BITS + Math.ceil(Math.log2(Math.max(nodesCount, 2)));
+}
+
+/**
+ * Returns the side of the cells of an internal node of the tree, from its
+ * prefix length (each pair of bits of the Morton codes halves the cells, and
+ * the first bit only tells the free slots apart):
+ */
+export function getBarnesHutCellSide(bbSide: number, prefixLength: number): number {
+  return bbSide / 2 ** Math.min(Math.floor(Math.max(prefixLength - 1, 0) / 2), BARNES_HUT_DEPTH);
+}
+
+/**
+ * This class computes an adaptive and sparse quadtree over the nodes, for a
+ * Barnes-Hut repulsion. Unlike QuadTreeGPU, it has no uniform grids: the
+ * leaves are the nodes themselves, and its memory only grows with the nodes
+ * count.
+ * - Each node gets a Morton code, from its cell in the finest grid over the
+ *   square bounding box of the graph, and the nodes are sorted by code (with
+ *   a bitonic sort), so that the nodes of each quadtree cell are contiguous
+ * - The internal nodes of the binary radix tree over the sorted codes are
+ *   all built in a single pass (each from its own range of leaves). Each one
+ *   matches a quadtree cell (or half a cell), from the prefix its leaves
+ *   codes share, and empty cells or cells with a single child simply don't
+ *   exist. Leaves with equal codes are split by index, so that dense
+ *   clusters still end up with one node per leaf
+ * - The cells (sums of the positions and masses of their nodes, like the
+ *   QuadTreeGPU texels) are then computed bottom-up, one level per pass
+ *
+ * The internal node 0 is the root. See getForceAtlas2FragmentShader for the
+ * tree walk.
+ */
+export class BarnesHutGPU {
+  private gl: WebGL2RenderingContext;
+  private nodesCount: number;
+  private params: BarnesHutGPUSettings;
+  private aggregatePassesCount: number;
+
+  // Programs:
+  private boundaries: BoundariesGPU;
+  private setupSortProgram: WebCLProgram<"nodesPosition" | "boundaries", "values" | "sortOn">;
+  private bitonicSort: BitonicSortGPU;
+  private treeProgram: WebCLProgram<"nodesInLeaves" | "nodesCode", "treeNodes">;
+  private aggregateProgram: WebCLProgram<
+    "nodesPosition" | "nodesMetadata" | "treeNodes" | "nodesInLeaves" | "cells" | "cellsSizes",
+    "treeCells" | "treeCellsSizes"
+  >;
+
+  // Nodes sizes (as the r channel of the nodes metadata, see setNodesData):
+  private ownedNodesMetadataTexture?: WebGLTexture;
+  private nodesMetadataTexture?: WebGLTexture;
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    {
+      nodesTexture,
+      nodesMetadataTexture,
+      nodesCount,
+    }: { nodesCount: number; nodesTexture?: WebGLTexture; nodesMetadataTexture?: WebGLTexture },
+    params: BarnesHutGPUSettings = {},
+  ) {
+    this.gl = gl;
+    this.nodesCount = nodesCount;
+    this.params = params;
+    const { adjustSizes = false } = params;
+
+    // Each pass completes one more level of cells, from the bottom. The
+    // passes count is odd, so that the output textures are swapped an even
+    // number of times, and are the same after each computation:
+    const treeHeight = getBarnesHutTreeHeight(nodesCount);
+    this.aggregatePassesCount = treeHeight % 2 ? treeHeight : treeHeight + 1;
+
+    // Boundaries program (parallel min/max reduction):
+    this.boundaries = new BoundariesGPU(gl, { nodesCount });
+
+    // Nodes sorting, by Morton code:
+    this.setupSortProgram = new WebCLProgram({
+      gl,
+      name: "Barnes-Hut - Prepare Bitonic sort",
+      fragments: getNextPowerOfTwo(nodesCount),
+      fragmentShaderSource: getBarnesHutSetupSortFragmentShader({ nodesCount, depth: BARNES_HUT_DEPTH }),
+      vertexShaderSource: getVertexShader(),
+      dataTextures: [
+        { name: "nodesPosition", attributesPerItem: 4, items: nodesCount },
+        { name: "boundaries", attributesPerItem: 4, items: 1 },
+      ],
+      outputTextures: [
+        { name: "values", attributesPerItem: 1 },
+        { name: "sortOn", attributesPerItem: 1 },
+      ],
+    });
+    this.bitonicSort = new BitonicSortGPU(gl, { valuesCount: nodesCount, attributesPerItem: 1 });
+
+    // Internal nodes:
+    this.treeProgram = new WebCLProgram({
+      gl,
+      name: "Barnes-Hut - Tree",
+      fragments: nodesCount,
+      fragmentShaderSource: getBarnesHutTreeFragmentShader({ nodesCount, codeBits: BARNES_HUT_CODE_BITS }),
+      vertexShaderSource: getVertexShader(),
+      dataTextures: [
+        { name: "nodesInLeaves", attributesPerItem: 1, items: getNextPowerOfTwo(nodesCount) },
+        { name: "nodesCode", attributesPerItem: 1, items: getNextPowerOfTwo(nodesCount) },
+      ],
+      outputTextures: [{ name: "treeNodes", attributesPerItem: 4 }],
+    });
+
+    // Cells:
+    this.aggregateProgram = new WebCLProgram({
+      gl,
+      name: "Barnes-Hut - Cells",
+      fragments: nodesCount,
+      fragmentShaderSource: getBarnesHutAggregateFragmentShader({ nodesCount, adjustSizes }),
+      vertexShaderSource: getVertexShader(),
+      dataTextures: [
+        { name: "nodesPosition", attributesPerItem: 4, items: nodesCount },
+        { name: "treeNodes", attributesPerItem: 4, items: nodesCount },
+        { name: "nodesInLeaves", attributesPerItem: 1, items: getNextPowerOfTwo(nodesCount) },
+        { name: "cells", attributesPerItem: 4, items: nodesCount },
+        ...(adjustSizes
+          ? [
+              { name: "nodesMetadata" as const, attributesPerItem: 4, items: nodesCount },
+              { name: "cellsSizes" as const, attributesPerItem: 2, items: nodesCount },
+            ]
+          : []),
+      ],
+      outputTextures: [
+        { name: "treeCells", attributesPerItem: 4 },
+        ...(adjustSizes ? [{ name: "treeCellsSizes" as const, attributesPerItem: 2 }] : []),
+      ],
+    });
+    // The previous pass cells are swapped with the output ones, so they must
+    // be allocated like them:
+    this.aggregateProgram.setTextureData("cells", new Float32Array(getTextureSize(nodesCount) ** 2 * 4), nodesCount);
+    if (adjustSizes) {
+      this.aggregateProgram.setTextureData(
+        "cellsSizes",
+        new Float32Array(getTextureSize(nodesCount) ** 2 * 2),
+        nodesCount,
+      );
+      this.ownedNodesMetadataTexture = createFloatTexture(gl, getTextureSize(nodesCount));
+      this.nodesMetadataTexture = this.ownedNodesMetadataTexture;
+    }
+
+    // Initial data textures rebind:
+    this.wireTextures(nodesTexture, nodesMetadataTexture);
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public wireTextures(nodesTexture?: WebGLTexture, nodesMetadataTexture?: WebGLTexture) {
+    this.boundaries.wireTextures(nodesTexture);
+    if (nodesMetadataTexture) this.nodesMetadataTexture = nodesMetadataTexture;
+  }
+
+  public compute() {
+    const { boundaries, setupSortProgram, bitonicSort, treeProgram, aggregateProgram, aggregatePassesCount } = this;
+    const { adjustSizes } = this.params;
+
+    // 1. Compute boundaries:
+    boundaries.compute();
+
+    // 2. Sort the nodes by Morton code:
+    setupSortProgram.dataTexturesIndex.nodesPosition.texture = boundaries.getNodesTexture();
+    setupSortProgram.dataTexturesIndex.boundaries.texture = boundaries.getBoundariesTexture();
+    setupSortProgram.activate();
+    setupSortProgram.prepare();
+    setupSortProgram.compute();
+
+    bitonicSort.setTextures({
+      valuesTexture: setupSortProgram.outputTexturesIndex.values.texture,
+      sortOnTexture: setupSortProgram.outputTexturesIndex.sortOn.texture,
+    });
+    bitonicSort.sort();
+
+    // 3. Build the internal nodes:
+    treeProgram.dataTexturesIndex.nodesInLeaves.texture = bitonicSort.getSortedTexture();
+    treeProgram.dataTexturesIndex.nodesCode.texture = setupSortProgram.outputTexturesIndex.sortOn.texture;
+    treeProgram.activate();
+    treeProgram.prepare();
+    treeProgram.compute();
+
+    // 4. Sum the cells, bottom-up:
+    aggregateProgram.dataTexturesIndex.nodesPosition.texture = boundaries.getNodesTexture();
+    aggregateProgram.dataTexturesIndex.treeNodes.texture = treeProgram.outputTexturesIndex.treeNodes.texture;
+    aggregateProgram.dataTexturesIndex.nodesInLeaves.texture = bitonicSort.getSortedTexture();
+    if (adjustSizes)
+      aggregateProgram.dataTexturesIndex.nodesMetadata.texture = this.nodesMetadataTexture as WebGLTexture;
+    aggregateProgram.activate();
+    for (let pass = 0; pass < aggregatePassesCount; pass++) {
+      if (pass > 0) {
+        aggregateProgram.swapTextures("cells", "treeCells");
+        if (adjustSizes) aggregateProgram.swapTextures("cellsSizes", "treeCellsSizes");
+      }
+
+      aggregateProgram.prepare();
+      aggregateProgram.compute();
+    }
+  }
+
+  public kill() {
+    const { gl } = this;
+
+    this.boundaries.kill();
+    this.setupSortProgram.kill();
+    this.bitonicSort.kill();
+    this.treeProgram.kill();
+    this.aggregateProgram.kill();
+    if (this.ownedNodesMetadataTexture) gl.deleteTexture(this.ownedNodesMetadataTexture);
+  }
+
+  // These methods are for the WebGL pipelines. The nodes in leaves are the
+  // nodes indices sorted by Morton code, and the nodes codes are the Morton
+  // code of each node:
+  public getTreeNodesTexture(): WebGLTexture {
+    return this.treeProgram.outputTexturesIndex.treeNodes.texture;
+  }
+  public getTreeCellsTexture(): WebGLTexture {
+    return this.aggregateProgram.outputTexturesIndex.treeCells.texture;
+  }
+  // Only available with adjustSizes:
+  public getTreeCellsSizesTexture(): WebGLTexture | undefined {
+    return this.aggregateProgram.outputTexturesIndex.treeCellsSizes?.texture;
+  }
+  public getNodesInLeavesTexture(): WebGLTexture {
+    return this.bitonicSort.getSortedTexture();
+  }
+  public getNodesCodeTexture(): WebGLTexture {
+    return this.setupSortProgram.outputTexturesIndex.sortOn.texture;
+  }
+  public getBoundariesTexture(): WebGLTexture {
+    return this.boundaries.getBoundariesTexture();
+  }
+
+  // These methods are for using the tree directly (and for testing):
+  public setNodesData(nodes: BarnesHutNode[]) {
+    const { gl, nodesCount } = this;
+    this.boundaries.setNodesData(nodes);
+
+    if (this.ownedNodesMetadataTexture) {
+      const textureSize = getTextureSize(nodesCount);
+      const metadataByteArray = new Float32Array(4 * textureSize ** 2);
+      nodes.forEach(({ size }, i) => {
+        metadataByteArray[i * 4] = size ?? 1;
+      });
+
+      gl.bindTexture(gl.TEXTURE_2D, this.ownedNodesMetadataTexture);
+      gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, textureSize, textureSize, 0, gl.RGBA, gl.FLOAT, metadataByteArray);
+    }
+  }
+  public getBoundaries() {
+    return this.boundaries.getBoundaries();
+  }
+  // The Morton code of each node:
+  public getNodesCode(): number[] {
+    const output = this.setupSortProgram.getOutput("sortOn");
+    return Array.from(output.subarray(0, this.nodesCount));
+  }
+  // The nodes indices, sorted by Morton code:
+  public getNodesInLeaves(): number[] {
+    return this.bitonicSort.getSortedValues();
+  }
+  // As (left child, right child, prefix length, first leaf code) for each
+  // internal node (see getBarnesHutTreeFragmentShader):
+  public getTreeNodes(): Float32Array {
+    return this.treeProgram.getOutput("treeNodes").subarray(0, 4 * Math.max(this.nodesCount - 1, 0));
+  }
+  // As (sum(x * mass), sum(y * mass), sum(mass), count) for each internal
+  // node:
+  public getTreeCells(): Float32Array {
+    return this.aggregateProgram.getOutput("treeCells").subarray(0, 4 * Math.max(this.nodesCount - 1, 0));
+  }
+  // As (sum(size), max(size)) for each internal node, with adjustSizes:
+  public getTreeCellsSizes(): Float32Array {
+    return this.aggregateProgram.getOutput("treeCellsSizes").subarray(0, 2 * Math.max(this.nodesCount - 1, 0));
+  }
+}
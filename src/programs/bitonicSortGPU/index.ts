@@ -76,6 +76,10 @@ export class BitonicSortGPU {
     }
   }
 
+  public kill() {
+    this.bitonicProgram.kill();
+  }
+
   // These methods are for the WebGL pipelines:
   public setTextures({ valuesTexture, sortOnTexture }: { valuesTexture: WebGLTexture; sortOnTexture: WebGLTexture }) {
     const { bitonicProgram } = this;
@@ -3,8 +3,9 @@ import { getTextureSize } from "../../utils/webgl";
 /**
  * First pass of the boundaries reduction: each fragment reads a 4x4 block of
  * the nodes position texture, and outputs the (xMin, xMax, yMin, yMax) of the
- * nodes it contains. Texels that don't map to an actual node are ignored,
- * using sentinel values that can never win a min/max.
+ * nodes it contains. Texels that don't map to an actual node (out of bounds,
+ * or free slots, with a null mass) are ignored, using sentinel values that
+ * can never win a min/max.
  */
 export function getBoundariesInitFragmentShader({ nodesCount }: { nodesCount: number }) {
   // language=GLSL
@@ -26,6 +27,8 @@ vec4 readNode(ivec2 coord) {
   if (nodeIndex >= NODES_COUNT) return vec4(FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX);
 
   vec4 nodePosition = texelFetch(u_nodesPositionTexture, coord, 0);
+  if (nodePosition.z <= 0.0) return vec4(FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX);
+
   return vec4(nodePosition.x, nodePosition.x, nodePosition.y, nodePosition.y);
 }
 
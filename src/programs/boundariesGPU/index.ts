@@ -28,9 +28,12 @@ export class BoundariesGPU {
     inputSize: WebGLUniformLocation | null;
   };
   private vao: WebGLVertexArrayObject;
+  private quadBuffer: WebGLBuffer;
 
-  // Textures:
+  // Textures (the nodes texture can be rewired to an external one, so the
+  // one created here is kept aside, to be deleted on kill):
   private nodesTexture: WebGLTexture;
+  private ownedNodesTexture: WebGLTexture;
   private pingTexture: WebGLTexture;
   private pongTexture: WebGLTexture;
   private boundariesTexture: WebGLTexture;
@@ -59,19 +62,20 @@ export class BoundariesGPU {
       inputSize: gl.getUniformLocation(this.reduceProgram, "u_inputSize"),
     };
 
-    // Quad geometry, in a dedicated VAO so that the attribute 0 state shared
-    // by all WebCLPrograms (on the default VAO) is left untouched:
+    // Quad geometry, in a dedicated VAO (like each WebCLProgram), so that no
+    // other vertex state is touched:
     this.vao = gl.createVertexArray() as WebGLVertexArrayObject;
     gl.bindVertexArray(this.vao);
-    const quadBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    this.quadBuffer = gl.createBuffer() as WebGLBuffer;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
     gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
     gl.enableVertexAttribArray(0);
     gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
     gl.bindVertexArray(null);
 
     // Textures and framebuffers:
-    this.nodesTexture = createFloatTexture(gl, this.sourceSize);
+    this.ownedNodesTexture = createFloatTexture(gl, this.sourceSize);
+    this.nodesTexture = this.ownedNodesTexture;
     const pingPongSize = this.passSizes[0];
     this.pingTexture = createFloatTexture(gl, pingPongSize);
     this.pongTexture = createFloatTexture(gl, pingPongSize);
@@ -127,6 +131,22 @@ export class BoundariesGPU {
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
   }
 
+  public kill() {
+    const { gl } = this;
+
+    gl.deleteProgram(this.initProgram);
+    gl.deleteProgram(this.reduceProgram);
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteFramebuffer(this.pingFramebuffer);
+    gl.deleteFramebuffer(this.pongFramebuffer);
+    gl.deleteFramebuffer(this.boundariesFramebuffer);
+    gl.deleteTexture(this.ownedNodesTexture);
+    gl.deleteTexture(this.pingTexture);
+    gl.deleteTexture(this.pongTexture);
+    gl.deleteTexture(this.boundariesTexture);
+  }
+
   // These methods are for the WebGL pipelines:
   public getNodesTexture(): WebGLTexture {
     return this.nodesTexture;
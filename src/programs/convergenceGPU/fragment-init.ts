@@ -0,0 +1,45 @@
+import { getTextureSize } from "../../utils/webgl";
+
+/**
+ * First pass of the convergence reduction: each fragment reads a 4x4 block of
+ * the nodes convergence texture, written by the ForceAtlas2 shader with one
+ * (swinging, traction, displacement, count) texel per node, and outputs their
+ * sum. Texels that don't map to a node slot are ignored (free slots and fixed
+ * nodes are already written as zeros).
+ */
+export function getConvergenceInitFragmentShader({ nodesCount }: { nodesCount: number }) {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define NODES_COUNT ${Math.floor(nodesCount)}
+#define SOURCE_SIZE ${Math.floor(getTextureSize(nodesCount))}
+
+uniform sampler2D u_nodesConvergenceTexture;
+
+layout(location = 0) out vec4 sums;
+
+vec4 readNode(ivec2 coord) {
+  if (coord.x >= SOURCE_SIZE || coord.y >= SOURCE_SIZE) return vec4(0.0);
+
+  int nodeIndex = coord.y * SOURCE_SIZE + coord.x;
+  if (nodeIndex >= NODES_COUNT) return vec4(0.0);
+
+  return texelFetch(u_nodesConvergenceTexture, coord, 0);
+}
+
+void main() {
+  ivec2 base = ivec2(gl_FragCoord.xy) * 4;
+
+  vec4 result = vec4(0.0);
+  for (int dy = 0; dy < 4; dy++) {
+    for (int dx = 0; dx < 4; dx++) {
+      result += readNode(base + ivec2(dx, dy));
+    }
+  }
+
+  sums = result;
+}`;
+
+  return SHADER;
+}
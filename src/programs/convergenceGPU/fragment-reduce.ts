@@ -0,0 +1,36 @@
+/**
+ * Subsequent passes of the convergence reduction: each fragment sums a 4x4
+ * block of (swinging, traction, displacement, count) values from the previous
+ * pass. Texels outside the previous pass's output are ignored.
+ */
+export function getConvergenceReduceFragmentShader() {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_inputTexture;
+uniform int u_inputSize;
+
+layout(location = 0) out vec4 sums;
+
+vec4 readCell(ivec2 coord) {
+  if (coord.x >= u_inputSize || coord.y >= u_inputSize) return vec4(0.0);
+
+  return texelFetch(u_inputTexture, coord, 0);
+}
+
+void main() {
+  ivec2 base = ivec2(gl_FragCoord.xy) * 4;
+
+  vec4 result = vec4(0.0);
+  for (int dy = 0; dy < 4; dy++) {
+    for (int dx = 0; dx < 4; dx++) {
+      result += readCell(base + ivec2(dx, dy));
+    }
+  }
+
+  sums = result;
+}`;
+
+  return SHADER;
+}
@@ -0,0 +1,77 @@
+/**
+ * Updates the global speed of the layout from the total swinging and traction
+ * of the last iteration, like Gephi's ForceAtlas2 does at each pass: the
+ * speed rises while the nodes mostly move in the same direction as before
+ * (traction), and drops when they oscillate (swinging), with a tolerance to
+ * oscillations that scales with the graph size and u_jitterTolerance.
+ *
+ * The state is a single (speed, speedEfficiency) texel, so that it never
+ * leaves the GPU.
+ */
+export function getConvergenceSpeedFragmentShader() {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define FLOAT_MAX 3.402823466e38
+#define MIN_SPEED_EFFICIENCY 0.05
+#define MAX_JITTER_TOLERANCE 10.0
+#define MAX_RISE 0.5
+#define MAX_SPEED 1000.0
+
+uniform sampler2D u_sumsTexture;
+uniform sampler2D u_speedTexture;
+uniform float u_jitterTolerance;
+
+layout(location = 0) out vec4 speedOutput;
+
+void main() {
+  vec4 sums = texelFetch(u_sumsTexture, ivec2(0), 0);
+  vec4 state = texelFetch(u_speedTexture, ivec2(0), 0);
+  float totalSwinging = sums.x;
+  float totalTraction = sums.y;
+  float nodesCount = sums.w;
+  float speed = state.x;
+  float speedEfficiency = state.y;
+
+  // No moving node, nothing to adapt to:
+  if (nodesCount <= 0.0) {
+    speedOutput = state;
+    return;
+  }
+
+  // Optimize jitter tolerance (the 0.05 and sqrt(nodesCount) values come from
+  // Gephi's empirical tuning):
+  float estimatedOptimalJitterTolerance = 0.05 * sqrt(nodesCount);
+  float minJitterTolerance = sqrt(estimatedOptimalJitterTolerance);
+  float jitterTolerance = u_jitterTolerance * max(
+    minJitterTolerance,
+    min(MAX_JITTER_TOLERANCE, estimatedOptimalJitterTolerance * totalTraction / (nodesCount * nodesCount))
+  );
+
+  // Protection against erratic behavior:
+  if (totalSwinging > 2.0 * totalTraction) {
+    if (speedEfficiency > MIN_SPEED_EFFICIENCY) speedEfficiency *= 0.5;
+    jitterTolerance = max(jitterTolerance, u_jitterTolerance);
+  }
+
+  float targetSpeed = totalSwinging > 0.0
+    ? jitterTolerance * speedEfficiency * totalTraction / totalSwinging
+    : FLOAT_MAX;
+
+  // Speed efficiency is how the speed really corrects the swinging vs. the
+  // traction:
+  if (totalSwinging > jitterTolerance * totalTraction) {
+    if (speedEfficiency > MIN_SPEED_EFFICIENCY) speedEfficiency *= 0.7;
+  } else if (speed < MAX_SPEED) {
+    speedEfficiency *= 1.3;
+  }
+
+  // The speed should not rise too much too quickly:
+  speed = speed + min(targetSpeed - speed, MAX_RISE * speed);
+
+  speedOutput = vec4(speed, speedEfficiency, 0.0, 0.0);
+}`;
+
+  return SHADER;
+}
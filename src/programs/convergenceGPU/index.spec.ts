@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+
+import { setupWebGL2Context, waitForGPUCompletion } from "../../utils/webgl";
+import { ConvergenceGPU, ConvergenceNode } from "./index";
+
+function generateNodes(N: number): ConvergenceNode[] {
+  return Array.from({ length: N }, (_, i) => ({
+    swinging: (i % 7) / 10,
+    traction: (i % 11) / 10,
+    displacement: (i % 5) / 100,
+  }));
+}
+
+/**
+ * CPU version of the speed update, as in Gephi's ForceAtlas2:
+ */
+function getNextSpeed(
+  [totalSwinging, totalTraction, , nodesCount]: number[],
+  [speed, speedEfficiency]: [number, number],
+  jitterTolerance: number,
+): [number, number] {
+  const estimatedOptimalJitterTolerance = 0.05 * Math.sqrt(nodesCount);
+  const minJitterTolerance = Math.sqrt(estimatedOptimalJitterTolerance);
+  let jt =
+    jitterTolerance *
+    Math.max(
+      minJitterTolerance,
+      Math.min(10, (estimatedOptimalJitterTolerance * totalTraction) / (nodesCount * nodesCount)),
+    );
+  if (totalSwinging > 2 * totalTraction) {
+    if (speedEfficiency > 0.05) speedEfficiency *= 0.5;
+    jt = Math.max(jt, jitterTolerance);
+  }
+  const targetSpeed = (jt * speedEfficiency * totalTraction) / totalSwinging;
+  if (totalSwinging > jt * totalTraction) {
+    if (speedEfficiency > 0.05) speedEfficiency *= 0.7;
+  } else if (speed < 1000) {
+    speedEfficiency *= 1.3;
+  }
+
+  return [speed + Math.min(targetSpeed - speed, 0.5 * speed), speedEfficiency];
+}
+
+describe("Convergence GPU Program", () => {
+  // Various sizes, including 1 (single pass into the output), non powers of
+  // two, and sizes requiring multiple reduction passes:
+  const NValues = [1, 3, 10, 17, 1000, 5000];
+
+  test.each(NValues.map((N) => ({ N })))("N=$N - sums match nodes values", async ({ N }) => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const nodes = generateNodes(N);
+      const convergence = new ConvergenceGPU(gl, { nodesCount: N });
+      convergence.setNodesData(nodes);
+      convergence.compute();
+      await waitForGPUCompletion(gl);
+
+      const [swinging, traction, displacement, count] = convergence.getSums();
+      expect(swinging).toBeCloseTo(
+        nodes.reduce((sum, n) => sum + n.swinging, 0),
+        1,
+      );
+      expect(traction).toBeCloseTo(
+        nodes.reduce((sum, n) => sum + n.traction, 0),
+        1,
+      );
+      expect(displacement).toBeCloseTo(
+        nodes.reduce((sum, n) => sum + n.displacement, 0),
+        2,
+      );
+      expect(count).toBe(N);
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("Speed updates match the CPU reference", async () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const nodes = generateNodes(100);
+      const convergence = new ConvergenceGPU(gl, { nodesCount: nodes.length });
+      convergence.setNodesData(nodes);
+
+      let expected: [number, number] = [1, 1];
+      for (let i = 0; i < 5; i++) {
+        convergence.compute({ jitterTolerance: 1, updateSpeed: true });
+        expected = getNextSpeed(convergence.getSums(), expected, 1);
+      }
+      await waitForGPUCompletion(gl);
+
+      const [speed, speedEfficiency] = convergence.getSpeed();
+      expect(speed).toBeCloseTo(expected[0], 3);
+      expect(speedEfficiency).toBeCloseTo(expected[1], 3);
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("Speed is kept as is when set, and without update", async () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const convergence = new ConvergenceGPU(gl, { nodesCount: 10 });
+      convergence.setNodesData(generateNodes(10));
+      convergence.setSpeed(3, 0.5);
+      convergence.compute();
+      await waitForGPUCompletion(gl);
+
+      expect(convergence.getSpeed()).toEqual([3, 0.5]);
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("Async reads return the last sums", async () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const convergence = new ConvergenceGPU(gl, { nodesCount: 10 });
+      convergence.setNodesData(generateNodes(10));
+      convergence.compute();
+      expect(convergence.startAsyncRead()).toBe(true);
+      expect(convergence.startAsyncRead()).toBe(false);
+      await waitForGPUCompletion(gl);
+
+      let sums: number[] | null = null;
+      while (!sums) {
+        sums = convergence.pollAsyncRead();
+        if (!sums) await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(sums[3]).toBe(10);
+      expect(convergence.pollAsyncRead()).toBeNull();
+    } finally {
+      canvas.remove();
+    }
+  });
+});
@@ -0,0 +1,351 @@
+import { createFloatTexture, createFramebuffer, createProgram, getTextureSize } from "../../utils/webgl";
+import { getVertexShader } from "../webCLProgram/vertex";
+import { getConvergenceInitFragmentShader } from "./fragment-init";
+import { getConvergenceReduceFragmentShader } from "./fragment-reduce";
+import { getConvergenceSpeedFragmentShader } from "./fragment-speed";
+
+const REDUCE_FACTOR = 4;
+
+export type ConvergenceNode = { swinging: number; traction: number; displacement: number };
+
+/**
+ * This class sums the (swinging, traction, displacement, count) values of all
+ * nodes into a 1x1 RGBA32F texture, using a parallel reduction (like
+ * BoundariesGPU, each pass sums 4x4 blocks of the previous pass). From these
+ * sums, it can then update the global adaptive speed of the layout (see
+ * fragment-speed.ts), and tell how much the nodes still move, through an
+ * asynchronous readback that never stalls the pipeline.
+ */
+export class ConvergenceGPU {
+  private gl: WebGL2RenderingContext;
+  private sourceSize: number;
+  private passSizes: number[];
+
+  // Programs:
+  private initProgram: WebGLProgram;
+  private reduceProgram: WebGLProgram;
+  private speedProgram: WebGLProgram;
+  private initUniformLocations: { nodesConvergenceTexture: WebGLUniformLocation | null };
+  private reduceUniformLocations: {
+    inputTexture: WebGLUniformLocation | null;
+    inputSize: WebGLUniformLocation | null;
+  };
+  private speedUniformLocations: {
+    sumsTexture: WebGLUniformLocation | null;
+    speedTexture: WebGLUniformLocation | null;
+    jitterTolerance: WebGLUniformLocation | null;
+  };
+  private vao: WebGLVertexArrayObject;
+  private quadBuffer: WebGLBuffer;
+
+  // Textures (the nodes texture can be rewired to an external one, so the
+  // one created here is kept aside, to be deleted on kill). The speed state
+  // is ping-ponged, since each update reads the previous one:
+  private nodesTexture: WebGLTexture;
+  private ownedNodesTexture: WebGLTexture;
+  private pingTexture: WebGLTexture;
+  private pongTexture: WebGLTexture;
+  private sumsTexture: WebGLTexture;
+  private speedTexture: WebGLTexture;
+  private nextSpeedTexture: WebGLTexture;
+  private pingFramebuffer: WebGLFramebuffer;
+  private pongFramebuffer: WebGLFramebuffer;
+  private sumsFramebuffer: WebGLFramebuffer;
+  private speedFramebuffer: WebGLFramebuffer;
+  private nextSpeedFramebuffer: WebGLFramebuffer;
+
+  // Async readback state (see startAsyncRead / pollAsyncRead):
+  private asyncReadPBO: WebGLBuffer | null = null;
+  private asyncReadFence: WebGLSync | null = null;
+  private asyncReadArray = new Float32Array(4);
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    { nodesTexture, nodesCount }: { nodesCount: number; nodesTexture?: WebGLTexture },
+  ) {
+    this.gl = gl;
+    this.sourceSize = getTextureSize(nodesCount);
+
+    // Sizes of each pass output, down to 1:
+    this.passSizes = [Math.ceil(this.sourceSize / REDUCE_FACTOR)];
+    while (this.passSizes[this.passSizes.length - 1] > 1) {
+      this.passSizes.push(Math.ceil(this.passSizes[this.passSizes.length - 1] / REDUCE_FACTOR));
+    }
+
+    // Programs:
+    this.initProgram = createProgram(
+      gl,
+      getVertexShader(),
+      getConvergenceInitFragmentShader({ nodesCount }),
+      "convergence init program",
+    );
+    this.reduceProgram = createProgram(
+      gl,
+      getVertexShader(),
+      getConvergenceReduceFragmentShader(),
+      "convergence reduce program",
+    );
+    this.speedProgram = createProgram(
+      gl,
+      getVertexShader(),
+      getConvergenceSpeedFragmentShader(),
+      "convergence speed program",
+    );
+    this.initUniformLocations = {
+      nodesConvergenceTexture: gl.getUniformLocation(this.initProgram, "u_nodesConvergenceTexture"),
+    };
+    this.reduceUniformLocations = {
+      inputTexture: gl.getUniformLocation(this.reduceProgram, "u_inputTexture"),
+      inputSize: gl.getUniformLocation(this.reduceProgram, "u_inputSize"),
+    };
+    this.speedUniformLocations = {
+      sumsTexture: gl.getUniformLocation(this.speedProgram, "u_sumsTexture"),
+      speedTexture: gl.getUniformLocation(this.speedProgram, "u_speedTexture"),
+      jitterTolerance: gl.getUniformLocation(this.speedProgram, "u_jitterTolerance"),
+    };
+
+    // Quad geometry, in a dedicated VAO:
+    this.vao = gl.createVertexArray() as WebGLVertexArrayObject;
+    gl.bindVertexArray(this.vao);
+    this.quadBuffer = gl.createBuffer() as WebGLBuffer;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.bindVertexArray(null);
+
+    // Textures and framebuffers:
+    this.ownedNodesTexture = createFloatTexture(gl, this.sourceSize);
+    this.nodesTexture = this.ownedNodesTexture;
+    const pingPongSize = this.passSizes[0];
+    this.pingTexture = createFloatTexture(gl, pingPongSize);
+    this.pongTexture = createFloatTexture(gl, pingPongSize);
+    this.sumsTexture = createFloatTexture(gl, 1);
+    this.speedTexture = createFloatTexture(gl, 1);
+    this.nextSpeedTexture = createFloatTexture(gl, 1);
+    this.pingFramebuffer = createFramebuffer(gl, this.pingTexture, "ConvergenceGPU ping framebuffer");
+    this.pongFramebuffer = createFramebuffer(gl, this.pongTexture, "ConvergenceGPU pong framebuffer");
+    this.sumsFramebuffer = createFramebuffer(gl, this.sumsTexture, "ConvergenceGPU sums framebuffer");
+    this.speedFramebuffer = createFramebuffer(gl, this.speedTexture, "ConvergenceGPU speed framebuffer");
+    this.nextSpeedFramebuffer = createFramebuffer(gl, this.nextSpeedTexture, "ConvergenceGPU next speed framebuffer");
+
+    // Initial state:
+    this.setSpeed(1, 1);
+    this.wireTextures(nodesTexture);
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public wireTextures(nodesTexture?: WebGLTexture) {
+    if (nodesTexture) this.nodesTexture = nodesTexture;
+  }
+
+  /**
+   * Sums the nodes values, and then, with updateSpeed, updates the global
+   * speed from these sums:
+   */
+  public compute({
+    jitterTolerance = 1,
+    updateSpeed = false,
+  }: { jitterTolerance?: number; updateSpeed?: boolean } = {}) {
+    const { gl, passSizes } = this;
+
+    gl.bindVertexArray(this.vao);
+
+    passSizes.forEach((size, passIndex) => {
+      const isLastPass = size === 1;
+
+      if (passIndex === 0) {
+        gl.useProgram(this.initProgram);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, this.nodesTexture);
+        gl.uniform1i(this.initUniformLocations.nodesConvergenceTexture, 0);
+      } else {
+        gl.useProgram(this.reduceProgram);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, passIndex % 2 === 1 ? this.pingTexture : this.pongTexture);
+        gl.uniform1i(this.reduceUniformLocations.inputTexture, 0);
+        gl.uniform1i(this.reduceUniformLocations.inputSize, passSizes[passIndex - 1]);
+      }
+
+      const framebuffer = isLastPass
+        ? this.sumsFramebuffer
+        : passIndex % 2 === 0
+          ? this.pingFramebuffer
+          : this.pongFramebuffer;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.viewport(0, 0, size, size);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    });
+
+    if (updateSpeed) {
+      gl.useProgram(this.speedProgram);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, this.sumsTexture);
+      gl.uniform1i(this.speedUniformLocations.sumsTexture, 0);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.speedTexture);
+      gl.uniform1i(this.speedUniformLocations.speedTexture, 1);
+      gl.uniform1f(this.speedUniformLocations.jitterTolerance, jitterTolerance);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, this.nextSpeedFramebuffer);
+      gl.viewport(0, 0, 1, 1);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+      [this.speedTexture, this.nextSpeedTexture] = [this.nextSpeedTexture, this.speedTexture];
+      [this.speedFramebuffer, this.nextSpeedFramebuffer] = [this.nextSpeedFramebuffer, this.speedFramebuffer];
+      gl.bindTexture(gl.TEXTURE_2D, null);
+    }
+
+    gl.bindVertexArray(null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  /**
+   * Starts an asynchronous read of the last computed sums (see
+   * WebCLProgram.startAsyncDataRead). Returns false if a read is already in
+   * flight.
+   */
+  public startAsyncRead(): boolean {
+    const { gl } = this;
+    if (this.asyncReadFence) return false;
+
+    if (!this.asyncReadPBO) {
+      this.asyncReadPBO = gl.createBuffer() as WebGLBuffer;
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.asyncReadPBO);
+      gl.bufferData(gl.PIXEL_PACK_BUFFER, this.asyncReadArray.byteLength, gl.STREAM_READ);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.sumsFramebuffer);
+    gl.readBuffer(gl.COLOR_ATTACHMENT0);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.asyncReadPBO);
+    gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.FLOAT, 0);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    this.asyncReadFence = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0) as WebGLSync;
+    gl.flush();
+    return true;
+  }
+
+  /**
+   * Polls the pending asynchronous read, without ever blocking. Returns the
+   * (swinging, traction, displacement, count) sums if the GPU is done with
+   * them, null else.
+   */
+  public pollAsyncRead(): number[] | null {
+    const { gl } = this;
+    if (!this.asyncReadFence) return null;
+
+    const status = gl.clientWaitSync(this.asyncReadFence, 0, 0);
+    if (status === gl.TIMEOUT_EXPIRED) return null;
+
+    gl.deleteSync(this.asyncReadFence);
+    this.asyncReadFence = null;
+    if (status === gl.WAIT_FAILED) throw new Error("ConvergenceGPU: failed to wait for the async read fence");
+
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.asyncReadPBO);
+    gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, this.asyncReadArray);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+    return Array.from(this.asyncReadArray);
+  }
+
+  public cancelAsyncRead() {
+    if (this.asyncReadFence) {
+      this.gl.deleteSync(this.asyncReadFence);
+      this.asyncReadFence = null;
+    }
+  }
+
+  public kill() {
+    const { gl } = this;
+
+    this.cancelAsyncRead();
+    if (this.asyncReadPBO) gl.deleteBuffer(this.asyncReadPBO);
+    gl.deleteProgram(this.initProgram);
+    gl.deleteProgram(this.reduceProgram);
+    gl.deleteProgram(this.speedProgram);
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteFramebuffer(this.pingFramebuffer);
+    gl.deleteFramebuffer(this.pongFramebuffer);
+    gl.deleteFramebuffer(this.sumsFramebuffer);
+    gl.deleteFramebuffer(this.speedFramebuffer);
+    gl.deleteFramebuffer(this.nextSpeedFramebuffer);
+    gl.deleteTexture(this.ownedNodesTexture);
+    gl.deleteTexture(this.pingTexture);
+    gl.deleteTexture(this.pongTexture);
+    gl.deleteTexture(this.sumsTexture);
+    gl.deleteTexture(this.speedTexture);
+    gl.deleteTexture(this.nextSpeedTexture);
+  }
+
+  // These methods are for the WebGL pipelines:
+  public getNodesTexture(): WebGLTexture {
+    return this.nodesTexture;
+  }
+  public getSumsTexture(): WebGLTexture {
+    return this.sumsTexture;
+  }
+  public getSpeedTexture(): WebGLTexture {
+    return this.speedTexture;
+  }
+
+  // These methods read and write the state directly (they block, so they are
+  // for rebuilding programs, and for testing):
+  public setSpeed(speed: number, speedEfficiency: number) {
+    const { gl } = this;
+    gl.bindTexture(gl.TEXTURE_2D, this.speedTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA32F,
+      1,
+      1,
+      0,
+      gl.RGBA,
+      gl.FLOAT,
+      new Float32Array([speed, speedEfficiency, 0, 0]),
+    );
+  }
+  public getSpeed(): [number, number] {
+    const [speed, speedEfficiency] = this.readTexel(this.speedFramebuffer);
+    return [speed, speedEfficiency];
+  }
+  public getSums(): number[] {
+    return this.readTexel(this.sumsFramebuffer);
+  }
+  public setNodesData(nodes: ConvergenceNode[]) {
+    const { gl, sourceSize } = this;
+    const nodesByteArray = new Float32Array(4 * sourceSize ** 2);
+
+    nodes.forEach(({ swinging, traction, displacement }, i) => {
+      nodesByteArray[i * 4] = swinging;
+      nodesByteArray[i * 4 + 1] = traction;
+      nodesByteArray[i * 4 + 2] = displacement;
+      nodesByteArray[i * 4 + 3] = 1;
+    });
+
+    gl.bindTexture(gl.TEXTURE_2D, this.nodesTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, sourceSize, sourceSize, 0, gl.RGBA, gl.FLOAT, nodesByteArray);
+  }
+
+  private readTexel(framebuffer: WebGLFramebuffer): number[] {
+    const { gl } = this;
+    const outputArr = new Float32Array(4);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.FLOAT, outputArr);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    return Array.from(outputArr);
+  }
+}
@@ -0,0 +1,180 @@
+import { BARNES_HUT_CODE_BITS, BARNES_HUT_DEPTH } from "../barnesHutGPU";
+
+const FLOAT_MAX = 3.402823466e38;
+const VALUE_FOR_EXCESS_NODE = 4 ** BARNES_HUT_DEPTH;
+
+// Spreads the 16 lower bits of a number over its even bits:
+function spreadBits(n: number): number {
+  n &= 0x0000ffff;
+  n = (n | (n << 8)) & 0x00ff00ff;
+  n = (n | (n << 4)) & 0x0f0f0f0f;
+  n = (n | (n << 2)) & 0x33333333;
+  n = (n | (n << 1)) & 0x55555555;
+  return n;
+}
+
+/**
+ * CPU version of BarnesHutGPU (and of its BoundariesGPU): the same binary
+ * radix tree over the nodes sorted by Morton code, with the same layouts:
+ * - treeNodes: (left child, right child, prefix length, first leaf code)
+ *   per internal node, where leaves are encoded as -(leaf index) - 1
+ * - treeCells: (sum(x * mass), sum(y * mass), sum(mass), count) per
+ *   internal node
+ * - treeCellsSizes: (sum(size), max(size)) per internal node, only with
+ *   adjustSizes
+ */
+export class BarnesHutCPU {
+  private adjustSizes: boolean;
+  private boundaries: [number, number, number, number] = [FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX];
+  private bbSide = 1e-6;
+  private nodesCode = new Float32Array(0);
+  private nodesInLeaves = new Int32Array(0);
+  private treeNodes = new Float32Array(0);
+  private treeCells = new Float32Array(0);
+  private treeCellsSizes = new Float32Array(0);
+
+  constructor({ adjustSizes = false }: { adjustSizes?: boolean } = {}) {
+    this.adjustSizes = adjustSizes;
+  }
+
+  /**
+   * Returns the length of the prefix shared by the leaves i and j codes (or
+   * -1 if j is out of the leaves), like getBarnesHutTreeFragmentShader:
+   */
+  private getCommonPrefix(i: number, j: number): number {
+    const { nodesInLeaves, nodesCode } = this;
+    if (j < 0 || j >= nodesInLeaves.length) return -1;
+    const codeI = nodesCode[nodesInLeaves[i]];
+    const codeJ = nodesCode[nodesInLeaves[j]];
+    if (codeI !== codeJ) return Math.clz32(codeI ^ codeJ) - (32 - BARNES_HUT_CODE_BITS);
+    return BARNES_HUT_CODE_BITS + Math.clz32(i ^ j);
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public compute(nodesPosition: Float32Array, nodesCount: number, nodesMetadata?: Float32Array) {
+    const { adjustSizes } = this;
+
+    // 1. Compute boundaries (free slots, with a null mass, are ignored):
+    const boundaries: [number, number, number, number] = [FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX];
+    for (let i = 0; i < nodesCount; i++) {
+      if (nodesPosition[i * 4 + 2] <= 0) continue;
+      const x = nodesPosition[i * 4];
+      const y = nodesPosition[i * 4 + 1];
+      boundaries[0] = Math.min(boundaries[0], x);
+      boundaries[1] = Math.max(boundaries[1], x);
+      boundaries[2] = Math.min(boundaries[2], y);
+      boundaries[3] = Math.max(boundaries[3], y);
+    }
+    this.boundaries = boundaries;
+
+    // 2. Sort the nodes by Morton code, in the square bounding box (free
+    // slots are sorted after all nodes):
+    const bbCenter = [(boundaries[0] + boundaries[1]) / 2, (boundaries[2] + boundaries[3]) / 2];
+    this.bbSide = Math.max(boundaries[1] - boundaries[0], boundaries[3] - boundaries[2], 1e-6);
+    const gridSize = 2 ** BARNES_HUT_DEPTH;
+    const nodesCode = new Float32Array(nodesCount);
+    for (let i = 0; i < nodesCount; i++) {
+      if (nodesPosition[i * 4 + 2] <= 0) {
+        nodesCode[i] = VALUE_FOR_EXCESS_NODE;
+        continue;
+      }
+      const rx = Math.min(Math.max((nodesPosition[i * 4] - bbCenter[0]) / this.bbSide + 0.5, 0), 0.999999);
+      const ry = Math.min(Math.max((nodesPosition[i * 4 + 1] - bbCenter[1]) / this.bbSide + 0.5, 0), 0.999999);
+      nodesCode[i] = (spreadBits(Math.floor(ry * gridSize)) << 1) | spreadBits(Math.floor(rx * gridSize));
+    }
+    this.nodesCode = nodesCode;
+    this.nodesInLeaves = Int32Array.from({ length: nodesCount }, (_, i) => i).sort(
+      (a, b) => nodesCode[a] - nodesCode[b] || a - b,
+    );
+
+    // 3. Build the internal nodes (see getBarnesHutTreeFragmentShader):
+    const internalNodesCount = Math.max(nodesCount - 1, 0);
+    const treeNodes = new Float32Array(internalNodesCount * 4);
+    for (let i = 0; i < internalNodesCount; i++) {
+      const direction = this.getCommonPrefix(i, i + 1) > this.getCommonPrefix(i, i - 1) ? 1 : -1;
+
+      const minPrefix = this.getCommonPrefix(i, i - direction);
+      let maxLength = 2;
+      while (this.getCommonPrefix(i, i + maxLength * direction) > minPrefix) maxLength *= 2;
+      let rangeLength = 0;
+      for (let t = maxLength / 2; t >= 1; t /= 2) {
+        if (this.getCommonPrefix(i, i + (rangeLength + t) * direction) > minPrefix) rangeLength += t;
+      }
+      const j = i + rangeLength * direction;
+      const nodePrefix = this.getCommonPrefix(i, j);
+
+      let split = 0;
+      for (let divider = 2; ; divider *= 2) {
+        const t = Math.ceil(rangeLength / divider);
+        if (this.getCommonPrefix(i, i + (split + t) * direction) > nodePrefix) split += t;
+        if (t <= 1) break;
+      }
+      const gamma = i + split * direction + Math.min(direction, 0);
+
+      const first = Math.min(i, j);
+      const last = Math.max(i, j);
+      treeNodes[i * 4] = first === gamma ? -gamma - 1 : gamma;
+      treeNodes[i * 4 + 1] = last === gamma + 1 ? -gamma - 2 : gamma + 1;
+      treeNodes[i * 4 + 2] = nodePrefix;
+      treeNodes[i * 4 + 3] = nodesCode[this.nodesInLeaves[first]];
+    }
+    this.treeNodes = treeNodes;
+
+    // 4. Sum the cells, bottom-up:
+    const treeCells = new Float32Array(internalNodesCount * 4);
+    const treeCellsSizes = new Float32Array(adjustSizes ? internalNodesCount * 2 : 0);
+    const sumCell = (child: number): [number, number, number, number, number, number] => {
+      if (child < 0) {
+        const nodeIndex = this.nodesInLeaves[-child - 1];
+        const mass = nodesPosition[nodeIndex * 4 + 2];
+        if (mass <= 0) return [0, 0, 0, 0, 0, 0];
+        const size = nodesMetadata ? nodesMetadata[nodeIndex * 4] : 1;
+        return [nodesPosition[nodeIndex * 4] * mass, nodesPosition[nodeIndex * 4 + 1] * mass, mass, 1, size, size];
+      }
+
+      const left = sumCell(treeNodes[child * 4]);
+      const right = sumCell(treeNodes[child * 4 + 1]);
+      const cell: [number, number, number, number, number, number] = [
+        left[0] + right[0],
+        left[1] + right[1],
+        left[2] + right[2],
+        left[3] + right[3],
+        left[4] + right[4],
+        Math.max(left[5], right[5]),
+      ];
+      treeCells.set(cell.slice(0, 4), child * 4);
+      if (adjustSizes) treeCellsSizes.set(cell.slice(4), child * 2);
+      return cell;
+    };
+    if (internalNodesCount) sumCell(0);
+    this.treeCells = treeCells;
+    this.treeCellsSizes = treeCellsSizes;
+  }
+
+  public getBoundingBoxSide(): number {
+    return this.bbSide;
+  }
+  // As (xMin, xMax, yMin, yMax), like BoundariesGPU:
+  public getBoundaries(): number[] {
+    return this.boundaries.slice();
+  }
+  public getNodesCode(): Float32Array {
+    return this.nodesCode;
+  }
+  public getNodesInLeaves(): Int32Array {
+    return this.nodesInLeaves;
+  }
+  public getTreeNodes(): Float32Array {
+    return this.treeNodes;
+  }
+  public getTreeCells(): Float32Array {
+    return this.treeCells;
+  }
+  // With adjustSizes:
+  public getTreeCellsSizes(): Float32Array {
+    return this.treeCellsSizes;
+  }
+}
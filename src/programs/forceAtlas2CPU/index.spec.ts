@@ -0,0 +1,181 @@
+import { describe, expect, test } from "vitest";
+
+import { BARNES_HUT_DEPTH } from "../barnesHutGPU";
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "../forceAtlas2GPU/consts";
+import { getQuadTreeLevelSize } from "../quadTreeGPU";
+import { BarnesHutCPU, ForceAtlas2CPU, KMeansCPU, QuadTreeCPU, getNextSpeed } from "./index";
+
+// 4 nodes in a square, plus a free slot (with a null mass):
+function getNodesPosition(): Float32Array {
+  return new Float32Array([0, 0, 1, 0, 10, 0, 2, 0, 0, 10, 1, 0, 10, 10, 3, 0, 0, 0, 0, 0]);
+}
+
+describe("QuadTreeCPU", () => {
+  test("should sum all nodes in each level, ignoring free slots", () => {
+    const quadTree = new QuadTreeCPU({ depth: 3 });
+    quadTree.compute(getNodesPosition(), 5);
+
+    expect(quadTree.getBoundaries()).toEqual([0, 10, 0, 10]);
+    for (let level = 0; level < 3; level++) {
+      const cells = quadTree.getLevelData(level);
+      const size = getQuadTreeLevelSize(level);
+      let mass = 0;
+      let count = 0;
+      for (let i = 0; i < size * size; i++) {
+        mass += cells[i * 4 + 2];
+        count += cells[i * 4 + 3];
+      }
+      expect(mass).toBe(7);
+      expect(count).toBe(4);
+    }
+
+    // Each node is alone in a corner of the coarsest level:
+    const level0 = quadTree.getLevelData(0);
+    expect(Array.from(level0.subarray(0, 4))).toEqual([0, 0, 1, 1]);
+    expect(Array.from(level0.subarray(12, 16))).toEqual([30, 30, 3, 1]);
+  });
+
+  test("should sum the second moments of each cell around its center, with quadrupole", () => {
+    const quadTree = new QuadTreeCPU({ depth: 2, quadrupole: true });
+    quadTree.compute(getNodesPosition(), 5);
+
+    // Each node is 2.5 away from the center of its coarsest cell, along both
+    // axes:
+    const moments = quadTree.getLevelMoments(0);
+    expect(Array.from(moments.subarray(0, 3))).toEqual([6.25, 6.25, 6.25]);
+    expect(Array.from(moments.subarray(3, 6))).toEqual([12.5, -12.5, 12.5]);
+    expect(Array.from(moments.subarray(9, 12))).toEqual([18.75, 18.75, 18.75]);
+  });
+});
+
+describe("BarnesHutCPU", () => {
+  test("should sort the nodes by Morton code, and sum them in the root cell", () => {
+    const barnesHut = new BarnesHutCPU();
+    barnesHut.compute(getNodesPosition(), 5);
+
+    expect(barnesHut.getBoundaries()).toEqual([0, 10, 0, 10]);
+    // The free slot gets the highest code, and is sorted last:
+    expect(barnesHut.getNodesCode()[4]).toBe(4 ** BARNES_HUT_DEPTH);
+    expect(Array.from(barnesHut.getNodesInLeaves())).toEqual([0, 1, 2, 3, 4]);
+
+    // The root shares no bits, as it holds the free slot:
+    const treeNodes = barnesHut.getTreeNodes();
+    expect(treeNodes.length).toBe(16);
+    expect(treeNodes[2]).toBe(0);
+    expect(Array.from(barnesHut.getTreeCells().subarray(0, 4))).toEqual([50, 40, 7, 4]);
+  });
+});
+
+describe("KMeansCPU", () => {
+  test("should group all nodes per closest centroid", () => {
+    const kMeans = new KMeansCPU({ nodesCount: 5, centroidsCount: 2 });
+    const nodesPosition = getNodesPosition();
+    kMeans.initialize(nodesPosition);
+    kMeans.compute(nodesPosition, { steps: 3 });
+
+    const closestCentroid = kMeans.getClosestCentroid();
+    const centroidsOffsets = kMeans.getCentroidsOffsets();
+    const nodesInCentroids = kMeans.getNodesInCentroids();
+    expect(closestCentroid[4]).toBe(-1);
+    expect(centroidsOffsets[0] + centroidsOffsets[2]).toBe(4);
+
+    for (let c = 0; c < 2; c++) {
+      const [count, offset] = [centroidsOffsets[c * 2], centroidsOffsets[c * 2 + 1]];
+      for (let j = offset; j < offset + count; j++) expect(closestCentroid[nodesInCentroids[j]]).toBe(c);
+    }
+  });
+});
+
+describe("ForceAtlas2CPU", () => {
+  function getForceAtlas2CPU(settings: Partial<ForceAtlas2Settings> = {}) {
+    const fa2 = new ForceAtlas2CPU({
+      nodesCapacity: 5,
+      edgesCapacity: 2,
+      settings: { ...DEFAULT_FORCE_ATLAS_2_SETTINGS, ...settings },
+    });
+    fa2.setTextureData("nodesPosition", getNodesPosition(), 5);
+    fa2.setTextureData(
+      "nodesMovement",
+      new Float32Array([0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0]),
+      5,
+    );
+    // Nodes 0 and 1 are linked, and node 3 is fixed:
+    fa2.setTextureData("nodesMetadata", new Float32Array([1, 0, 1, 0, 1, 1, 1, 0, 1, 2, 0, 0, 1, 2, 0, 1]), 5);
+    fa2.setTextureData("edges", new Float32Array([1, 1, 1, 0, 1, 1]), 2);
+    fa2.initialize();
+    return fa2;
+  }
+
+  test("should move free nodes only, and sum their convergence values", () => {
+    const fa2 = getForceAtlas2CPU();
+    fa2.runIteration({ iterationCount: 0, outboundAttCompensation: 1, updateConvergence: true });
+
+    const nodesPosition = fa2.getInput("nodesPosition");
+    expect(nodesPosition[0]).not.toBe(0);
+    expect(Array.from(nodesPosition.subarray(12, 20))).toEqual([10, 10, 3, 0, 0, 0, 0, 0]);
+    nodesPosition.forEach((value) => expect(Number.isFinite(value)).toBe(true));
+
+    const [swinging, traction, displacement, count] = fa2.getSums();
+    expect(count).toBe(3);
+    expect(swinging).toBeGreaterThan(0);
+    expect(traction).toBeGreaterThan(0);
+    expect(displacement).toBeGreaterThan(0);
+  });
+
+  test("should only update the global speed when it is adaptive", () => {
+    const fixedSpeed = getForceAtlas2CPU();
+    fixedSpeed.runIteration({ iterationCount: 0, outboundAttCompensation: 1, updateConvergence: true });
+    expect(fixedSpeed.getSpeed()).toEqual([1, 1]);
+
+    const adaptiveSpeed = getForceAtlas2CPU({ adaptiveSpeed: true });
+    adaptiveSpeed.runIteration({ iterationCount: 0, outboundAttCompensation: 1, updateConvergence: true });
+    expect(adaptiveSpeed.getSpeed()).toEqual(getNextSpeed([1, 1], adaptiveSpeed.getSums(), 1));
+  });
+
+  test.each<ForceAtlas2Settings["repulsion"]>([
+    { type: "quad-tree", depth: 3, theta: 1 },
+    { type: "barnes-hut", theta: 0.5 },
+    {
+      type: "k-means",
+      centroids: 2,
+      steps: 1,
+      resetCentroids: false,
+      nodeToNodeRepulsion: false,
+      centroidUpdateInterval: 1,
+    },
+    {
+      type: "k-means",
+      centroids: 2,
+      steps: 1,
+      resetCentroids: true,
+      nodeToNodeRepulsion: true,
+      centroidUpdateInterval: 1,
+    },
+  ])("$type - should run with approximate repulsions", (repulsion) => {
+    const fa2 = getForceAtlas2CPU({ repulsion });
+    for (let i = 0; i < 5; i++) {
+      fa2.runIteration({ iterationCount: i, outboundAttCompensation: 1, updateConvergence: true });
+    }
+
+    fa2.getInput("nodesPosition").forEach((value) => expect(Number.isFinite(value)).toBe(true));
+  });
+
+  test("should write texels, with channels masks", () => {
+    const fa2 = getForceAtlas2CPU();
+    fa2.writeTexels("nodesPosition", [{ index: 1, values: [5, 6, 7, 8] }], [true, false, true, false]);
+
+    expect(Array.from(fa2.getInput("nodesPosition").subarray(4, 8))).toEqual([5, 0, 7, 0]);
+  });
+
+  test.each<ForceAtlas2Settings["repulsion"]>([
+    { type: "quad-tree", depth: 3, theta: 1 },
+    { type: "barnes-hut", theta: 0.5 },
+  ])("$type - should release its repulsion structures when killed", (repulsion) => {
+    const fa2 = getForceAtlas2CPU({ repulsion });
+    fa2.kill();
+
+    expect(fa2.getQuadTree()).toBeUndefined();
+    expect(fa2.getBarnesHut()).toBeUndefined();
+    expect(fa2.getKMeans()).toBeUndefined();
+  });
+});
@@ -0,0 +1,677 @@
+import { BARNES_HUT_CODE_BITS, getBarnesHutCellSide } from "../barnesHutGPU";
+import { ForceAtlas2Settings, isKMeansGrouped } from "../forceAtlas2GPU/consts";
+import { getQuadTreeLevelSize } from "../quadTreeGPU";
+import { BarnesHutCPU } from "./barnesHut";
+import { KMeansCPU } from "./kMeans";
+import { QuadTreeCPU } from "./quadTree";
+
+export { BarnesHutCPU } from "./barnesHut";
+export { KMeansCPU } from "./kMeans";
+export { QuadTreeCPU } from "./quadTree";
+
+const ATTRIBUTES_PER_ITEM = {
+  nodesPosition: 4,
+  nodesMovement: 4,
+  nodesMetadata: 4,
+  edges: 3,
+} as const;
+
+// See getConvergenceSpeedFragmentShader:
+const MIN_SPEED_EFFICIENCY = 0.05;
+const MAX_JITTER_TOLERANCE = 10;
+const MAX_RISE = 0.5;
+const MAX_SPEED = 1000;
+const FLOAT_MAX = 3.402823466e38;
+
+export type ForceAtlas2CPUData = keyof typeof ATTRIBUTES_PER_ITEM;
+
+/**
+ * Returns the next (speed, speedEfficiency) global speed state, from the
+ * (swinging, traction, displacement, count) sums of an iteration, exactly
+ * like getConvergenceSpeedFragmentShader does:
+ */
+export function getNextSpeed(
+  [speed, speedEfficiency]: [number, number],
+  sums: ArrayLike<number>,
+  jitterTolerance: number,
+): [number, number] {
+  const totalSwinging = sums[0];
+  const totalTraction = sums[1];
+  const nodesCount = sums[3];
+
+  // No moving node, nothing to adapt to:
+  if (nodesCount <= 0) return [speed, speedEfficiency];
+
+  const estimatedOptimalJitterTolerance = 0.05 * Math.sqrt(nodesCount);
+  const minJitterTolerance = Math.sqrt(estimatedOptimalJitterTolerance);
+  let tolerance =
+    jitterTolerance *
+    Math.max(
+      minJitterTolerance,
+      Math.min(MAX_JITTER_TOLERANCE, (estimatedOptimalJitterTolerance * totalTraction) / (nodesCount * nodesCount)),
+    );
+
+  // Protection against erratic behavior:
+  if (totalSwinging > 2 * totalTraction) {
+    if (speedEfficiency > MIN_SPEED_EFFICIENCY) speedEfficiency *= 0.5;
+    tolerance = Math.max(tolerance, jitterTolerance);
+  }
+
+  const targetSpeed = totalSwinging > 0 ? (tolerance * speedEfficiency * totalTraction) / totalSwinging : FLOAT_MAX;
+
+  if (totalSwinging > tolerance * totalTraction) {
+    if (speedEfficiency > MIN_SPEED_EFFICIENCY) speedEfficiency *= 0.7;
+  } else if (speed < MAX_SPEED) {
+    speedEfficiency *= 1.3;
+  }
+
+  return [speed + Math.min(targetSpeed - speed, MAX_RISE * speed), speedEfficiency];
+}
+
+/**
+ * A CPU implementation of the ForceAtlas2GPU iterations, that mirrors the
+ * shaders term by term (see getForceAtlas2FragmentShader, and the repulsion
+ * and convergence programs), on the same data layouts:
+ * - It runs the layout where the required WebGL extensions are missing (see
+ *   the ForceAtlas2GPU "backend" option)
+ * - It is the reference the GPU results are checked against (see
+ *   ForceAtlas2GPU.compareWithCPU)
+ *
+ * Its API mimics the parts of WebCLProgram and ConvergenceGPU that
+ * ForceAtlas2GPU uses, so that both backends are driven the same way. All
+ * "asynchronous" reads are actually done right away.
+ */
+export class ForceAtlas2CPU {
+  private params: ForceAtlas2Settings;
+  private nodesCapacity: number;
+  private data: Record<ForceAtlas2CPUData, Float32Array>;
+
+  // Repulsion structures:
+  private quadTree?: QuadTreeCPU;
+  private barnesHut?: BarnesHutCPU;
+  private kMeans?: KMeansCPU;
+
+  // Convergence state, and pending reads:
+  private speed: [number, number] = [1, 1];
+  private sums = new Float32Array(4);
+  private pendingDataRead: Float32Array | null = null;
+  private pendingSumsRead: number[] | null = null;
+
+  constructor({
+    nodesCapacity,
+    edgesCapacity,
+    settings,
+  }: {
+    nodesCapacity: number;
+    edgesCapacity: number;
+    settings: ForceAtlas2Settings;
+  }) {
+    this.params = settings;
+    this.nodesCapacity = nodesCapacity;
+    this.data = {
+      nodesPosition: new Float32Array(ATTRIBUTES_PER_ITEM.nodesPosition * nodesCapacity),
+      nodesMovement: new Float32Array(ATTRIBUTES_PER_ITEM.nodesMovement * nodesCapacity),
+      nodesMetadata: new Float32Array(ATTRIBUTES_PER_ITEM.nodesMetadata * nodesCapacity),
+      edges: new Float32Array(ATTRIBUTES_PER_ITEM.edges * edgesCapacity),
+    };
+
+    const { repulsion } = settings;
+    if (repulsion.type === "quad-tree") {
+      this.quadTree = new QuadTreeCPU({
+        depth: repulsion.depth as number,
+        adjustSizes: settings.adjustSizes,
+        quadrupole: repulsion.quadrupole,
+      });
+    } else if (repulsion.type === "barnes-hut") {
+      this.barnesHut = new BarnesHutCPU({ adjustSizes: settings.adjustSizes });
+    } else if (repulsion.type === "k-means") {
+      this.kMeans = new KMeansCPU({ nodesCount: nodesCapacity, centroidsCount: repulsion.centroids });
+    }
+  }
+
+  /**
+   * Returns the repulsion of a node, from all the others:
+   */
+  private getRepulsion(nodeIndex: number, x: number, y: number, nodeMass: number, nodeSize: number): [number, number] {
+    const { params, data, nodesCapacity } = this;
+    const { repulsion, scalingRatio: repulsionCoefficient, adjustSizes, margin } = params;
+    const nodesPosition = data.nodesPosition;
+    const nodesMetadata = data.nodesMetadata;
+    let dx = 0;
+    let dy = 0;
+
+    // Node-to-node repulsion, for the all-pairs and the k-means-grouped ones
+    // (and for the Barnes-Hut leaves, and the finest quadtree cells with
+    // adjustSizes):
+    const repulseFromNode = (j: number, tieBreakingOffset?: number) => {
+      const otherNodeMass = nodesPosition[j * 4 + 2];
+      if (otherNodeMass <= 0) return;
+      const otherNodeSize = nodesMetadata[j * 4];
+      let diffX = x - nodesPosition[j * 4];
+      let diffY = y - nodesPosition[j * 4 + 1];
+      let factor = 0;
+
+      if (tieBreakingOffset && diffX === 0 && diffY === 0) {
+        // Coincident positions: same deterministic tiny offset as the shader
+        const angle = (nodeIndex + params.seed) * 2.399963229728653;
+        diffX = Math.cos(angle) * tieBreakingOffset;
+        diffY = Math.sin(angle) * tieBreakingOffset;
+      }
+
+      if (adjustSizes) {
+        // Anticollision Linear Repulsion
+        const d = Math.sqrt(diffX * diffX + diffY * diffY) - nodeSize - otherNodeSize - margin;
+        if (d > 0) {
+          factor = (repulsionCoefficient * nodeMass * otherNodeMass) / (d * d);
+        } else if (d < 0) {
+          factor = 100 * repulsionCoefficient * nodeMass * otherNodeMass;
+        }
+      } else {
+        // Linear Repulsion
+        const dSquare = diffX * diffX + diffY * diffY;
+        if (dSquare > 0) factor = (repulsionCoefficient * nodeMass * otherNodeMass) / dSquare;
+      }
+
+      dx += diffX * factor;
+      dy += diffY * factor;
+    };
+
+    // Node-to-centroid repulsion:
+    const repulseFromCentroid = (centroidsPosition: Float32Array, c: number) => {
+      const diffX = x - centroidsPosition[c * 4];
+      const diffY = y - centroidsPosition[c * 4 + 1];
+      const centroidMass = centroidsPosition[c * 4 + 2];
+
+      // Linear Repulsion
+      const dSquare = diffX * diffX + diffY * diffY;
+      if (dSquare > 0) {
+        const factor = (repulsionCoefficient * nodeMass * centroidMass) / dSquare;
+        dx += diffX * factor;
+        dy += diffY * factor;
+      }
+    };
+
+    if (repulsion.type === "k-means" && !isKMeansGrouped(params)) {
+      const centroidsPosition = this.kMeans!.getCentroidsPosition();
+      for (let c = 0; c < repulsion.centroids; c++) repulseFromCentroid(centroidsPosition, c);
+    } else if (repulsion.type === "k-means") {
+      const kMeans = this.kMeans!;
+      const centroidsPosition = kMeans.getCentroidsPosition();
+      const centroidsOffsets = kMeans.getCentroidsOffsets();
+      const centroidsRadius = kMeans.getCentroidsRadius();
+      const nodesInCentroids = kMeans.getNodesInCentroids();
+      const closestCentroid = kMeans.getClosestCentroid()[nodeIndex];
+
+      for (let c = 0; c < repulsion.centroids; c++) {
+        // The node's own cluster repels it node by node. With adjustSizes, so
+        // do the clusters whose nodes it might overlap (from their radius):
+        let isNodeToNode = c === closestCentroid;
+        if (adjustSizes) {
+          const distance = Math.hypot(x - centroidsPosition[c * 4], y - centroidsPosition[c * 4 + 1]);
+          isNodeToNode ||= distance < centroidsRadius[c] + nodeSize + margin;
+        }
+
+        // 1. Inter-cluster: node-to-centroid repulsion:
+        if (!isNodeToNode) {
+          repulseFromCentroid(centroidsPosition, c);
+          continue;
+        }
+
+        // 2. Intra-cluster: node-to-node repulsion:
+        const startIndex = centroidsOffsets[c * 2 + 1];
+        const endIndex = startIndex + centroidsOffsets[c * 2];
+        for (let j = startIndex; j < endIndex; j++) {
+          if (nodesInCentroids[j] !== nodeIndex) repulseFromNode(nodesInCentroids[j]);
+        }
+      }
+    } else if (repulsion.type === "quad-tree") {
+      // See the QUAD_TREE_ENABLED branch of the shader:
+      const quadTree = this.quadTree!;
+      const depth = quadTree.getDepth();
+      const ring = Math.max(1, Math.ceil(1 / (repulsion.theta ?? 1)));
+      const bbSide = quadTree.getBoundingBoxSide();
+      const [rx, ry] = quadTree.getRelativePosition(x, y);
+
+      for (let level = 0; level < depth; level++) {
+        const gridSize = getQuadTreeLevelSize(level);
+        const cells = quadTree.getLevelData(level);
+        const cellX = Math.floor(rx * gridSize);
+        const cellY = Math.floor(ry * gridSize);
+        const blockMinX = (Math.floor(cellX / 2) - ring) * 2;
+        const blockMinY = (Math.floor(cellY / 2) - ring) * 2;
+        const isFinestLevel = level === depth - 1;
+
+        for (let i = 0; i < 4 * ring + 2; i++) {
+          for (let j = 0; j < 4 * ring + 2; j++) {
+            const otherCellX = blockMinX + i;
+            const otherCellY = blockMinY + j;
+            if (otherCellX < 0 || otherCellY < 0 || otherCellX >= gridSize || otherCellY >= gridSize) continue;
+
+            const isNeighborCell = Math.abs(otherCellX - cellX) <= ring && Math.abs(otherCellY - cellY) <= ring;
+            if (isNeighborCell && !isFinestLevel) continue;
+
+            const k = (otherCellY * gridSize + otherCellX) * 4;
+
+            if (adjustSizes && isFinestLevel && isNeighborCell) {
+              const tieBreakingOffset = (bbSide / gridSize) * 0.01;
+              quadTree.getNodesInCell(k / 4).forEach((j) => {
+                if (j !== nodeIndex) repulseFromNode(j, tieBreakingOffset);
+              });
+              continue;
+            }
+
+            let cellMassSumX = cells[k];
+            let cellMassSumY = cells[k + 1];
+            let cellMass = cells[k + 2];
+
+            // Remove the node's own contribution from its own cell:
+            if (isFinestLevel && otherCellX === cellX && otherCellY === cellY) {
+              cellMassSumX -= x * nodeMass;
+              cellMassSumY -= y * nodeMass;
+              cellMass -= nodeMass;
+            }
+            if (cellMass <= 0) continue;
+
+            let diffX = x - cellMassSumX / cellMass;
+            let diffY = y - cellMassSumY / cellMass;
+            let dSquare = diffX * diffX + diffY * diffY;
+            if (dSquare <= 0) {
+              // Coincident positions: same deterministic tiny offset as the shader
+              const angle = (nodeIndex + params.seed) * 2.399963229728653;
+              diffX = ((Math.cos(angle) * bbSide) / gridSize) * 0.01;
+              diffY = ((Math.sin(angle) * bbSide) / gridSize) * 0.01;
+              dSquare = diffX * diffX + diffY * diffY;
+            }
+
+            let factor: number;
+            if (adjustSizes) {
+              // Anticollision Linear Repulsion, from the mean size of the cell nodes:
+              const cellSize = quadTree.getLevelSizes(level)[k / 4] / cells[k + 3];
+              const d = Math.sqrt(dSquare) - nodeSize - cellSize - margin;
+              factor =
+                d > 0
+                  ? (repulsionCoefficient * nodeMass * cellMass) / (d * d)
+                  : 100 * repulsionCoefficient * nodeMass * cellMass;
+            } else {
+              // Linear Repulsion
+              factor = (repulsionCoefficient * nodeMass * cellMass) / dSquare;
+            }
+            dx += diffX * factor;
+            dy += diffY * factor;
+
+            if (repulsion.quadrupole && !isNeighborCell) {
+              // Quadrupole correction, conj(q / z^3) (see the shader):
+              const moments = quadTree.getLevelMoments(level);
+              const [centerX, centerY] = quadTree.getCellCenter(otherCellX, otherCellY, gridSize);
+              const offsetX = cellMassSumX / cellMass - centerX;
+              const offsetY = cellMassSumY / cellMass - centerY;
+              const inertiaXX = moments[(k / 4) * 3] - cellMass * offsetX * offsetX;
+              const inertiaXY = moments[(k / 4) * 3 + 1] - cellMass * offsetX * offsetY;
+              const inertiaYY = moments[(k / 4) * 3 + 2] - cellMass * offsetY * offsetY;
+              const qX = inertiaXX - inertiaYY;
+              const qY = 2 * inertiaXY;
+
+              const distance = Math.sqrt(dSquare);
+              const uX = diffX / distance;
+              const uY = diffY / distance;
+              const u3X = uX * uX * uX - 3 * uX * uY * uY;
+              const u3Y = uY * uY * uY - 3 * uX * uX * uY;
+              const quadrupoleFactor = (repulsionCoefficient * nodeMass) / (dSquare * distance);
+              dx += (qX * u3X - qY * u3Y) * quadrupoleFactor;
+              dy += (-qX * u3Y - qY * u3X) * quadrupoleFactor;
+            }
+          }
+        }
+      }
+    } else if (repulsion.type === "barnes-hut") {
+      // See the BARNES_HUT_ENABLED branch of the shader:
+      const barnesHut = this.barnesHut!;
+      const bbSide = barnesHut.getBoundingBoxSide();
+      const treeNodes = barnesHut.getTreeNodes();
+      const treeCells = barnesHut.getTreeCells();
+      const treeCellsSizes = barnesHut.getTreeCellsSizes();
+      const nodesInLeaves = barnesHut.getNodesInLeaves();
+      const nodeCode = barnesHut.getNodesCode()[nodeIndex];
+      const theta = repulsion.theta ?? 0.5;
+
+      const stack = nodesCapacity > 1 ? [0] : [];
+      while (stack.length) {
+        const treeNodeIndex = stack.pop() as number;
+
+        // Leaves are single nodes:
+        if (treeNodeIndex < 0) {
+          const j = nodesInLeaves[-treeNodeIndex - 1];
+          if (j !== nodeIndex) repulseFromNode(j);
+          continue;
+        }
+
+        const k = treeNodeIndex * 4;
+        const cellMass = treeCells[k + 2];
+        if (cellMass <= 0) continue;
+
+        const prefixLength = treeNodes[k + 2];
+        const cellSide = getBarnesHutCellSide(bbSide, prefixLength);
+        const shift = BARNES_HUT_CODE_BITS - Math.min(prefixLength, BARNES_HUT_CODE_BITS);
+        const containsNode = nodeCode >>> shift === treeNodes[k + 3] >>> shift;
+
+        const diffX = x - treeCells[k] / cellMass;
+        const diffY = y - treeCells[k + 1] / cellMass;
+        const distance = Math.sqrt(diffX * diffX + diffY * diffY);
+        let isFar = !containsNode && cellSide < theta * distance;
+        if (adjustSizes) {
+          // (the nodes of a cell are at most a diagonal away from its center of mass)
+          isFar &&= distance - cellSide * Math.SQRT2 > nodeSize + treeCellsSizes[treeNodeIndex * 2 + 1] + margin;
+        }
+
+        if (!isFar) {
+          stack.push(treeNodes[k], treeNodes[k + 1]);
+          continue;
+        }
+
+        let factor: number;
+        if (adjustSizes) {
+          // Anticollision Linear Repulsion, from the mean size of the cell nodes:
+          const d = distance - nodeSize - treeCellsSizes[treeNodeIndex * 2] / treeCells[k + 3] - margin;
+          factor =
+            d > 0
+              ? (repulsionCoefficient * nodeMass * cellMass) / (d * d)
+              : 100 * repulsionCoefficient * nodeMass * cellMass;
+        } else {
+          // Linear Repulsion
+          factor = (repulsionCoefficient * nodeMass * cellMass) / (distance * distance);
+        }
+        dx += diffX * factor;
+        dy += diffY * factor;
+      }
+    } else {
+      for (let j = 0; j < nodesCapacity; j++) {
+        if (j !== nodeIndex) repulseFromNode(j);
+      }
+    }
+
+    return [dx, dy];
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+
+  /**
+   * Initializes the repulsion structures, like ForceAtlas2GPU does when it
+   * uploads the graph:
+   */
+  public initialize() {
+    const { repulsion } = this.params;
+    if (repulsion.type !== "k-means") return;
+
+    this.kMeans!.initialize(this.data.nodesPosition, 0, this.params.seed);
+    if (isKMeansGrouped(this.params))
+      this.kMeans!.compute(this.data.nodesPosition, {
+        steps: repulsion.steps,
+        nodesMetadata: this.params.adjustSizes ? this.data.nodesMetadata : undefined,
+      });
+  }
+
+  /**
+   * Reads and restores the initial k-means centroids (null without k-means).
+   * Restoring them computes the clusters again, from the current positions:
+   */
+  public getInitialCentroids(): Float32Array | null {
+    return this.kMeans ? this.kMeans.getInitialCentroidsPosition().slice() : null;
+  }
+  public setInitialCentroids(data: Float32Array) {
+    const { repulsion } = this.params;
+    if (repulsion.type !== "k-means") return;
+
+    this.kMeans!.setInitialCentroidsPosition(data);
+    this.kMeans!.compute(this.data.nodesPosition, {
+      steps: repulsion.steps,
+      nodesMetadata: this.params.adjustSizes ? this.data.nodesMetadata : undefined,
+    });
+  }
+
+  /**
+   * Runs one iteration. With updateConvergence, the global speed is updated
+   * if it is adaptive (the sums themselves are always computed, since they
+   * are cheap here):
+   */
+  public runIteration({
+    iterationCount,
+    outboundAttCompensation,
+    updateConvergence,
+  }: {
+    iterationCount: number;
+    outboundAttCompensation: number;
+    updateConvergence: boolean;
+  }) {
+    const { params, data, nodesCapacity } = this;
+    const { repulsion } = params;
+    const { nodesPosition, nodesMovement, nodesMetadata, edges } = data;
+
+    // Compute additional repulsion structures if needed:
+    if (repulsion.type === "quad-tree") {
+      this.quadTree!.compute(nodesPosition, nodesCapacity, nodesMetadata);
+    } else if (repulsion.type === "barnes-hut") {
+      this.barnesHut!.compute(nodesPosition, nodesCapacity, nodesMetadata);
+    } else if (repulsion.type === "k-means" && iterationCount % repulsion.centroidUpdateInterval === 0) {
+      this.kMeans!.compute(nodesPosition, {
+        steps: repulsion.steps,
+        reinitialize: repulsion.resetCentroids,
+        iterationCount,
+        seed: params.seed,
+        nodesMetadata: params.adjustSizes ? nodesMetadata : undefined,
+      });
+    }
+
+    const positionOutput = new Float32Array(nodesPosition);
+    const movementOutput = new Float32Array(nodesMovement);
+    const sums = [0, 0, 0, 0];
+    const globalSpeed = this.speed[0];
+
+    for (let nodeIndex = 0; nodeIndex < nodesCapacity; nodeIndex++) {
+      const x = nodesPosition[nodeIndex * 4];
+      const y = nodesPosition[nodeIndex * 4 + 1];
+      const nodeMass = nodesPosition[nodeIndex * 4 + 2];
+
+      // Free slots are kept as they are:
+      if (nodeMass <= 0) continue;
+
+      const oldDx = nodesMovement[nodeIndex * 4];
+      const oldDy = nodesMovement[nodeIndex * 4 + 1];
+      const nodeConvergence = nodesMovement[nodeIndex * 4 + 2];
+      const nodeSize = nodesMetadata[nodeIndex * 4];
+      const edgesOffset = nodesMetadata[nodeIndex * 4 + 1];
+      const neighborsCount = nodesMetadata[nodeIndex * 4 + 2];
+      const isFixed = nodesMetadata[nodeIndex * 4 + 3] > 0;
+
+      // REPULSION:
+      let [dx, dy] = this.getRepulsion(nodeIndex, x, y, nodeMass, nodeSize);
+
+      // GRAVITY:
+      const distanceToCenter = Math.sqrt(x * x + y * y);
+      let gravityFactor = 0;
+      if (distanceToCenter > 0) {
+        gravityFactor = params.strongGravityMode
+          ? nodeMass * params.gravity
+          : (nodeMass * params.gravity) / distanceToCenter;
+      }
+      dx -= x * gravityFactor;
+      dy -= y * gravityFactor;
+
+      // ATTRACTION:
+      const attractionCoefficient = params.outboundAttractionDistribution ? outboundAttCompensation : 1;
+      for (let j = 0; j < neighborsCount; j++) {
+        const otherNodeIndex = edges[(edgesOffset + j) * 3];
+        const weight = edges[(edgesOffset + j) * 3 + 1];
+        const multiplier = edges[(edgesOffset + j) * 3 + 2];
+
+        const diffX = x - nodesPosition[otherNodeIndex * 4];
+        const diffY = y - nodesPosition[otherNodeIndex * 4 + 1];
+
+        if (params.signedEdges && weight < 0) {
+          // Negative edges push their extremities apart instead, with a
+          // spring that saturates at their absolute weight:
+          let repulsionFactor =
+            (attractionCoefficient * Math.pow(-weight, params.edgeWeightInfluence) * multiplier) /
+            (1 + Math.sqrt(diffX * diffX + diffY * diffY));
+          if (params.outboundAttractionDistribution) repulsionFactor /= nodeMass;
+          dx += diffX * repulsionFactor;
+          dy += diffY * repulsionFactor;
+          continue;
+        }
+
+        const edgeWeightInfluence = Math.pow(weight, params.edgeWeightInfluence) * multiplier;
+        let d = Math.sqrt(diffX * diffX + diffY * diffY);
+        if (params.adjustSizes) d -= nodeSize + nodesMetadata[otherNodeIndex * 4] + params.margin;
+
+        let attractionFactor = 0;
+        if (params.linLogMode) {
+          // LinLog (Degree Distributed) Anti-collision Attraction
+          if (d > 0) attractionFactor = (-attractionCoefficient * edgeWeightInfluence * Math.log(1 + d)) / d;
+          if (params.outboundAttractionDistribution) attractionFactor /= nodeMass;
+        } else {
+          // NOTE: Distance is set to 1 to override next condition
+          if (!params.adjustSizes) d = 1;
+          // Linear (Degree Distributed) Anti-collision Attraction
+          attractionFactor = -attractionCoefficient * edgeWeightInfluence;
+          if (params.outboundAttractionDistribution) attractionFactor /= nodeMass;
+        }
+
+        if (d > 0) {
+          dx += diffX * attractionFactor;
+          dy += diffY * attractionFactor;
+        }
+      }
+
+      // APPLY FORCES:
+      const forceSquared = dx * dx + dy * dy;
+      const force = Math.sqrt(forceSquared);
+      if (force > params.maxForce) {
+        dx = (dx * params.maxForce) / force;
+        dy = (dy * params.maxForce) / force;
+      }
+
+      const swinging = nodeMass * Math.sqrt((oldDx - dx) ** 2 + (oldDy - dy) ** 2);
+      const swingingFactor = 1 / (1 + Math.sqrt(swinging));
+      const traction = Math.sqrt((oldDx + dx) ** 2 + (oldDy + dy) ** 2) / 2;
+
+      let nodeSpeed: number;
+      let newConvergence = nodeConvergence;
+      if (params.adaptiveSpeed) {
+        nodeSpeed = globalSpeed / (1 + Math.sqrt(globalSpeed * swinging));
+        if (params.adjustSizes) {
+          nodeSpeed *= 0.1;
+          const speedForce = Math.sqrt(dx * dx + dy * dy);
+          if (speedForce > 0) nodeSpeed = Math.min(nodeSpeed * speedForce, 10) / speedForce;
+        }
+      } else if (params.adjustSizes) {
+        // No convergence when adjustSizes is true
+        nodeSpeed = 0.1 * Math.log(1 + traction) * swingingFactor;
+      } else {
+        nodeSpeed = nodeConvergence * Math.log(1 + traction) * swingingFactor;
+        newConvergence = Math.min(1, Math.sqrt(nodeSpeed * forceSquared * swingingFactor));
+      }
+
+      dx = (dx * nodeSpeed) / params.slowDown;
+      dy = (dy * nodeSpeed) / params.slowDown;
+
+      // Fixed nodes still attract and repel the others, but never move:
+      if (isFixed) {
+        dx = 0;
+        dy = 0;
+      } else {
+        sums[0] += swinging;
+        sums[1] += nodeMass * traction;
+        sums[2] += Math.sqrt(dx * dx + dy * dy);
+        sums[3]++;
+      }
+
+      positionOutput[nodeIndex * 4] = x + dx;
+      positionOutput[nodeIndex * 4 + 1] = y + dy;
+      movementOutput[nodeIndex * 4] = dx;
+      movementOutput[nodeIndex * 4 + 1] = dy;
+      movementOutput[nodeIndex * 4 + 2] = newConvergence;
+    }
+
+    data.nodesPosition = positionOutput;
+    data.nodesMovement = movementOutput;
+    this.sums = new Float32Array(sums);
+    if (updateConvergence && params.adaptiveSpeed) {
+      this.speed = getNextSpeed(this.speed, this.sums, params.jitterTolerance);
+    }
+  }
+
+  // These methods mimic WebCLProgram:
+  public setTextureData(name: ForceAtlas2CPUData, data: Float32Array, items: number) {
+    this.data[name] = new Float32Array(ATTRIBUTES_PER_ITEM[name] * items);
+    this.data[name].set(data.subarray(0, this.data[name].length));
+  }
+  public writeTexels(
+    name: ForceAtlas2CPUData,
+    texels: { index: number; values: number[] }[],
+    channels: [boolean, boolean, boolean, boolean] = [true, true, true, true],
+  ) {
+    const attributesPerItem = ATTRIBUTES_PER_ITEM[name];
+    texels.forEach(({ index, values }) => {
+      for (let i = 0; i < attributesPerItem; i++) {
+        if (channels[i]) this.data[name][index * attributesPerItem + i] = values[i] ?? 0;
+      }
+    });
+  }
+  public getInput(name: ForceAtlas2CPUData): Float32Array {
+    return this.data[name].slice();
+  }
+  public startAsyncDataRead(name: ForceAtlas2CPUData): boolean {
+    this.pendingDataRead = this.getInput(name);
+    return true;
+  }
+  public pollAsyncDataRead(): Float32Array | null {
+    const result = this.pendingDataRead;
+    this.pendingDataRead = null;
+    return result;
+  }
+
+  // These methods mimic ConvergenceGPU:
+  public startAsyncRead(): boolean {
+    this.pendingSumsRead = this.getSums();
+    return true;
+  }
+  public pollAsyncRead(): number[] | null {
+    const result = this.pendingSumsRead;
+    this.pendingSumsRead = null;
+    return result;
+  }
+  public getSums(): number[] {
+    return Array.from(this.sums);
+  }
+  public setSpeed(speed: number, speedEfficiency: number) {
+    this.speed = [speed, speedEfficiency];
+  }
+  public getSpeed(): [number, number] {
+    return [...this.speed];
+  }
+
+  // Both:
+  public cancelAsyncRead() {
+    this.pendingDataRead = null;
+    this.pendingSumsRead = null;
+  }
+  public kill() {
+    this.cancelAsyncRead();
+    this.quadTree = undefined;
+    this.barnesHut = undefined;
+    this.kMeans = undefined;
+  }
+
+  // These methods are for testing:
+  public getQuadTree(): QuadTreeCPU | undefined {
+    return this.quadTree;
+  }
+  public getBarnesHut(): BarnesHutCPU | undefined {
+    return this.barnesHut;
+  }
+  public getKMeans(): KMeansCPU | undefined {
+    return this.kMeans;
+  }
+}
@@ -0,0 +1,191 @@
+// Same integer hash (lowbias32) as getCentroidInitialPositionFragmentShader:
+function hash(x: number): number {
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+/**
+ * CPU version of KMeansGPU and KMeansGroupedGPU, with the same data layouts:
+ * - centroidsPosition: (x, y, mass, nodes count) per centroid
+ * - closestCentroid: the closest centroid ID of each node (-1 for free slots)
+ * - nodesInCentroids: the nodes indices, grouped per closest centroid
+ * - centroidsOffsets: (nodes count, offset in nodesInCentroids) per centroid
+ * - centroidsRadius: the farthest extent of the nodes of each centroid
+ *   (sizes included), only computed when the nodes metadata are given
+ *
+ * Like on the GPU, the initial centroids are only sampled on initialize (or
+ * when reinitialize is set), and each compute starts from them.
+ */
+export class KMeansCPU {
+  private nodesCount: number;
+  private centroidsCount: number;
+
+  private initialCentroidsPosition: Float32Array;
+  private centroidsPosition: Float32Array;
+  private closestCentroid: Float32Array;
+  private nodesInCentroids: Float32Array;
+  private centroidsOffsets: Float32Array;
+  private centroidsRadius: Float32Array;
+
+  constructor({ nodesCount, centroidsCount }: { nodesCount: number; centroidsCount: number }) {
+    this.nodesCount = nodesCount;
+    this.centroidsCount = centroidsCount;
+
+    this.initialCentroidsPosition = new Float32Array(centroidsCount * 4);
+    this.centroidsPosition = new Float32Array(centroidsCount * 4);
+    this.closestCentroid = new Float32Array(nodesCount).fill(-1);
+    this.nodesInCentroids = new Float32Array(nodesCount);
+    this.centroidsOffsets = new Float32Array(centroidsCount * 2);
+    this.centroidsRadius = new Float32Array(centroidsCount);
+  }
+
+  /**
+   * Samples the initial centroids among the nodes, with the same
+   * deterministic hash as getCentroidInitialPositionFragmentShader (integer
+   * operations only, so both pick the same nodes):
+   */
+  public initialize(nodesPosition: Float32Array, iterationCount = 0, seed = 0) {
+    const { nodesCount, centroidsCount, initialCentroidsPosition } = this;
+    const stride = Math.max(Math.floor(nodesCount / centroidsCount), 1);
+
+    for (let c = 0; c < centroidsCount; c++) {
+      const random = (hash(hash(hash(seed) ^ iterationCount) ^ c) >>> 8) / 16777216;
+      let candidate = (c * stride + Math.floor(random * stride)) % nodesCount;
+
+      // Skip free slots (with a null mass), looking for the next actual node:
+      for (let i = 0; i < nodesCount && nodesPosition[candidate * 4 + 2] <= 0; i++) {
+        candidate = (candidate + 1) % nodesCount;
+      }
+
+      initialCentroidsPosition[c * 4] = nodesPosition[candidate * 4];
+      initialCentroidsPosition[c * 4 + 1] = nodesPosition[candidate * 4 + 1];
+      initialCentroidsPosition[c * 4 + 2] = 0;
+      initialCentroidsPosition[c * 4 + 3] = 0;
+    }
+  }
+
+  public compute(
+    nodesPosition: Float32Array,
+    {
+      steps,
+      reinitialize = false,
+      iterationCount,
+      seed,
+      nodesMetadata,
+    }: {
+      steps: number;
+      reinitialize?: boolean;
+      iterationCount?: number;
+      seed?: number;
+      nodesMetadata?: Float32Array;
+    },
+  ) {
+    const { nodesCount, centroidsCount, closestCentroid } = this;
+    if (reinitialize) this.initialize(nodesPosition, iterationCount, seed);
+
+    let referencePosition = this.initialCentroidsPosition;
+    for (let step = 0; step < steps; step++) {
+      // 1. Find the closest centroid of each node:
+      for (let i = 0; i < nodesCount; i++) {
+        if (nodesPosition[i * 4 + 2] <= 0) {
+          closestCentroid[i] = -1;
+          continue;
+        }
+
+        const x = nodesPosition[i * 4];
+        const y = nodesPosition[i * 4 + 1];
+        let closestID = 0;
+        let closestDistance = Math.hypot(x - referencePosition[0], y - referencePosition[1]);
+        for (let c = 1; c < centroidsCount; c++) {
+          const distance = Math.hypot(x - referencePosition[c * 4], y - referencePosition[c * 4 + 1]);
+          if (distance < closestDistance) {
+            closestDistance = distance;
+            closestID = c;
+          }
+        }
+        closestCentroid[i] = closestID;
+      }
+
+      // 2. Move each centroid to the barycenter of its nodes (centroids with
+      //    no node keep their previous position):
+      const centroidsPosition = new Float32Array(centroidsCount * 4);
+      for (let i = 0; i < nodesCount; i++) {
+        const c = closestCentroid[i];
+        if (c < 0) continue;
+        centroidsPosition[c * 4] += nodesPosition[i * 4];
+        centroidsPosition[c * 4 + 1] += nodesPosition[i * 4 + 1];
+        centroidsPosition[c * 4 + 2] += nodesPosition[i * 4 + 2];
+        centroidsPosition[c * 4 + 3]++;
+      }
+      for (let c = 0; c < centroidsCount; c++) {
+        const size = centroidsPosition[c * 4 + 3];
+        if (size > 0) {
+          centroidsPosition[c * 4] /= size;
+          centroidsPosition[c * 4 + 1] /= size;
+        } else {
+          centroidsPosition[c * 4] = referencePosition[c * 4];
+          centroidsPosition[c * 4 + 1] = referencePosition[c * 4 + 1];
+        }
+      }
+
+      referencePosition = centroidsPosition;
+    }
+    this.centroidsPosition = referencePosition;
+
+    // 3. Group the nodes per centroid (the order inside each group does not
+    //    matter, since the repulsion only sums over it):
+    let offset = 0;
+    for (let c = 0; c < centroidsCount; c++) {
+      this.centroidsOffsets[c * 2] = this.centroidsPosition[c * 4 + 3];
+      this.centroidsOffsets[c * 2 + 1] = offset;
+      offset += this.centroidsPosition[c * 4 + 3];
+    }
+    const cursors = Array.from({ length: centroidsCount }, (_, c) => this.centroidsOffsets[c * 2 + 1]);
+    for (let i = 0; i < nodesCount; i++) {
+      const c = closestCentroid[i];
+      if (c >= 0) this.nodesInCentroids[cursors[c]++] = i;
+    }
+
+    // 4. Measure the radius of each centroid:
+    if (nodesMetadata) {
+      const { centroidsPosition, centroidsRadius } = this;
+      centroidsRadius.fill(0);
+      for (let i = 0; i < nodesCount; i++) {
+        const c = closestCentroid[i];
+        if (c < 0) continue;
+        const distance = Math.hypot(
+          nodesPosition[i * 4] - centroidsPosition[c * 4],
+          nodesPosition[i * 4 + 1] - centroidsPosition[c * 4 + 1],
+        );
+        centroidsRadius[c] = Math.max(centroidsRadius[c], distance + nodesMetadata[i * 4]);
+      }
+    }
+  }
+
+  public getInitialCentroidsPosition(): Float32Array {
+    return this.initialCentroidsPosition;
+  }
+  public setInitialCentroidsPosition(data: Float32Array) {
+    this.initialCentroidsPosition = new Float32Array(this.centroidsCount * 4);
+    this.initialCentroidsPosition.set(data.subarray(0, this.initialCentroidsPosition.length));
+  }
+  public getCentroidsPosition(): Float32Array {
+    return this.centroidsPosition;
+  }
+  public getClosestCentroid(): Float32Array {
+    return this.closestCentroid;
+  }
+  public getNodesInCentroids(): Float32Array {
+    return this.nodesInCentroids;
+  }
+  public getCentroidsOffsets(): Float32Array {
+    return this.centroidsOffsets;
+  }
+  public getCentroidsRadius(): Float32Array {
+    return this.centroidsRadius;
+  }
+}
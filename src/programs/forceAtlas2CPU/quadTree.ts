@@ -0,0 +1,191 @@
+import { getQuadTreeLevelSize } from "../quadTreeGPU";
+
+const FLOAT_MAX = 3.402823466e38;
+
+/**
+ * CPU version of QuadTreeGPU (and of its BoundariesGPU): the same complete
+ * quadtree, stored as one uniform grid per level, over the square bounding
+ * box of the nodes. Each cell holds (sum(x * mass), sum(y * mass),
+ * sum(mass), count), like the texels of the GPU atlas.
+ *
+ * With adjustSizes, each cell also holds the sum of its nodes sizes, and the
+ * nodes of each finest cell are listed (contiguously, in cell order, like
+ * the nodes QuadTreeGPU sorts by finest cell).
+ *
+ * With quadrupole, each cell also holds the second moments of its nodes,
+ * around the cell center, like the GPU moments atlas.
+ */
+export class QuadTreeCPU {
+  private depth: number;
+  private adjustSizes: boolean;
+  private quadrupole: boolean;
+  private boundaries: [number, number, number, number] = [FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX];
+  private bbCenter: [number, number] = [0, 0];
+  private bbSide = 1e-6;
+  private levels: Float32Array[];
+  private levelsSizes: Float32Array[];
+  private levelsMoments: Float32Array[];
+  // The nodes of the finest cell c are nodesInCells[cellsOffsets[c]] to
+  // nodesInCells[cellsOffsets[c + 1] - 1]:
+  private nodesInCells = new Int32Array(0);
+  private cellsOffsets = new Int32Array(0);
+
+  constructor({
+    depth,
+    adjustSizes = false,
+    quadrupole = false,
+  }: {
+    depth: number;
+    adjustSizes?: boolean;
+    quadrupole?: boolean;
+  }) {
+    this.depth = depth;
+    this.adjustSizes = adjustSizes;
+    this.quadrupole = quadrupole;
+    this.levels = [];
+    this.levelsSizes = [];
+    this.levelsMoments = [];
+    for (let level = 0; level < depth; level++) {
+      const size = getQuadTreeLevelSize(level);
+      this.levels.push(new Float32Array(size * size * 4));
+      if (adjustSizes) this.levelsSizes.push(new Float32Array(size * size));
+      if (quadrupole) this.levelsMoments.push(new Float32Array(size * size * 3));
+    }
+    if (adjustSizes) this.cellsOffsets = new Int32Array(getQuadTreeLevelSize(depth - 1) ** 2 + 1);
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public compute(nodesPosition: Float32Array, nodesCount: number, nodesMetadata?: Float32Array) {
+    const { depth, levels, levelsSizes, levelsMoments, adjustSizes, quadrupole } = this;
+
+    // 1. Compute boundaries (free slots, with a null mass, are ignored):
+    const boundaries: [number, number, number, number] = [FLOAT_MAX, -FLOAT_MAX, FLOAT_MAX, -FLOAT_MAX];
+    for (let i = 0; i < nodesCount; i++) {
+      if (nodesPosition[i * 4 + 2] <= 0) continue;
+      const x = nodesPosition[i * 4];
+      const y = nodesPosition[i * 4 + 1];
+      boundaries[0] = Math.min(boundaries[0], x);
+      boundaries[1] = Math.max(boundaries[1], x);
+      boundaries[2] = Math.min(boundaries[2], y);
+      boundaries[3] = Math.max(boundaries[3], y);
+    }
+    this.boundaries = boundaries;
+
+    // Square bounding box (must match getRelativePosition):
+    this.bbCenter = [(boundaries[0] + boundaries[1]) / 2, (boundaries[2] + boundaries[3]) / 2];
+    this.bbSide = Math.max(boundaries[1] - boundaries[0], boundaries[3] - boundaries[2], 1e-6);
+
+    // 2. Splat all nodes into each level:
+    levels.forEach((level) => level.fill(0));
+    levelsSizes.forEach((level) => level.fill(0));
+    levelsMoments.forEach((level) => level.fill(0));
+    for (let i = 0; i < nodesCount; i++) {
+      const mass = nodesPosition[i * 4 + 2];
+      if (mass <= 0) continue;
+
+      const x = nodesPosition[i * 4];
+      const y = nodesPosition[i * 4 + 1];
+      const [rx, ry] = this.getRelativePosition(x, y);
+      for (let level = 0; level < depth; level++) {
+        const size = getQuadTreeLevelSize(level);
+        const cellX = Math.floor(rx * size);
+        const cellY = Math.floor(ry * size);
+        const k = (cellY * size + cellX) * 4;
+        const cells = levels[level];
+        cells[k] += x * mass;
+        cells[k + 1] += y * mass;
+        cells[k + 2] += mass;
+        cells[k + 3]++;
+        if (adjustSizes) levelsSizes[level][k / 4] += nodesMetadata ? nodesMetadata[i * 4] : 1;
+        if (quadrupole) {
+          const [centerX, centerY] = this.getCellCenter(cellX, cellY, size);
+          const offsetX = x - centerX;
+          const offsetY = y - centerY;
+          const moments = levelsMoments[level];
+          moments[(k / 4) * 3] += mass * offsetX * offsetX;
+          moments[(k / 4) * 3 + 1] += mass * offsetX * offsetY;
+          moments[(k / 4) * 3 + 2] += mass * offsetY * offsetY;
+        }
+      }
+    }
+
+    // 3. List the nodes of each finest cell (counting sort):
+    if (adjustSizes) {
+      const { cellsOffsets } = this;
+      const finestCells = levels[depth - 1];
+      const cellsCount = cellsOffsets.length - 1;
+      cellsOffsets[0] = 0;
+      for (let c = 0; c < cellsCount; c++) cellsOffsets[c + 1] = cellsOffsets[c] + finestCells[c * 4 + 3];
+
+      const nodesInCells = new Int32Array(cellsOffsets[cellsCount]);
+      const cellsFill = cellsOffsets.slice(0, cellsCount);
+      for (let i = 0; i < nodesCount; i++) {
+        if (nodesPosition[i * 4 + 2] <= 0) continue;
+        nodesInCells[cellsFill[this.getFinestCellIndex(nodesPosition[i * 4], nodesPosition[i * 4 + 1])]++] = i;
+      }
+      this.nodesInCells = nodesInCells;
+    }
+  }
+
+  /**
+   * Returns the index (cellY * gridSize + cellX) of the finest cell holding a
+   * point:
+   */
+  public getFinestCellIndex(x: number, y: number): number {
+    const size = getQuadTreeLevelSize(this.depth - 1);
+    const [rx, ry] = this.getRelativePosition(x, y);
+    return Math.floor(ry * size) * size + Math.floor(rx * size);
+  }
+
+  /**
+   * Returns the position of a point in the square bounding box, in [0, 1[:
+   */
+  public getRelativePosition(x: number, y: number): [number, number] {
+    const { bbCenter, bbSide } = this;
+    return [
+      Math.min(Math.max((x - bbCenter[0]) / bbSide + 0.5, 0), 0.999999),
+      Math.min(Math.max((y - bbCenter[1]) / bbSide + 0.5, 0), 0.999999),
+    ];
+  }
+
+  /**
+   * Returns the center of a cell of a grid, in the graph coordinates (like
+   * the splat vertex shader):
+   */
+  public getCellCenter(cellX: number, cellY: number, gridSize: number): [number, number] {
+    const { bbCenter, bbSide } = this;
+    return [
+      bbCenter[0] + ((cellX + 0.5) / gridSize - 0.5) * bbSide,
+      bbCenter[1] + ((cellY + 0.5) / gridSize - 0.5) * bbSide,
+    ];
+  }
+
+  public getBoundingBoxSide(): number {
+    return this.bbSide;
+  }
+  public getDepth(): number {
+    return this.depth;
+  }
+  // As (xMin, xMax, yMin, yMax), like BoundariesGPU:
+  public getBoundaries(): number[] {
+    return this.boundaries.slice();
+  }
+  public getLevelData(level: number): Float32Array {
+    return this.levels[level];
+  }
+  // With adjustSizes:
+  public getLevelSizes(level: number): Float32Array {
+    return this.levelsSizes[level];
+  }
+  // With quadrupole, as (sum(m * dx^2), sum(m * dx * dy), sum(m * dy^2)) per
+  // cell, like QuadTreeGPU.getLevelMoments:
+  public getLevelMoments(level: number): Float32Array {
+    return this.levelsMoments[level];
+  }
+  public getNodesInCell(cellIndex: number): Int32Array {
+    return this.nodesInCells.subarray(this.cellsOffsets[cellIndex], this.cellsOffsets[cellIndex + 1]);
+  }
+}
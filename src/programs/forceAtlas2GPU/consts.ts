@@ -1,37 +1,125 @@
 export type ForceAtlas2Settings = {
   linLogMode: boolean;
+  // Keeps the nodes from overlapping (from their sizes, see getNodeSize), with
+  // every repulsion type: the quadtree cells carry the sizes of their nodes,
+  // and the nodes closest to each other (in the same finest cells, or in the
+  // same k-means clusters) repel each other exactly:
   adjustSizes: boolean;
+  // Padding between the nodes, with adjustSizes:
+  margin: number;
   strongGravityMode: boolean;
   outboundAttractionDistribution: boolean;
   repulsion:
     | { type: "all-pairs" }
-    | { type: "quad-tree"; depth?: number; theta?: number }
+    // With quadrupole, the far cells get a second order correction, from the
+    // spread of their nodes:
+    | { type: "quad-tree"; depth?: number; theta?: number; quadrupole?: boolean }
+    // An adaptive quadtree (see BarnesHutGPU), walked with the classic
+    // size/distance < theta test:
+    | { type: "barnes-hut"; theta?: number }
     | { type: "k-means"; steps: number; centroids: number; resetCentroids: boolean; nodeToNodeRepulsion: boolean; centroidUpdateInterval: number };
   edgeWeightInfluence: number;
+  // Tells the directions of the directed edges apart (undirected edges still
+  // attract both their extremities alike), or null to ignore them:
+  // - Each node is attracted along its out-edges with the "outbound"
+  //   multiplier, and along its in-edges with the "inbound" one (1 by
+  //   default, 0 to ignore these edges)
+  // - Reciprocal edges (a->b and b->a) count "twice" (by default, once per
+  //   edge on each node), or "once" (each node only keeps its out-edge)
+  // - With outDegreeDistribution, outboundAttractionDistribution divides the
+  //   attraction of each node by 1 + its weighted out-degree, instead of by
+  //   its mass
+  directedAttraction: {
+    inbound?: number;
+    outbound?: number;
+    reciprocal?: "once" | "twice";
+    outDegreeDistribution?: boolean;
+  } | null;
+  // Self-loops can't attract their node: they either only count in its
+  // degree (and so in its default mass), or are ignored:
+  selfLoops: "ignore" | "mass-only";
+  // How the weights of parallel edges (in multi graphs) are aggregated into a
+  // single edge: summed, their maximum, their mean, or the first one only:
+  parallelEdges: "sum" | "max" | "mean" | "first";
+  // Allows negative edges weights (for signed networks): negative edges push
+  // their extremities apart, with a spring bounded by their absolute weight,
+  // and the masses are computed from the absolute weights. Zero-weight edges
+  // are kept (they count in the degrees), but never move anything:
+  signedEdges: boolean;
   scalingRatio: number;
   gravity: number;
   slowDown: number;
   maxForce: number;
+  // Use a global speed, adapted after each iteration from the total swinging
+  // and traction of the nodes (like Gephi's ForceAtlas2), instead of only the
+  // per-node convergence. Higher jitterTolerance means faster but less
+  // precise layouts:
+  adaptiveSpeed: boolean;
+  jitterTolerance: number;
+  // Stop the layout once the mean displacement of the moving nodes per
+  // iteration (in graph coordinates) drops below convergenceThreshold. A
+  // "converged" event is emitted either way:
+  stopWhenConverged: boolean;
+  convergenceThreshold: number;
   // Iterations issued per animation frame (GPU work only, never blocks):
   iterationsPerFrame: number;
   // Minimum delay (in ms) between two syncs of the positions back to the
   // graphology instance:
   syncInterval: number;
+  // Seeds the pseudo-random choices of the layout (the k-means centroids
+  // sampling, and the directions coincident nodes are pushed away in), as an
+  // integer from 0 to 65535:
+  seed: number;
+  // Makes the layout reproducible: the same graph, settings and seed always
+  // give the same positions on the same GPU. The pseudo-random choices then
+  // only depend on the seed and on the iterations since the layout was reset
+  // (and not on the instance history), nodes added while the layout runs are
+  // placed from the seed as well, and the nodes slots follow their keys, so
+  // that the GPU sums do not depend on the order the graph was built in.
+  // Still:
+  // - Other GPUs or drivers (and the CPU backend) give other positions
+  // - Graph changes made while the layout runs are applied between frames,
+  //   so the positions depend on when they were made, and each of them reads
+  //   all the nodes back from the GPU to reorder them
+  // - The weighted degrees (hence the masses) and parallel edges weights are
+  //   summed in the edges order, which can change their last bits with
+  //   non-integer weights
+  deterministic: boolean;
   debug: boolean;
 };
 
 export const DEFAULT_FORCE_ATLAS_2_SETTINGS: ForceAtlas2Settings = {
   linLogMode: false,
   adjustSizes: false,
+  margin: 0,
   strongGravityMode: false,
   outboundAttractionDistribution: false,
   repulsion: { type: "all-pairs" },
   edgeWeightInfluence: 1,
+  directedAttraction: null,
+  selfLoops: "mass-only",
+  parallelEdges: "sum",
+  signedEdges: false,
   scalingRatio: 1,
   gravity: 1,
   slowDown: 1,
   maxForce: 10,
+  adaptiveSpeed: false,
+  jitterTolerance: 1,
+  stopWhenConverged: false,
+  convergenceThreshold: 0.01,
   iterationsPerFrame: 10,
   syncInterval: 200,
+  seed: 0,
+  deterministic: false,
   debug: false,
 };
+
+/**
+ * Tells whether the k-means repulsion keeps the list of the nodes of each
+ * cluster, for the node-to-node repulsion within the clusters (that the
+ * anti-collision needs as well):
+ */
+export function isKMeansGrouped({ repulsion, adjustSizes }: ForceAtlas2Settings): boolean {
+  return repulsion.type === "k-means" && (repulsion.nodeToNodeRepulsion || adjustSizes);
+}
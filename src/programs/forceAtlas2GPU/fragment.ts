@@ -1,6 +1,5 @@
-import Graph from "graphology";
-
-import { getDefaultQuadTreeDepth } from "../quadTreeGPU";
+import { BARNES_HUT_CODE_BITS, BARNES_HUT_DEPTH, getBarnesHutTreeHeight } from "../barnesHutGPU";
+import { getDefaultQuadTreeDepth, getQuadTreeTileSize } from "../quadTreeGPU";
 import {
   GLSL_getIndex,
   GLSL_getValueInTexture,
@@ -8,45 +7,73 @@ import {
   getTextureSize,
   numberToGLSLFloat,
 } from "../../utils/webgl";
-import { ForceAtlas2Settings } from "./consts";
+import { ForceAtlas2Settings, isKMeansGrouped } from "./consts";
 
+/**
+ * Nodes and edges textures are over-allocated (see ForceAtlas2GPU), so the
+ * shader only depends on their capacities, and not on the actual graph
+ * order and size. Free node slots are recognized by their null mass.
+ */
 export function getForceAtlas2FragmentShader({
-  graph,
-  linLogMode,
-  adjustSizes,
-  strongGravityMode,
-  outboundAttractionDistribution,
-  repulsion,
+  nodesCapacity,
+  edgesCapacity,
+  quadTreeTileSize,
+  ...settings
 }: {
-  graph: Graph;
+  nodesCapacity: number;
+  edgesCapacity: number;
+  // Side of the quadtree atlases layers (see getQuadTreeLevelLayout), which
+  // depends on the device (defaults to a single tile per level):
+  quadTreeTileSize?: number;
 } & ForceAtlas2Settings) {
+  const { linLogMode, adjustSizes, strongGravityMode, outboundAttractionDistribution, adaptiveSpeed, repulsion, signedEdges } =
+    settings;
+  const kMeansGrouped = isKMeansGrouped(settings);
   const kMeansCentroids = repulsion.type === "k-means" ? repulsion.centroids : 1;
-  const quadTreeDepth = repulsion.type === "quad-tree" ? (repulsion.depth ?? getDefaultQuadTreeDepth(graph.order)) : 1;
+  const quadTreeDepth = repulsion.type === "quad-tree" ? (repulsion.depth ?? getDefaultQuadTreeDepth(nodesCapacity)) : 1;
+  const quadTreeTile = quadTreeTileSize ?? getQuadTreeTileSize(quadTreeDepth, Infinity);
   // Cells more than quadTreeRing cells away (Chebyshev distance) are
   // considered "well separated", like Barnes-Hut cells passing the
   // size/distance < theta test (on a uniform grid, this is a distance in
   // cells: ceil(1/theta)):
   const quadTreeRing = repulsion.type === "quad-tree" ? Math.max(1, Math.ceil(1 / (repulsion.theta ?? 1))) : 1;
+  // Steps of the binary search of the nodes of a finest cell, in the nodes
+  // sorted by cell (with adjustSizes):
+  const quadTreeSearchSteps = Math.ceil(Math.log2(nodesCapacity + 1)) + 1;
+  const barnesHutTheta = repulsion.type === "barnes-hut" ? (repulsion.theta ?? 0.5) : 0.5;
+  // The tree walk stack only holds the pending siblings of the cells on the
+  // current path, so at most one per level:
+  const barnesHutStackSize = getBarnesHutTreeHeight(nodesCapacity) + 2;
 
   // language=GLSL
   const SHADER = /*glsl*/ `#version 300 es
 precision highp float;
 
-#define NODES_COUNT ${numberToGLSLFloat(graph.order)}
-#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(graph.order))}
-#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(graph.order))}
-#define EDGES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(graph.size * 2))}
+#define NODES_CAPACITY ${numberToGLSLFloat(nodesCapacity)}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCapacity))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCapacity))}
+#define EDGES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(edgesCapacity))}
 #define K_MEANS_CENTROIDS_COUNT ${numberToGLSLFloat(kMeansCentroids)}
 #define K_MEANS_CENTROIDS_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(kMeansCentroids))}
 #define QUAD_TREE_DEPTH ${Math.floor(quadTreeDepth)}
 #define QUAD_TREE_RING ${Math.floor(quadTreeRing)}
+#define QUAD_TREE_TILE_SIZE ${Math.floor(quadTreeTile)}
+#define QUAD_TREE_SEARCH_STEPS ${quadTreeSearchSteps}
+#define BARNES_HUT_THETA ${numberToGLSLFloat(barnesHutTheta)}
+#define BARNES_HUT_DEPTH ${BARNES_HUT_DEPTH}
+#define BARNES_HUT_CODE_BITS ${BARNES_HUT_CODE_BITS}
+#define BARNES_HUT_STACK_SIZE ${barnesHutStackSize}
 ${linLogMode ? "#define LINLOG_MODE" : ""}
 ${adjustSizes ? "#define ADJUST_SIZES" : ""}
 ${strongGravityMode ? "#define STRONG_GRAVITY_MODE" : ""}
 ${outboundAttractionDistribution ? "#define OUTBOUND_ATTRACTION_DISTRIBUTION" : ""}
+${adaptiveSpeed ? "#define ADAPTIVE_SPEED" : ""}
+${signedEdges ? "#define SIGNED_EDGES" : ""}
 ${repulsion.type === "quad-tree" ? "#define QUAD_TREE_ENABLED" : ""}
-${repulsion.type === "k-means" && !repulsion.nodeToNodeRepulsion ? "#define K_MEANS_ENABLED" : ""}
-${repulsion.type === "k-means" && repulsion.nodeToNodeRepulsion ? "#define K_MEANS_GROUPED_ENABLED" : ""}
+${repulsion.type === "quad-tree" && repulsion.quadrupole ? "#define QUAD_TREE_QUADRUPOLE" : ""}
+${repulsion.type === "barnes-hut" ? "#define BARNES_HUT_ENABLED" : ""}
+${repulsion.type === "k-means" && !kMeansGrouped ? "#define K_MEANS_ENABLED" : ""}
+${kMeansGrouped ? "#define K_MEANS_GROUPED_ENABLED" : ""}
 
 // Graph data
 uniform sampler2D u_nodesPositionTexture;
@@ -56,7 +83,21 @@ uniform sampler2D u_edgesTexture;
 
 // Quad-tree
 uniform sampler2D u_boundariesTexture;
-uniform sampler2D u_quadTreeTexture;
+uniform highp sampler2DArray u_quadTreeTexture;
+// Quad-tree, with adjustSizes
+uniform highp sampler2DArray u_quadTreeSizesTexture;
+uniform sampler2D u_nodesInCellsTexture;
+uniform sampler2D u_nodesCellTexture;
+// Quad-tree, with quadrupole
+uniform highp sampler2DArray u_quadTreeMomentsTexture;
+
+// Barnes-Hut (with the boundaries above)
+uniform sampler2D u_treeNodesTexture;
+uniform sampler2D u_treeCellsTexture;
+uniform sampler2D u_nodesInLeavesTexture;
+uniform sampler2D u_nodesCodeTexture;
+// Barnes-Hut, with adjustSizes
+uniform sampler2D u_treeCellsSizesTexture;
 
 // K-means
 uniform sampler2D u_centroidsPositionTexture;
@@ -65,6 +106,11 @@ uniform sampler2D u_centroidsPositionTexture;
 uniform sampler2D u_centroidsOffsetsTexture;
 uniform sampler2D u_nodesInCentroidsTexture;
 uniform sampler2D u_closestCentroidTexture;
+// K-means-grouped, with adjustSizes
+uniform sampler2D u_centroidsRadiusTexture;
+
+// Global speed (see ConvergenceGPU)
+uniform sampler2D u_globalSpeedTexture;
 
 in vec2 v_textureCoord;
 
@@ -74,6 +120,8 @@ uniform float u_scalingRatio;
 uniform float u_gravity;
 uniform float u_maxForce;
 uniform float u_slowDown;
+uniform float u_seed;
+uniform float u_margin;
 
 #if defined(OUTBOUND_ATTRACTION_DISTRIBUTION)
   uniform float u_outboundAttCompensation;
@@ -82,14 +130,48 @@ uniform float u_slowDown;
 // Output
 layout(location = 0) out vec4 positionOutput;
 layout(location = 1) out vec4 movementOutput;
+// (swinging, traction, displacement, 1) for each moving node, summed by
+// ConvergenceGPU:
+layout(location = 2) out vec4 convergenceOutput;
 
 // Additional helpers:
 ${GLSL_getValueInTexture}
 ${GLSL_getIndex}
 
+#if defined(QUAD_TREE_ENABLED)
+  // Returns the texel of a cell of a level in the quadtree atlases (must
+  // match getQuadTreeLevelLayout):
+  ivec3 getQuadTreeTexel(int level, ivec2 cell) {
+    int gridSize = 1 << (level + 1);
+    if (gridSize <= QUAD_TREE_TILE_SIZE / 2) return ivec3(cell.x, gridSize - 2 + cell.y, 0);
+
+    int tilesPerSide = gridSize / QUAD_TREE_TILE_SIZE;
+    ivec2 tile = cell / QUAD_TREE_TILE_SIZE;
+    int firstLayer = 1 + (tilesPerSide * tilesPerSide - 1) / 3;
+    return ivec3(cell - tile * QUAD_TREE_TILE_SIZE, firstLayer + tile.y * tilesPerSide + tile.x);
+  }
+#endif
+
+#if defined(QUAD_TREE_ENABLED) && defined(ADJUST_SIZES)
+  // Returns the index of the first node (in the nodes sorted by finest cell)
+  // whose cell ID is not lower than the given one, by binary search:
+  float getFirstNodeInCell(float cellID) {
+    float low = 0.0;
+    float high = NODES_CAPACITY;
+    for (int step = 0; step < QUAD_TREE_SEARCH_STEPS && low < high; step++) {
+      float middle = floor((low + high) / 2.0);
+      float middleNodeIndex = getValueInTexture(u_nodesInCellsTexture, middle, SORTED_TEXTURE_SIZE).x;
+      float middleCellID = getValueInTexture(u_nodesCellTexture, middleNodeIndex, SORTED_TEXTURE_SIZE).x;
+      if (middleCellID < cellID) low = middle + 1.0;
+      else high = middle;
+    }
+    return low;
+  }
+#endif
+
 void main() {
   float nodeIndex = getIndex(v_textureCoord, NODES_TEXTURE_SIZE);
-  if (nodeIndex >= NODES_COUNT) return;
+  if (nodeIndex >= NODES_CAPACITY) return;
 
   vec4 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE);
   float x = nodePosition.x;
@@ -97,6 +179,15 @@ void main() {
   float nodeMass = nodePosition.z;
 
   vec4 nodeMovement = getValueInTexture(u_nodesMovementTexture, nodeIndex, NODES_TEXTURE_SIZE);
+
+  // Free slots are kept as they are (they have no mass, so they never exert
+  // any force on actual nodes either):
+  if (nodeMass <= 0.0) {
+    positionOutput = nodePosition;
+    movementOutput = nodeMovement;
+    convergenceOutput = vec4(0.0);
+    return;
+  }
   float oldDx = nodeMovement.x;
   float oldDy = nodeMovement.y;
   float nodeConvergence = nodeMovement.z;
@@ -107,6 +198,7 @@ void main() {
   float nodeSize = nodeMetadata.r;
   float edgesOffset = nodeMetadata.g;
   float neighborsCount = nodeMetadata.b;
+  bool isFixed = nodeMetadata.a > 0.0;
 
   // REPULSION:
   float repulsionCoefficient = u_scalingRatio;
@@ -135,63 +227,72 @@ void main() {
     // Hybrid k-means repulsion with intra-cluster node-to-node:
     float nodeClosestCentroidID = getValueInTexture(u_closestCentroidTexture, nodeIndex, NODES_TEXTURE_SIZE).x;
 
-    // 1. Inter-cluster: Node-to-centroid repulsion for OTHER centroids
     for (float centroidID = 0.0; centroidID < K_MEANS_CENTROIDS_COUNT; centroidID++) {
-      if (centroidID == nodeClosestCentroidID) continue;
-
       vec4 centroidData = getValueInTexture(u_centroidsPositionTexture, centroidID, K_MEANS_CENTROIDS_TEXTURE_SIZE);
       vec2 centroidPosition = centroidData.xy;
       float centroidMass = centroidData.z;
+      vec2 centroidDiff = nodePosition.xy - centroidPosition.xy;
 
-      vec2 diff = nodePosition.xy - centroidPosition.xy;
-      float factor = 0.0;
-
-      // Linear Repulsion
-      float dSquare = dot(diff, diff);
-      if (dSquare > 0.0) {
-        factor = repulsionCoefficient * nodeMass * centroidMass / dSquare;
-      }
-
-      dx += diff.x * factor;
-      dy += diff.y * factor;
-    }
-
-    // 2. Intra-cluster: Node-to-node repulsion within same centroid
-    vec2 centroidOffset = getValueInTexture(u_centroidsOffsetsTexture, nodeClosestCentroidID, K_MEANS_CENTROIDS_TEXTURE_SIZE).xy;
-    float startIndex = centroidOffset.y;
-    float endIndex = startIndex + centroidOffset.x;
-
-    for (float j = startIndex; j < endIndex; j++) {
-      float otherNodeIndex = getValueInTexture(u_nodesInCentroidsTexture, j, SORTED_TEXTURE_SIZE).x;
-      if (otherNodeIndex == nodeIndex) continue;
-
-      vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
-      vec4 otherNodeMetadata = getValueInTexture(u_nodesMetadataTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
-      float otherNodeMass = otherNodePosition.z;
-      float otherNodeSize = otherNodeMetadata.r;
-
-      vec2 diff = nodePosition.xy - otherNodePosition.xy;
-      float factor = 0.0;
-
+      // The node's own cluster repels it node by node. With adjustSizes, so
+      // do the clusters whose nodes it might overlap (from their radius):
+      bool isNodeToNode = centroidID == nodeClosestCentroidID;
       #if defined(ADJUST_SIZES)
-        // Anticollision Linear Repulsion
-        float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize;
-        if (d > 0.0) {
-          factor = repulsionCoefficient * nodeMass * otherNodeMass / (d * d);
-        } else if (d < 0.0) {
-          factor = 100.0 * repulsionCoefficient * nodeMass * otherNodeMass;
-        }
+        float centroidRadius = getValueInTexture(u_centroidsRadiusTexture, centroidID, K_MEANS_CENTROIDS_TEXTURE_SIZE).x;
+        isNodeToNode = isNodeToNode || length(centroidDiff) < centroidRadius + nodeSize + u_margin;
+      #endif
+
+      // 1. Inter-cluster: Node-to-centroid repulsion
+      if (!isNodeToNode) {
+        float factor = 0.0;
 
-      #else
         // Linear Repulsion
-        float dSquare = dot(diff, diff);
+        float dSquare = dot(centroidDiff, centroidDiff);
         if (dSquare > 0.0) {
-          factor = repulsionCoefficient * nodeMass * otherNodeMass / dSquare;
+          factor = repulsionCoefficient * nodeMass * centroidMass / dSquare;
         }
-      #endif
 
-      dx += diff.x * factor;
-      dy += diff.y * factor;
+        dx += centroidDiff.x * factor;
+        dy += centroidDiff.y * factor;
+        continue;
+      }
+
+      // 2. Intra-cluster: Node-to-node repulsion
+      vec2 centroidOffset = getValueInTexture(u_centroidsOffsetsTexture, centroidID, K_MEANS_CENTROIDS_TEXTURE_SIZE).xy;
+      float startIndex = centroidOffset.y;
+      float endIndex = startIndex + centroidOffset.x;
+
+      for (float j = startIndex; j < endIndex; j++) {
+        float otherNodeIndex = getValueInTexture(u_nodesInCentroidsTexture, j, SORTED_TEXTURE_SIZE).x;
+        if (otherNodeIndex == nodeIndex) continue;
+
+        vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
+        vec4 otherNodeMetadata = getValueInTexture(u_nodesMetadataTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
+        float otherNodeMass = otherNodePosition.z;
+        float otherNodeSize = otherNodeMetadata.r;
+
+        vec2 diff = nodePosition.xy - otherNodePosition.xy;
+        float factor = 0.0;
+
+        #if defined(ADJUST_SIZES)
+          // Anticollision Linear Repulsion
+          float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize - u_margin;
+          if (d > 0.0) {
+            factor = repulsionCoefficient * nodeMass * otherNodeMass / (d * d);
+          } else if (d < 0.0) {
+            factor = 100.0 * repulsionCoefficient * nodeMass * otherNodeMass;
+          }
+
+        #else
+          // Linear Repulsion
+          float dSquare = dot(diff, diff);
+          if (dSquare > 0.0) {
+            factor = repulsionCoefficient * nodeMass * otherNodeMass / dSquare;
+          }
+        #endif
+
+        dx += diff.x * factor;
+        dy += diff.y * factor;
+      }
     }
 
   #elif defined(QUAD_TREE_ENABLED)
@@ -204,6 +305,15 @@ void main() {
     // level (inside its parent's neighborhood, refined) are used as single
     // bodies. At the finest level, the remaining neighborhood is used as
     // well, with the node's own contribution removed from its own cell.
+    // With adjustSizes, the cells repel the node from the mean size of their
+    // nodes, and the nodes of the finest neighborhood repel it one by one
+    // (they are read from the nodes sorted by finest cell), with the exact
+    // anti-collision.
+    // With quadrupole, the well separated cells also get a quadrupole
+    // correction, from the second moments of their nodes: with the 2D
+    // repulsion seen as the complex field conj(sum(m / (z - z_j))), around
+    // the center of mass of a cell, the dipole term vanishes, and the next
+    // one is conj(q / z^3), with q = (Ixx - Iyy) + 2i Ixy.
     // Square bounding box (must match the splat vertex shader):
     vec4 boundaries = getValueInTexture(u_boundariesTexture, 0.0, 1.0);
     vec2 bbCenter = vec2((boundaries.x + boundaries.y) / 2.0, (boundaries.z + boundaries.w) / 2.0);
@@ -212,7 +322,6 @@ void main() {
 
     for (int level = 0; level < QUAD_TREE_DEPTH; level++) {
       int gridSize = 1 << (level + 1);
-      int rowOffset = gridSize - 2;
       ivec2 cell = ivec2(floor(relativePosition * float(gridSize)));
       ivec2 blockMin = (cell / 2 - QUAD_TREE_RING) * 2;
       bool isFinestLevel = level == QUAD_TREE_DEPTH - 1;
@@ -227,10 +336,45 @@ void main() {
           bool isNeighborCell = abs(otherCell.x - cell.x) <= QUAD_TREE_RING && abs(otherCell.y - cell.y) <= QUAD_TREE_RING;
           if (isNeighborCell && !isFinestLevel) continue;
 
-          vec4 cellData = texelFetch(u_quadTreeTexture, ivec2(otherCell.x, rowOffset + otherCell.y), 0);
+          ivec3 cellTexel = getQuadTreeTexel(level, otherCell);
+          vec4 cellData = texelFetch(u_quadTreeTexture, cellTexel, 0);
           vec2 cellMassSum = cellData.rg;
           float cellMass = cellData.b;
 
+          #if defined(ADJUST_SIZES)
+            if (isFinestLevel && isNeighborCell) {
+              float firstNode = cellData.a > 0.0 ? getFirstNodeInCell(float(otherCell.y * gridSize + otherCell.x)) : 0.0;
+              for (float k = firstNode; k < firstNode + cellData.a; k++) {
+                float otherNodeIndex = getValueInTexture(u_nodesInCellsTexture, k, SORTED_TEXTURE_SIZE).x;
+                if (otherNodeIndex == nodeIndex) continue;
+
+                vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
+                float otherNodeMass = otherNodePosition.z;
+                float otherNodeSize = getValueInTexture(u_nodesMetadataTexture, otherNodeIndex, NODES_TEXTURE_SIZE).r;
+
+                vec2 diff = nodePosition.xy - otherNodePosition.xy;
+                if (dot(diff, diff) <= 0.0) {
+                  // Coincident positions: use a deterministic tiny offset to break the tie
+                  float angle = (nodeIndex + u_seed) * 2.399963229728653;
+                  diff = vec2(cos(angle), sin(angle)) * bbSide / float(gridSize) * 0.01;
+                }
+
+                // Anticollision Linear Repulsion
+                float factor = 0.0;
+                float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize - u_margin;
+                if (d > 0.0) {
+                  factor = repulsionCoefficient * nodeMass * otherNodeMass / (d * d);
+                } else if (d < 0.0) {
+                  factor = 100.0 * repulsionCoefficient * nodeMass * otherNodeMass;
+                }
+
+                dx += diff.x * factor;
+                dy += diff.y * factor;
+              }
+              continue;
+            }
+          #endif
+
           // Remove the node's own contribution from its own cell:
           if (isFinestLevel && all(equal(otherCell, cell))) {
             cellMassSum -= nodePosition.xy * nodeMass;
@@ -242,22 +386,155 @@ void main() {
           float dSquare = dot(diff, diff);
           if (dSquare <= 0.0) {
             // Coincident positions: use a deterministic tiny offset to break the tie
-            float angle = nodeIndex * 2.399963229728653;
+            float angle = (nodeIndex + u_seed) * 2.399963229728653;
             diff = vec2(cos(angle), sin(angle)) * bbSide / float(gridSize) * 0.01;
             dSquare = dot(diff, diff);
           }
 
-          // Linear Repulsion
-          float factor = repulsionCoefficient * nodeMass * cellMass / dSquare;
+          #if defined(ADJUST_SIZES)
+            // Anticollision Linear Repulsion, from the mean size of the cell
+            // nodes:
+            float cellSize = texelFetch(u_quadTreeSizesTexture, cellTexel, 0).r / cellData.a;
+            float d = sqrt(dSquare) - nodeSize - cellSize - u_margin;
+            float factor = d > 0.0
+              ? repulsionCoefficient * nodeMass * cellMass / (d * d)
+              : 100.0 * repulsionCoefficient * nodeMass * cellMass;
+
+          #else
+            // Linear Repulsion
+            float factor = repulsionCoefficient * nodeMass * cellMass / dSquare;
+          #endif
           dx += diff.x * factor;
           dy += diff.y * factor;
+
+          #if defined(QUAD_TREE_QUADRUPOLE)
+            if (!isNeighborCell) {
+              // Second moments, moved from the cell center to the center of
+              // mass:
+              vec3 moments = texelFetch(u_quadTreeMomentsTexture, cellTexel, 0).rgb;
+              vec2 cellCenter = bbCenter + ((vec2(otherCell) + 0.5) / float(gridSize) - 0.5) * bbSide;
+              vec2 centerOffset = cellMassSum / cellMass - cellCenter;
+              vec3 inertia = moments - cellMass * centerOffset.xxy * centerOffset.xyy;
+              vec2 q = vec2(inertia.x - inertia.z, 2.0 * inertia.y);
+
+              // conj(q / z^3) = conj(q * conj(u)^3) / |z|^3, with u = z / |z|:
+              float distance = sqrt(dSquare);
+              vec2 u = diff / distance;
+              vec2 u3 = vec2(u.x * u.x * u.x - 3.0 * u.x * u.y * u.y, u.y * u.y * u.y - 3.0 * u.x * u.x * u.y);
+              vec2 quadrupoleForce = vec2(q.x * u3.x - q.y * u3.y, -q.x * u3.y - q.y * u3.x) / (dSquare * distance);
+              dx += repulsionCoefficient * nodeMass * quadrupoleForce.x;
+              dy += repulsionCoefficient * nodeMass * quadrupoleForce.y;
+            }
+          #endif
         }
       }
     }
 
+  #elif defined(BARNES_HUT_ENABLED)
+    // Barnes-Hut repulsion:
+    // The tree is walked depth-first from its root (the internal node 0).
+    // Cells that don't contain the node, and that pass the size/distance <
+    // theta test, are used as single bodies. The others are opened, down to
+    // the leaves, which are single nodes. The side of a cell is given by the
+    // length of the Morton prefix its nodes share, and it contains the node
+    // if the node code has the same prefix.
+    // With adjustSizes, the cells repel the node from the mean size of their
+    // nodes, and the cells whose nodes might overlap it (from their largest
+    // node) are opened as well, so that overlapping nodes repel each other
+    // one by one, with the exact anti-collision.
+    // Square bounding box (must match the setup sort shader):
+    vec4 boundaries = getValueInTexture(u_boundariesTexture, 0.0, 1.0);
+    float bbSide = max(max(boundaries.y - boundaries.x, boundaries.w - boundaries.z), 1e-6);
+    uint nodeCode = uint(getValueInTexture(u_nodesCodeTexture, nodeIndex, SORTED_TEXTURE_SIZE).x);
+
+    float stack[BARNES_HUT_STACK_SIZE];
+    int stackSize = NODES_CAPACITY > 1.0 ? 1 : 0;
+    stack[0] = 0.0;
+    for (float step = 0.0; step < 2.0 * NODES_CAPACITY && stackSize > 0; step++) {
+      stackSize--;
+      float treeNodeIndex = stack[stackSize];
+
+      // Leaves are single nodes:
+      if (treeNodeIndex < 0.0) {
+        float otherNodeIndex = getValueInTexture(u_nodesInLeavesTexture, -treeNodeIndex - 1.0, SORTED_TEXTURE_SIZE).x;
+        if (otherNodeIndex == nodeIndex || otherNodeIndex >= NODES_CAPACITY) continue;
+
+        vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
+        float otherNodeMass = otherNodePosition.z;
+        if (otherNodeMass <= 0.0) continue;
+
+        vec2 diff = nodePosition.xy - otherNodePosition.xy;
+        float factor = 0.0;
+
+        #if defined(ADJUST_SIZES)
+          // Anticollision Linear Repulsion
+          float otherNodeSize = getValueInTexture(u_nodesMetadataTexture, otherNodeIndex, NODES_TEXTURE_SIZE).r;
+          float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize - u_margin;
+          if (d > 0.0) {
+            factor = repulsionCoefficient * nodeMass * otherNodeMass / (d * d);
+          } else if (d < 0.0) {
+            factor = 100.0 * repulsionCoefficient * nodeMass * otherNodeMass;
+          }
+
+        #else
+          // Linear Repulsion
+          float dSquare = dot(diff, diff);
+          if (dSquare > 0.0) {
+            factor = repulsionCoefficient * nodeMass * otherNodeMass / dSquare;
+          }
+        #endif
+
+        dx += diff.x * factor;
+        dy += diff.y * factor;
+        continue;
+      }
+
+      vec4 cellData = getValueInTexture(u_treeCellsTexture, treeNodeIndex, NODES_TEXTURE_SIZE);
+      float cellMass = cellData.b;
+      if (cellMass <= 0.0) continue;
+
+      vec4 treeNode = getValueInTexture(u_treeNodesTexture, treeNodeIndex, NODES_TEXTURE_SIZE);
+      int prefixLength = int(treeNode.z);
+      float cellSide = bbSide / exp2(float(min(max(prefixLength - 1, 0) / 2, BARNES_HUT_DEPTH)));
+      uint shift = uint(BARNES_HUT_CODE_BITS - min(prefixLength, BARNES_HUT_CODE_BITS));
+      bool containsNode = (nodeCode >> shift) == (uint(treeNode.w) >> shift);
+
+      vec2 diff = nodePosition.xy - cellData.rg / cellMass;
+      float distance = sqrt(dot(diff, diff));
+      bool isFar = !containsNode && cellSide < BARNES_HUT_THETA * distance;
+      #if defined(ADJUST_SIZES)
+        // (the nodes of a cell are at most a diagonal away from its center
+        // of mass)
+        vec2 cellSizes = getValueInTexture(u_treeCellsSizesTexture, treeNodeIndex, NODES_TEXTURE_SIZE).xy;
+        isFar = isFar && distance - cellSide * 1.4142135623730951 > nodeSize + cellSizes.y + u_margin;
+      #endif
+
+      if (!isFar) {
+        stack[stackSize] = treeNode.x;
+        stack[stackSize + 1] = treeNode.y;
+        stackSize += 2;
+        continue;
+      }
+
+      #if defined(ADJUST_SIZES)
+        // Anticollision Linear Repulsion, from the mean size of the cell
+        // nodes:
+        float d = distance - nodeSize - cellSizes.x / cellData.a - u_margin;
+        float factor = d > 0.0
+          ? repulsionCoefficient * nodeMass * cellMass / (d * d)
+          : 100.0 * repulsionCoefficient * nodeMass * cellMass;
+
+      #else
+        // Linear Repulsion
+        float factor = repulsionCoefficient * nodeMass * cellMass / (distance * distance);
+      #endif
+      dx += diff.x * factor;
+      dy += diff.y * factor;
+    }
+
   #else
     // Node-to-node repulsion (no quad tree):
-    for (float j = 0.0; j < NODES_COUNT; j++) {
+    for (float j = 0.0; j < NODES_CAPACITY; j++) {
       if (j == nodeIndex) continue;
     
       vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, j, NODES_TEXTURE_SIZE);
@@ -270,7 +547,7 @@ void main() {
   
       #if defined(ADJUST_SIZES)
         // Anticollision Linear Repulsion
-        float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize;
+        float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize - u_margin;
         if (d > 0.0) {
           factor = repulsionCoefficient * nodeMass * otherNodeMass / (d * d);
         } else if (d < 0.0) {
@@ -310,18 +587,34 @@ void main() {
   #endif
 
   for (float j = 0.0; j < neighborsCount; j++) {
-    vec2 edgeData = getValueInTexture(u_edgesTexture, edgesOffset + j, EDGES_TEXTURE_SIZE).xy;
+    // Edges are (neighbor index, weight, attraction multiplier) triplets:
+    vec3 edgeData = getValueInTexture(u_edgesTexture, edgesOffset + j, EDGES_TEXTURE_SIZE).xyz;
     float otherNodeIndex = edgeData.x;
     float weight = edgeData.y;
-    float edgeWeightInfluence = pow(weight, u_edgeWeightInfluence);
 
     vec4 otherNodePosition = getValueInTexture(u_nodesPositionTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
     vec2 diff = nodePosition.xy - otherNodePosition.xy;
 
+    #if defined(SIGNED_EDGES)
+      // Negative edges push their extremities apart instead, with a spring
+      // that saturates at their absolute weight:
+      if (weight < 0.0) {
+        float repulsionFactor = attractionCoefficient * pow(-weight, u_edgeWeightInfluence) * edgeData.z / (1.0 + sqrt(dot(diff, diff)));
+        #if defined(OUTBOUND_ATTRACTION_DISTRIBUTION)
+          repulsionFactor /= nodeMass;
+        #endif
+        dx += diff.x * repulsionFactor;
+        dy += diff.y * repulsionFactor;
+        continue;
+      }
+    #endif
+
+    float edgeWeightInfluence = pow(weight, u_edgeWeightInfluence) * edgeData.z;
+
     #if defined(ADJUST_SIZES)
       vec4 otherNodeMetadata = getValueInTexture(u_nodesMetadataTexture, otherNodeIndex, NODES_TEXTURE_SIZE);
       float otherNodeSize = otherNodeMetadata.r;
-      float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize;
+      float d = sqrt(dot(diff, diff)) - nodeSize - otherNodeSize - u_margin;
     #else
       float d = sqrt(dot(diff, diff));
     #endif
@@ -382,7 +675,19 @@ void main() {
     + pow(oldDy + dy, 2.0)
   ) / 2.0;
 
-  #if defined(ADJUST_SIZES)
+  #if defined(ADAPTIVE_SPEED)
+    float globalSpeed = texelFetch(u_globalSpeedTexture, ivec2(0), 0).x;
+    float nodeSpeed = globalSpeed / (1.0 + sqrt(globalSpeed * swinging));
+    #if defined(ADJUST_SIZES)
+      // Slower, and with a bounded displacement, so that nodes don't jump
+      // over each other:
+      nodeSpeed *= 0.1;
+      float speedForce = sqrt(dx * dx + dy * dy);
+      if (speedForce > 0.0) nodeSpeed = min(nodeSpeed * speedForce, 10.0) / speedForce;
+    #endif
+    movementOutput.z = nodeConvergence;
+
+  #elif defined(ADJUST_SIZES)
     float nodeSpeed = (0.1 * log(1.0 + traction)) * swingingFactor;
     // No convergence when adjustSizes is true
 
@@ -398,6 +703,17 @@ void main() {
   dx = dx * nodeSpeed / u_slowDown;
   dy = dy * nodeSpeed / u_slowDown;
 
+  // Fixed nodes still attract and repel the others (and count in the
+  // repulsion structures), but never move:
+  if (isFixed) {
+    dx = 0.0;
+    dy = 0.0;
+  }
+
+  convergenceOutput = isFixed
+    ? vec4(0.0)
+    : vec4(swinging, nodeMass * traction, sqrt(dx * dx + dy * dy), 1.0);
+
   positionOutput.x = x + dx;
   positionOutput.y = y + dy;
   positionOutput.z = nodeMass;
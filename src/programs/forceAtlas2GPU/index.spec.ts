@@ -0,0 +1,747 @@
+import Graph, { MultiGraph } from "graphology";
+import { describe, expect, test } from "vitest";
+
+import { setupWebGL2Context } from "../../utils/webgl";
+import {
+  ForceAtlas2GPU,
+  ForceAtlas2GPUOptions,
+  ForceAtlas2Graph,
+  ForceAtlas2LayoutState,
+  ForceAtlas2Settings,
+} from "./index";
+
+function getPathGraph(order: number): Graph {
+  const graph = new Graph();
+  for (let i = 0; i < order; i++) graph.addNode(i, { x: Math.cos(i), y: Math.sin(i), size: 1 });
+  for (let i = 1; i < order; i++) graph.addEdge(i - 1, i);
+  return graph;
+}
+
+function expectFinitePositions(graph: Graph) {
+  graph.forEachNode((_node, { x, y }) => {
+    expect(Number.isFinite(x)).toBe(true);
+    expect(Number.isFinite(y)).toBe(true);
+  });
+}
+
+function waitForFrames(count: number): Promise<void> {
+  return new Promise((resolve) => {
+    const step = (remaining: number) => (remaining ? requestAnimationFrame(() => step(remaining - 1)) : resolve());
+    step(count);
+  });
+}
+
+describe("ForceAtlas2GPU", () => {
+  test("should apply nodes and edges added or dropped while running", async () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { iterationsPerFrame: 1 });
+    try {
+      fa2.once("iterationBatch", () => {
+        graph.dropNode(5);
+        graph.addNode("new", { size: 1 });
+        graph.addEdge("new", 0);
+        graph.addEdge("new", 9);
+      });
+      await fa2.runAsync({ iterations: 30 });
+
+      expect(graph.order).toBe(10);
+      expectFinitePositions(graph);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should keep running when the graph grows beyond the textures capacity", async () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, {
+      iterationsPerFrame: 1,
+      repulsion: { type: "quad-tree" },
+    });
+    try {
+      fa2.once("iterationBatch", () => {
+        for (let i = 10; i < 100; i++) {
+          graph.addNode(i, { x: Math.cos(i), y: Math.sin(i), size: 1 });
+          graph.addEdge(i - 1, i);
+        }
+      });
+      await fa2.runAsync({ iterations: 30 });
+
+      expectFinitePositions(graph);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should apply settings updates while running", async () => {
+    const graph = getPathGraph(20);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { iterationsPerFrame: 1 });
+    try {
+      fa2.once("iterationBatch", () => {
+        // Uniform-backed, then define-backed settings:
+        fa2.setSettings({ gravity: 0.5, scalingRatio: 2 });
+        fa2.setSettings({ linLogMode: true, repulsion: { type: "quad-tree" } });
+      });
+      await fa2.runAsync({ iterations: 30 });
+
+      expect(fa2.getSettings()).toMatchObject({ gravity: 0.5, scalingRatio: 2, linLogMode: true });
+      expect(fa2.getSettings().repulsion).toMatchObject({ type: "quad-tree", theta: 1 });
+      expect(fa2.getQuadTree().getDepth()).toBeGreaterThan(0);
+      expectFinitePositions(graph);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should reject invalid settings, and keep the current ones", () => {
+    const fa2 = new ForceAtlas2GPU(getPathGraph(10) as ForceAtlas2Graph);
+    try {
+      expect(() => fa2.setSettings({ repulsion: { type: "quad-tree", theta: 2 } })).toThrow();
+      expect(() => fa2.setSettings({ repulsion: { type: "barnes-hut", theta: 0 } })).toThrow();
+      expect(fa2.getSettings().repulsion).toEqual({ type: "all-pairs" });
+      expect(() => fa2.setSettings({ adjustSizes: true, margin: -1 })).toThrow();
+      expect(fa2.getSettings().adjustSizes).toBe(false);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should keep fixed nodes in place", async () => {
+    const graph = getPathGraph(10);
+    graph.setNodeAttribute(0, "fixed", true);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { iterationsPerFrame: 1 });
+    try {
+      await fa2.runAsync({ iterations: 30 });
+
+      expect(graph.getNodeAttribute(0, "x")).toBeCloseTo(Math.cos(0), 5);
+      expect(graph.getNodeAttribute(0, "y")).toBeCloseTo(Math.sin(0), 5);
+      expect(graph.getNodeAttribute(9, "x")).not.toBeCloseTo(Math.cos(9), 5);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should read the fixed flags with a custom accessor", async () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, {}, { getNodeFixed: (node) => node === "3" });
+    try {
+      await fa2.runAsync({ iterations: 10 });
+
+      expect(graph.getNodeAttribute(3, "x")).toBeCloseTo(Math.cos(3), 5);
+      expect(graph.getNodeAttribute(3, "y")).toBeCloseTo(Math.sin(3), 5);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should read the nodes masses with a custom accessor", () => {
+    const graph = getPathGraph(20);
+    graph.forEachEdge((edge) => graph.setEdgeAttribute(edge, "weight", 3));
+    graph.forEachNode((node) => graph.setNodeAttribute(node, "importance", 1 + 3 * graph.degree(node)));
+    const run = (getNodeMass: ForceAtlas2GPUOptions["getNodeMass"]) => {
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, {}, { getNodeMass });
+      try {
+        return fa2.runSync(10);
+      } finally {
+        fa2.kill();
+      }
+    };
+
+    const positions = run(null);
+    expect(run("importance")).toEqual(positions);
+    expect(run((_node, _attributes, degree) => degree + 1)).not.toEqual(positions);
+  });
+
+  test("should reject non-positive masses", () => {
+    expect(() => new ForceAtlas2GPU(getPathGraph(5) as ForceAtlas2Graph, {}, { getNodeMass: () => 0 })).toThrow();
+  });
+
+  test("should read and write the positions under custom attributes", async () => {
+    const graph = getPathGraph(10);
+    const geoGraph = new Graph<{ lng: number; lat: number }>();
+    graph.forEachNode((node, { x, y }) => geoGraph.addNode(node, { lng: x, lat: y }));
+    graph.forEachEdge((_edge, _attributes, source, target) => geoGraph.addEdge(source, target));
+
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph);
+    const geoFa2 = new ForceAtlas2GPU(geoGraph, {}, { getNodeSize: null, positionAttributes: { x: "lng", y: "lat" } });
+    try {
+      await fa2.runAsync({ iterations: 10 });
+      await geoFa2.runAsync({ iterations: 10 });
+
+      graph.forEachNode((node, { x, y }) => {
+        const attributes = geoGraph.getNodeAttributes(node);
+        expect(attributes).not.toHaveProperty("x");
+        expect(attributes.lng).toBeCloseTo(x, 5);
+        expect(attributes.lat).toBeCloseTo(y, 5);
+      });
+    } finally {
+      fa2.kill();
+      geoFa2.kill();
+    }
+
+    const mappedFa2 = new ForceAtlas2GPU(
+      geoGraph,
+      {},
+      { getNodePosition: (_node, { lng, lat }) => ({ x: lat, y: lng }) },
+    );
+    try {
+      const positions = mappedFa2.runSync(0);
+      geoGraph.forEachNode((node, { lng, lat }) => {
+        expect(positions[node].x).toBeCloseTo(lat, 5);
+        expect(positions[node].y).toBeCloseTo(lng, 5);
+      });
+    } finally {
+      mappedFa2.kill();
+    }
+  });
+
+  test("should read the nodes sizes with a custom accessor", () => {
+    const graph = getPathGraph(20);
+    graph.forEachNode((node) => graph.setNodeAttribute(node, "radius", 5));
+    const run = (getNodeSize: ForceAtlas2GPUOptions["getNodeSize"]) => {
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { adjustSizes: true }, { getNodeSize });
+      try {
+        return fa2.runSync(10);
+      } finally {
+        fa2.kill();
+      }
+    };
+
+    const positions = run("radius");
+    expect(run(() => 5)).toEqual(positions);
+    expect(run(null)).not.toEqual(positions);
+  });
+
+  test.each<{ name: string; repulsion: ForceAtlas2Settings["repulsion"] }>([
+    { name: "all-pairs", repulsion: { type: "all-pairs" } },
+    { name: "quad-tree", repulsion: { type: "quad-tree", depth: 3 } },
+    { name: "barnes-hut", repulsion: { type: "barnes-hut" } },
+    {
+      name: "k-means",
+      repulsion: {
+        type: "k-means",
+        centroids: 4,
+        steps: 1,
+        resetCentroids: false,
+        nodeToNodeRepulsion: false,
+        centroidUpdateInterval: 1,
+      },
+    },
+  ])("$name - should keep the nodes from overlapping with adjustSizes and margin", ({ repulsion }) => {
+    const getMinDistance = (margin: number) => {
+      const graph = getPathGraph(40);
+      graph.forEachNode((node) =>
+        graph.mergeNodeAttributes(node, { x: Math.cos(+node) * 3, y: Math.sin(+node) * 3, size: 5 }),
+      );
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { adjustSizes: true, margin, repulsion });
+      try {
+        const positions = Object.values(fa2.runSync(500));
+        let minDistance = Infinity;
+        positions.forEach((p, i) =>
+          positions
+            .slice(i + 1)
+            .forEach((q) => (minDistance = Math.min(minDistance, Math.hypot(p.x - q.x, p.y - q.y)))),
+        );
+        return minDistance;
+      } finally {
+        fa2.kill();
+      }
+    };
+
+    expect(getMinDistance(0)).toBeGreaterThan(0.95 * 10);
+    expect(getMinDistance(4)).toBeGreaterThan(0.95 * 14);
+  });
+
+  test("should tell the edges directions apart with directedAttraction", () => {
+    const run = (graph: Graph, directedAttraction: ForceAtlas2Settings["directedAttraction"]) => {
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { directedAttraction }, { getNodeMass: () => 1 });
+      try {
+        return fa2.runSync(10);
+      } finally {
+        fa2.kill();
+      }
+    };
+
+    const graph = getPathGraph(20);
+    const positions = run(graph, null);
+    expect(run(graph, { inbound: 1, outbound: 1 })).toEqual(positions);
+    expect(run(graph, { inbound: 0 })).not.toEqual(positions);
+
+    // Reciprocal edges counted once attract like a single undirected edge:
+    const reciprocalGraph = getPathGraph(20);
+    graph.forEachEdge((_edge, _attributes, source, target) => reciprocalGraph.addEdge(target, source));
+    const undirectedGraph = getPathGraph(20);
+    undirectedGraph.clearEdges();
+    graph.forEachEdge((_edge, _attributes, source, target) => undirectedGraph.addUndirectedEdge(source, target));
+    const reciprocalPositions = run(reciprocalGraph, { reciprocal: "once" });
+    const undirectedPositions = run(undirectedGraph, null);
+    for (const node in undirectedPositions) {
+      expect(reciprocalPositions[node].x).toBeCloseTo(undirectedPositions[node].x, 4);
+      expect(reciprocalPositions[node].y).toBeCloseTo(undirectedPositions[node].y, 4);
+    }
+
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph);
+    try {
+      expect(() => fa2.setSettings({ directedAttraction: { inbound: -1 } })).toThrow();
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should aggregate parallel edges, and apply the self-loops policy", () => {
+    const run = (graph: Graph, settings: Partial<ForceAtlas2Settings> = {}) => {
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, settings);
+      try {
+        return fa2.runSync(10);
+      } finally {
+        fa2.kill();
+      }
+    };
+    const getWeightedPathGraph = (weight: number) => {
+      const graph = getPathGraph(20);
+      graph.forEachEdge((edge) => graph.setEdgeAttribute(edge, "weight", weight));
+      return graph;
+    };
+
+    const multiGraph = new MultiGraph();
+    const pathGraph = getPathGraph(20);
+    pathGraph.forEachNode((node, attributes) => multiGraph.addNode(node, attributes));
+    pathGraph.forEachEdge((_edge, _attributes, source, target) => {
+      multiGraph.addEdge(source, target, { weight: 1 });
+      multiGraph.addEdge(source, target, { weight: 3 });
+    });
+    expect(run(multiGraph, { parallelEdges: "sum" })).toEqual(run(getWeightedPathGraph(4)));
+    expect(run(multiGraph, { parallelEdges: "max" })).toEqual(run(getWeightedPathGraph(3)));
+    expect(run(multiGraph, { parallelEdges: "mean" })).toEqual(run(getWeightedPathGraph(2)));
+    expect(run(multiGraph, { parallelEdges: "first" })).toEqual(run(getWeightedPathGraph(1)));
+
+    const loopGraph = getPathGraph(20);
+    loopGraph.addEdge(0, 0);
+    expect(run(loopGraph, { selfLoops: "ignore" })).toEqual(run(pathGraph));
+    expect(run(loopGraph, { selfLoops: "mass-only" })).not.toEqual(run(pathGraph));
+  });
+
+  test("should push the extremities of negative edges apart with signedEdges", () => {
+    const getDistance = (weight: number | null) => {
+      const graph = getPathGraph(2);
+      if (weight === null) graph.clearEdges();
+      else graph.setEdgeAttribute(0, 1, "weight", weight);
+      const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { signedEdges: true, gravity: 0.01 });
+      try {
+        const positions = fa2.runSync(20);
+        return Math.hypot(positions[0].x - positions[1].x, positions[0].y - positions[1].y);
+      } finally {
+        fa2.kill();
+      }
+    };
+
+    expect(getDistance(-1)).toBeGreaterThan(getDistance(null));
+    expect(getDistance(1)).toBeLessThan(getDistance(null));
+    expect(getDistance(0)).toBe(getDistance(null));
+
+    const graph = getPathGraph(2);
+    graph.setEdgeAttribute(0, 1, "weight", -1);
+    expect(() => new ForceAtlas2GPU(graph as ForceAtlas2Graph)).toThrow();
+  });
+
+  test("should still be usable after a failed start", () => {
+    const graph = getPathGraph(2);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph);
+    try {
+      graph.setEdgeAttribute(0, 1, "weight", -1);
+      expect(() => fa2.start()).toThrow();
+      expect(fa2.isRunning()).toBe(false);
+
+      graph.setEdgeAttribute(0, 1, "weight", 1);
+      const positions = fa2.runSync(5);
+      expect(Object.keys(positions)).toHaveLength(2);
+      expect(() => fa2.setState(fa2.getState())).not.toThrow();
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should move and pin nodes while running, and release them", async () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { iterationsPerFrame: 1 });
+    try {
+      fa2.once("iterationBatch", () => fa2.setNodePosition("4", 100, -100, { pin: true }));
+      await fa2.runAsync({ iterations: 30 });
+
+      expect(graph.getNodeAttribute(4, "x")).toBe(100);
+      expect(graph.getNodeAttribute(4, "y")).toBe(-100);
+
+      fa2.once("iterationBatch", () => fa2.releaseNode("4"));
+      const run = fa2.runAsync({ iterations: 30 });
+      fa2.setNodePosition("4", 100, -100);
+      await run;
+
+      expect(graph.getNodeAttribute(4, "x")).not.toBe(100);
+      expect(() => fa2.setNodePosition("unknown", 0, 0)).toThrow();
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should move, pin and release nodes between setState and the next run", () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph);
+    try {
+      fa2.runSync(10);
+      fa2.setState(fa2.getState());
+      fa2.setNodePosition("4", 100, -100, { pin: true });
+      let positions = fa2.runSync(10);
+
+      expect(positions["4"]).toEqual({ x: 100, y: -100 });
+
+      fa2.setState(fa2.getState());
+      fa2.releaseNode("4");
+      positions = fa2.runSync(10);
+
+      expect(positions["4"].x).not.toBe(100);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should run with an adaptive global speed", async () => {
+    const graph = getPathGraph(50);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { adaptiveSpeed: true, jitterTolerance: 0.5 });
+    try {
+      await fa2.runAsync({ iterations: 50 });
+
+      expectFinitePositions(graph);
+      expect(graph.getNodeAttribute(0, "x")).not.toBe(Math.cos(0));
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should stop by itself once converged", async () => {
+    const graph = getPathGraph(10);
+    // With such a threshold, the layout converges after the first batch:
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { stopWhenConverged: true, convergenceThreshold: 1e6 });
+    try {
+      const convergedIterations: number[] = [];
+      fa2.on("converged", ({ totalIterations }) => convergedIterations.push(totalIterations));
+      await fa2.runAsync();
+
+      expect(convergedIterations).toHaveLength(1);
+      expect(convergedIterations[0]).toBeGreaterThan(0);
+      expect(fa2.isRunning()).toBe(false);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test.each<{ name: string; settings: Partial<ForceAtlas2Settings> }>([
+    { name: "all-pairs", settings: { adaptiveSpeed: true } },
+    {
+      name: "k-means",
+      settings: {
+        repulsion: {
+          type: "k-means",
+          centroids: 5,
+          steps: 1,
+          resetCentroids: false,
+          nodeToNodeRepulsion: true,
+          centroidUpdateInterval: 1,
+        },
+      },
+    },
+  ])("$name - should save a layout state, and go on from it on another instance", ({ settings }) => {
+    const graph = getPathGraph(50);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, settings);
+    const fork = new ForceAtlas2GPU(graph.copy() as ForceAtlas2Graph);
+    try {
+      fa2.runSync(20);
+      const state: ForceAtlas2LayoutState = JSON.parse(JSON.stringify(fa2.getState()));
+      expect(state.totalIterations).toBe(20);
+      expect(Object.keys(state.nodes)).toHaveLength(50);
+
+      fa2.setState(state);
+      const expected = fa2.runSync(10);
+      fork.setState(state);
+      const actual = fork.runSync(10);
+
+      expect(fork.getSettings()).toEqual(fa2.getSettings());
+      expect(fork.getTotalIterations()).toBe(30);
+      for (const node in expected) {
+        expect(actual[node].x).toBeCloseTo(expected[node].x, 3);
+        expect(actual[node].y).toBeCloseTo(expected[node].y, 3);
+      }
+    } finally {
+      fa2.kill();
+      fork.kill();
+    }
+  });
+
+  test.each<{ name: string; settings: Partial<ForceAtlas2Settings> }>([
+    { name: "quad-tree", settings: { repulsion: { type: "quad-tree", depth: 4 } } },
+    {
+      name: "k-means",
+      settings: {
+        repulsion: {
+          type: "k-means",
+          centroids: 5,
+          steps: 2,
+          resetCentroids: true,
+          nodeToNodeRepulsion: false,
+          centroidUpdateInterval: 3,
+        },
+      },
+    },
+  ])("$name - should give the same positions for the same seed, in deterministic mode", ({ settings }) => {
+    const graph = getPathGraph(100);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { ...settings, deterministic: true, seed: 42 });
+    const other = new ForceAtlas2GPU(graph.copy() as ForceAtlas2Graph, { ...settings, deterministic: true, seed: 42 });
+    try {
+      // The previous runs of an instance must not matter:
+      fa2.runSync(7);
+      const positions = fa2.runSync(20);
+
+      expect(fa2.runSync(20)).toEqual(positions);
+      expect(other.runSync(20)).toEqual(positions);
+    } finally {
+      fa2.kill();
+      other.kill();
+    }
+  });
+
+  test("should give the same positions for the same graph content, in deterministic mode", () => {
+    const settings: Partial<ForceAtlas2Settings> = {
+      repulsion: { type: "quad-tree", depth: 4 },
+      deterministic: true,
+      seed: 7,
+    };
+    const graph = getPathGraph(50);
+    graph.addNode("dropped", { x: 0, y: 0, size: 1 });
+    graph.addEdge("dropped", "0");
+    // The same graph, built in the reverse order:
+    const reversed = new Graph();
+    graph
+      .nodes()
+      .reverse()
+      .forEach((node) => reversed.addNode(node, { ...graph.getNodeAttributes(node) }));
+    graph
+      .edges()
+      .reverse()
+      .forEach((edge) => reversed.addEdge(graph.source(edge), graph.target(edge)));
+
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, settings);
+    const other = new ForceAtlas2GPU(reversed as ForceAtlas2Graph, settings);
+    try {
+      expect(other.runSync(10)).toEqual(fa2.runSync(10));
+
+      // The slots freed by the graph changes must not matter either:
+      [
+        { layout: fa2, layoutGraph: graph },
+        { layout: other, layoutGraph: reversed },
+      ].forEach(({ layout, layoutGraph }) => {
+        layout.setState(layout.getState());
+        layoutGraph.dropNode("dropped");
+        layoutGraph.addNode("added", { x: 3, y: 3, size: 1 });
+        layoutGraph.addEdge("added", "10");
+      });
+      expect(other.runSync(10)).toEqual(fa2.runSync(10));
+    } finally {
+      fa2.kill();
+      other.kill();
+    }
+  });
+
+  test("should only accept 16-bit integer seeds", () => {
+    const graph = getPathGraph(10) as ForceAtlas2Graph;
+    [-1, 0.5, 65536, NaN].forEach((seed) => expect(() => new ForceAtlas2GPU(graph, { seed })).toThrow());
+
+    const fa2 = new ForceAtlas2GPU(graph, { seed: 65535 });
+    fa2.kill();
+  });
+
+  test("should reject layout states with an unknown version", () => {
+    const fa2 = new ForceAtlas2GPU(getPathGraph(10) as ForceAtlas2Graph);
+    try {
+      const state = { ...fa2.getState(), version: 2 } as unknown as ForceAtlas2LayoutState;
+      expect(() => fa2.setState(state)).toThrow();
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should release its fences and buffers when killed while running", async () => {
+    const { gl, canvas } = setupWebGL2Context();
+    // Track the fences and buffers the layout creates (the context is shared,
+    // so it stays alive after kill):
+    const fences: WebGLSync[] = [];
+    const buffers: WebGLBuffer[] = [];
+    const fenceSync = gl.fenceSync.bind(gl);
+    const createBuffer = gl.createBuffer.bind(gl);
+    gl.fenceSync = (condition, flags) => {
+      const fence = fenceSync(condition, flags);
+      if (fence) fences.push(fence);
+      return fence;
+    };
+    gl.createBuffer = () => {
+      const buffer = createBuffer();
+      if (buffer) buffers.push(buffer);
+      return buffer;
+    };
+
+    try {
+      const fa2 = new ForceAtlas2GPU(getPathGraph(20) as ForceAtlas2Graph, { syncInterval: 0 }, { gl });
+      const synced = new Promise((resolve) => fa2.once("sync", resolve));
+      fa2.start();
+      await synced;
+      // Leave some batches and readbacks pending:
+      await waitForFrames(2);
+      expect(fences.length).toBeGreaterThan(0);
+
+      fa2.kill();
+      const fencesCount = fences.length;
+      await waitForFrames(3);
+
+      expect(fences).toHaveLength(fencesCount);
+      expect(fences.filter((fence) => gl.isSync(fence))).toEqual([]);
+      expect(buffers.filter((buffer) => gl.isBuffer(buffer))).toEqual([]);
+      expect(() => fa2.isRunning()).toThrow();
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("should reject the pending runs when killed", async () => {
+    const fa2 = new ForceAtlas2GPU(getPathGraph(10) as ForceAtlas2Graph, { iterationsPerFrame: 1 });
+    const run = fa2.runAsync({ iterations: 1000 });
+    const iteration = (async () => {
+      for await (const _payload of run);
+    })();
+    await waitForFrames(2);
+    fa2.kill();
+
+    await expect(run).rejects.toThrow("killed");
+    await expect(iteration).rejects.toThrow("killed");
+  });
+
+  test("should not keep listening when a run fails to start", async () => {
+    const graph = getPathGraph(2);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph);
+    try {
+      graph.setEdgeAttribute(0, 1, "weight", -1);
+      await expect(fa2.runAsync({ iterations: 10 })).rejects.toThrow();
+
+      expect(fa2.listenerCount("stop")).toBe(0);
+      expect(fa2.listenerCount("error")).toBe(0);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should pause on a context loss, and resume from the last synced positions once restored", async () => {
+    const { gl, canvas } = setupWebGL2Context();
+    const loseContext = gl.getExtension("WEBGL_lose_context")!;
+    const graph = getPathGraph(20);
+    const calls: string[] = [];
+    const fa2 = new ForceAtlas2GPU(
+      graph as ForceAtlas2Graph,
+      { iterationsPerFrame: 1, syncInterval: 0, repulsion: { type: "quad-tree", depth: 4 } },
+      {
+        gl,
+        onContextLost: () => calls.push("onContextLost"),
+        onContextRestored: () => calls.push("onContextRestored"),
+      },
+    );
+    fa2.on("contextLost", () => calls.push("contextLost"));
+    fa2.on("contextRestored", () => calls.push("contextRestored"));
+    const getGraphPositions = () => graph.mapNodes((_node, { x, y }) => [x, y]);
+
+    try {
+      const synced = new Promise((resolve) => fa2.once("sync", resolve));
+      fa2.start(30);
+      await synced;
+
+      const quadTree = fa2.getQuadTree();
+      const lost = new Promise<void>((resolve) => fa2.once("contextLost", resolve));
+      loseContext.loseContext();
+      await lost;
+
+      expect(fa2.isContextLost()).toBe(true);
+      expect(fa2.isRunning()).toBe(true);
+      const lostPositions = getGraphPositions();
+      await waitForFrames(3);
+      expect(getGraphPositions()).toEqual(lostPositions);
+
+      // The run resumes from the graph positions, on rebuilt programs:
+      let resumedPositions: number[][] = [];
+      fa2.once("start", () => {
+        const { nodes } = fa2.getState();
+        resumedPositions = graph.mapNodes((node) => nodes[node].slice(0, 2));
+      });
+      const stopped = new Promise<void>((resolve) => fa2.once("stop", resolve));
+      loseContext.restoreContext();
+      await stopped;
+
+      expect(calls).toEqual(["onContextLost", "contextLost", "onContextRestored", "contextRestored"]);
+      expect(fa2.isContextLost()).toBe(false);
+      expect(fa2.getQuadTree()).not.toBe(quadTree);
+      resumedPositions.forEach(([x, y], i) => {
+        expect(x).toBeCloseTo(lostPositions[i][0], 5);
+        expect(y).toBeCloseTo(lostPositions[i][1], 5);
+      });
+      expect(getGraphPositions()).not.toEqual(lostPositions);
+      expectFinitePositions(graph);
+    } finally {
+      fa2.kill();
+      canvas.remove();
+    }
+  });
+
+  test("should run on the CPU backend", async () => {
+    const graph = getPathGraph(20);
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, { iterationsPerFrame: 5 }, { backend: "cpu" });
+    try {
+      expect(fa2.getBackend()).toBe("cpu");
+      await fa2.runAsync({ iterations: 20 });
+
+      expectFinitePositions(graph);
+      expect(fa2.getTotalIterations()).toBe(20);
+      expect(graph.getNodeAttribute(0, "x")).not.toBe(Math.cos(0));
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test.each<{ name: string; settings: Partial<ForceAtlas2Settings> }>([
+    { name: "all-pairs", settings: {} },
+    { name: "all-pairs, linLog and sizes", settings: { linLogMode: true, adjustSizes: true } },
+    { name: "outbound attraction distribution", settings: { outboundAttractionDistribution: true } },
+    { name: "adaptive speed", settings: { adaptiveSpeed: true } },
+    { name: "quad-tree", settings: { repulsion: { type: "quad-tree", depth: 4 } } },
+    {
+      name: "quad-tree and sizes",
+      settings: { repulsion: { type: "quad-tree", depth: 4 }, adjustSizes: true, margin: 1 },
+    },
+    { name: "quad-tree with quadrupole", settings: { repulsion: { type: "quad-tree", depth: 4, quadrupole: true } } },
+    {
+      name: "quad-tree with quadrupole and sizes",
+      settings: { repulsion: { type: "quad-tree", depth: 4, quadrupole: true }, adjustSizes: true },
+    },
+    { name: "barnes-hut", settings: { repulsion: { type: "barnes-hut", theta: 0.5 } } },
+    {
+      name: "barnes-hut and sizes",
+      settings: { repulsion: { type: "barnes-hut", theta: 1 }, adjustSizes: true, margin: 1 },
+    },
+    { name: "signed edges", settings: { signedEdges: true } },
+  ])("$name - should match the CPU backend, iteration by iteration", ({ settings }) => {
+    const graph = getPathGraph(100);
+    if (settings.signedEdges)
+      graph.forEachEdge((edge, _attributes, source) => graph.setEdgeAttribute(edge, "weight", (+source % 3) - 1));
+    const fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, settings, { backend: "gpu" });
+    try {
+      const report = fa2.compareWithCPU(10, { tolerance: 1e-3 });
+
+      expect(report.iterations).toHaveLength(10);
+      expect(report.passed).toBe(true);
+    } finally {
+      fa2.kill();
+    }
+  });
+});
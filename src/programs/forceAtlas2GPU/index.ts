@@ -1,33 +1,220 @@
 import Graph from "graphology";
-import { EdgeDisplayData, NodeDisplayData } from "sigma/types";
+import { AttributeUpdatePayload, Attributes, EdgeMapper } from "graphology-types";
 
-import { getTextureSize } from "../../utils/webgl";
+import { TypedEventEmitter } from "../../utils/events";
+import { getTextureSize, resetGLState, restoreGLState, saveGLState, setupWebGL2Context } from "../../utils/webgl";
+import { BarnesHutGPU } from "../barnesHutGPU";
+import { ConvergenceGPU } from "../convergenceGPU";
+import { ForceAtlas2CPU } from "../forceAtlas2CPU";
 import { KMeansGPU } from "../kMeansGPU";
 import { KMeansGroupedGPU } from "../kMeansGroupedGPU";
-import { QuadTreeGPU, getDefaultQuadTreeDepth } from "../quadTreeGPU";
+import {
+  QuadTreeGPU,
+  getDefaultQuadTreeDepth,
+  getQuadTreeDeviceLimits,
+  getQuadTreeMaxDepth,
+  getQuadTreeTileSize,
+} from "../quadTreeGPU";
 import { WebCLProgram } from "../webCLProgram";
 import { getVertexShader } from "../webCLProgram/vertex";
-import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "./consts";
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings, isKMeansGrouped } from "./consts";
 import { getForceAtlas2FragmentShader } from "./fragment";
+import { ForceAtlas2Run } from "./run";
+import {
+  ForceAtlas2GPUEvents,
+  ForceAtlas2GPUOptions,
+  ForceAtlas2LayoutState,
+  ForceAtlas2ToleranceReport,
+  NodeMassMapper,
+  NodePositionGetter,
+  PositionAttributes,
+} from "./types";
+
+export type { ForceAtlas2Settings } from "./consts";
+export type {
+  ForceAtlas2GPUEvents,
+  ForceAtlas2GPUOptions,
+  ForceAtlas2LayoutState,
+  ForceAtlas2ToleranceReport,
+  NodeMassMapper,
+  NodePositionGetter,
+  PositionAttributes,
+} from "./types";
+export * from "./run";
+export * from "./settings";
 
 const ATTRIBUTES_PER_ITEM = {
   nodesPosition: 4,
   nodesMovement: 4,
   nodesMetadata: 4,
-  edges: 2,
+  edges: 3,
   boundaries: 4,
   centroidsPosition: 4,
   centroidsOffsets: 2,
+  centroidsRadius: 1,
   nodesInCentroids: 1,
   closestCentroid: 1,
   quadTree: 4,
+  quadTreeSizes: 4,
+  quadTreeMoments: 4,
+  nodesInCells: 1,
+  nodesCell: 1,
+  treeNodes: 4,
+  treeCells: 4,
+  treeCellsSizes: 2,
+  nodesInLeaves: 1,
+  nodesCode: 1,
+  globalSpeed: 4,
+  nodesConvergence: 4,
 } as const;
 
-export type ForceAtlas2Graph = Graph<NodeDisplayData, EdgeDisplayData & { weight?: number }>;
+// All data textures, plus the three output textures (nodesConvergence is only
+// an output, and the two others share their names with data textures):
+const TEXTURE_UNITS_COUNT = Object.keys(ATTRIBUTES_PER_ITEM).length + 2;
+
+// Nodes and edges textures are over-allocated by this factor, so that the
+// graph can grow without recompiling the shader:
+const CAPACITY_GROWTH_FACTOR = 1.5;
+
+// Graph events that change its structure (attributes updates are ignored):
+const GRAPH_STRUCTURE_EVENTS = [
+  "nodeAdded",
+  "nodeDropped",
+  "edgeAdded",
+  "edgeDropped",
+  "cleared",
+  "edgesCleared",
+] as const;
+
+/**
+ * Returns the capacity of a texture able to store itemsCount items, with room
+ * to grow (capacities fill square textures, so that each texel is a slot).
+ */
+function getCapacity(itemsCount: number): number {
+  return getTextureSize(Math.max(1, Math.ceil(itemsCount * CAPACITY_GROWTH_FACTOR))) ** 2;
+}
+
+// The default mass of the nodes, like in graphology-layout-forceatlas2:
+const getDefaultNodeMass: NodeMassMapper = (_node, _attributes, _degree, weightedDegree) => 1 + weightedDegree;
+
+/**
+ * Returns a pseudo-random number in [0, 1[ from a string and a seed (an
+ * FNV-1a hash, mixed like mulberry32), to place new nodes in deterministic
+ * mode:
+ */
+function getStringHash(value: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+
+  let t = (hash + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Returns the WebGL extensions that the GPU backend misses to run with some
+ * settings:
+ */
+function getMissingExtensions(gl: WebGL2RenderingContext, { repulsion }: ForceAtlas2Settings): string[] {
+  const extensions = ["EXT_color_buffer_float"];
+  // Additive blending on float textures, for the quadtree splat:
+  if (repulsion.type === "quad-tree") extensions.push("EXT_float_blend");
+  return extensions.filter((extension) => !gl.getExtension(extension));
+}
+
+/**
+ * Returns a key identifying the settings that are compiled into the shaders
+ * (as defines, or through the programs that are created), so that changing
+ * them requires rebuilding the programs:
+ */
+function getCompiledSettingsKey({
+  linLogMode,
+  adjustSizes,
+  strongGravityMode,
+  outboundAttractionDistribution,
+  adaptiveSpeed,
+  repulsion,
+  signedEdges,
+  debug,
+}: ForceAtlas2Settings): string {
+  const compiledRepulsion =
+    repulsion.type === "k-means"
+      ? { type: repulsion.type, centroids: repulsion.centroids, nodeToNodeRepulsion: repulsion.nodeToNodeRepulsion }
+      : repulsion;
+
+  return JSON.stringify([
+    linLogMode,
+    adjustSizes,
+    strongGravityMode,
+    outboundAttractionDistribution,
+    adaptiveSpeed,
+    compiledRepulsion,
+    signedEdges,
+    debug,
+  ]);
+}
+
+export type ForceAtlas2Graph<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+> = Graph<NodeAttributes, EdgeAttributes>;
 
-export class ForceAtlas2GPU {
-  private canvas: HTMLCanvasElement;
-  private gl: WebGL2RenderingContext;
+// The edges of the graph, indexed per node slot (see indexEdges). Degrees
+// are (degree, weighted degree, weighted out-degree):
+type IndexedEdges = {
+  neighborsPerSlot: { weight: number; multiplier: number; index: number }[][];
+  degreesPerSlot: [number, number, number][];
+  count: number;
+};
+
+type ForceAtlas2Program = WebCLProgram<
+  | "nodesPosition"
+  | "nodesMovement"
+  | "nodesMetadata"
+  | "edges"
+  | "boundaries"
+  | "centroidsPosition"
+  | "centroidsOffsets"
+  | "centroidsRadius"
+  | "nodesInCentroids"
+  | "closestCentroid"
+  | "quadTree"
+  | "quadTreeSizes"
+  | "quadTreeMoments"
+  | "nodesInCells"
+  | "nodesCell"
+  | "treeNodes"
+  | "treeCells"
+  | "treeCellsSizes"
+  | "nodesInLeaves"
+  | "nodesCode"
+  | "globalSpeed",
+  "nodesPosition" | "nodesMovement" | "nodesConvergence"
+>;
+
+// What ForceAtlas2GPU uses from the layout data and convergence programs,
+// which ForceAtlas2CPU implements as well:
+type LayoutData = Pick<
+  ForceAtlas2CPU,
+  "getInput" | "writeTexels" | "setTextureData" | "startAsyncDataRead" | "pollAsyncDataRead" | "cancelAsyncRead"
+>;
+type ConvergenceState = Pick<
+  ConvergenceGPU,
+  "getSpeed" | "setSpeed" | "startAsyncRead" | "pollAsyncRead" | "cancelAsyncRead"
+>;
+
+export class ForceAtlas2GPU<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+> extends TypedEventEmitter<ForceAtlas2GPUEvents> {
+  // Both are null when there is no WebGL2 at all (see the "backend" option):
+  private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+  private gl: WebGL2RenderingContext | null = null;
+  // True when the context comes from outside (and might be used by a host
+  // renderer): the GL state is then preserved around each GPU work, and the
+  // context is not destroyed on kill:
+  private sharedContext = false;
 
   // At most this many issued-but-not-finished batches of iterations. 2 keeps
   // the GPU busy while a batch runs, without letting the command queue grow
@@ -40,14 +227,49 @@ export class ForceAtlas2GPU {
   private animationFrameID: null | number = null;
   private params: ForceAtlas2Settings;
   private totalIterations = 0;
+  // Iterations since the layout was last reset (the deterministic mode only
+  // depends on these, see getIterationCount):
+  private layoutIterations = 0;
   private lastSyncTime = 0;
   private syncPending = false;
   private batchFences: WebGLSync[] = [];
+  private killed = false;
+  // The global adaptive speed state, as (speed, speedEfficiency), kept when
+  // the programs are rebuilt while the layout runs (see readLayoutState):
+  private speedState: [number, number] = [1, 1];
+  // True once the "converged" event was emitted for the current run:
+  private converged = false;
+  // True once the graph is uploaded into the current programs:
+  private uploaded = false;
+  // True when a state was restored (see setState), so that the next run goes
+  // on from it instead of reading the graph again:
+  private resumeState = false;
 
   // Graph data and various caches:
-  private graph: ForceAtlas2Graph;
-  private maxNeighborsCount: number = 0;
+  private graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>;
   private outboundAttCompensation: number = 0;
+  // Each node has a slot in the nodes textures. Slots of dropped nodes are
+  // freed (with a null mass) and reused, and slotsCount is the number of
+  // slots used so far:
+  private slotsCount = 0;
+  private freeSlots: number[] = [];
+  private nodesCapacity = 0;
+  private edgesCapacity = 0;
+  // True when the graph structure changed since it was last read:
+  private graphDirty = false;
+  // True when some nodes attributes changed, so that some nodes might have
+  // been fixed or released:
+  private fixedNodesDirty = false;
+  // The accessors from the options (see ForceAtlas2GPUOptions):
+  private isNodeFixed: (node: string, attributes: NodeAttributes) => boolean;
+  private getEdgeWeight: EdgeMapper<number, NodeAttributes, EdgeAttributes>;
+  private getNodeMass: NodeMassMapper<NodeAttributes>;
+  private getNodeSize: (node: string, attributes: NodeAttributes) => number;
+  private getNodePosition: NodePositionGetter<NodeAttributes>;
+  private positionAttributes: PositionAttributes;
+  // Nodes pinned with setNodePosition (until they are released):
+  private pinnedNodes = new Set<string>();
+  private syncingPositions = false;
   private nodeDataCache: Record<
     string,
     {
@@ -61,82 +283,220 @@ export class ForceAtlas2GPU {
   private nodesMetadataArray: Float32Array = new Float32Array();
   private edgesArray: Float32Array = new Float32Array();
 
-  // Programs:
-  private fa2Program: WebCLProgram<
-    | "nodesPosition"
-    | "nodesMovement"
-    | "nodesMetadata"
-    | "edges"
-    | "boundaries"
-    | "centroidsPosition"
-    | "centroidsOffsets"
-    | "nodesInCentroids"
-    | "closestCentroid"
-    | "quadTree",
-    "nodesPosition" | "nodesMovement"
-  >;
+  // Programs (or the CPU backend, that replaces all of them):
+  private fa2Program!: ForceAtlas2Program;
+  private convergence!: ConvergenceGPU;
+  private cpu: ForceAtlas2CPU | null = null;
   private quadTree?: QuadTreeGPU;
+  private barnesHut?: BarnesHutGPU;
   private kMeans?: KMeansGPU;
   private kMeansGrouped?: KMeansGroupedGPU;
 
-  constructor(graph: ForceAtlas2Graph, params: Partial<ForceAtlas2Settings> = {}) {
+  // WebGL context loss management:
+  private options: ForceAtlas2GPUOptions<NodeAttributes, EdgeAttributes>;
+  private contextLost = false;
+  // Iterations to run again once the context is restored (null when the
+  // layout was not running when the context got lost):
+  private iterationsToResume: null | number = null;
+  // Rejects the pending runAsync runs (see kill):
+  private pendingRunsAborts = new Set<() => void>();
+
+  constructor(
+    graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>,
+    params: Partial<ForceAtlas2Settings> = {},
+    options: ForceAtlas2GPUOptions<NodeAttributes, EdgeAttributes> = {},
+  ) {
+    super();
+
     // Initialize data:
     this.graph = graph;
-    this.params = {
-      ...DEFAULT_FORCE_ATLAS_2_SETTINGS,
-      ...params,
-    };
+    this.options = options;
+
+    // Initialize WebGL2 context (the given one, or a dedicated one), unless
+    // the layout runs on the CPU (some settings are validated against the
+    // device limits):
+    const { gl, getContext, canvas, contextAttributes, backend = "auto" } = options;
+    if (gl || getContext) {
+      this.gl = gl || (getContext as () => WebGL2RenderingContext)();
+      this.canvas = this.gl.canvas;
+      this.sharedContext = true;
+    } else if (backend !== "cpu") {
+      try {
+        ({ gl: this.gl, canvas: this.canvas } = setupWebGL2Context({ canvas, contextAttributes }));
+        this.sharedContext = !!canvas;
+      } catch (error) {
+        if (backend === "gpu") throw error;
+      }
+    }
+
+    try {
+      this.params = this.resolveSettings({
+        ...DEFAULT_FORCE_ATLAS_2_SETTINGS,
+        ...params,
+      });
+    } catch (error) {
+      this.releaseContext();
+      throw error;
+    }
     this.nodeDataCache = {};
 
-    let { repulsion } = this.params;
+    const { getNodeFixed = "fixed" } = options;
+    let isNodeFixed: (node: string, attributes: NodeAttributes) => boolean;
+    if (typeof getNodeFixed === "function") isNodeFixed = getNodeFixed;
+    else if (getNodeFixed === null) isNodeFixed = () => false;
+    else isNodeFixed = (_node, attributes) => !!attributes[getNodeFixed];
+    this.isNodeFixed = (node, attributes) => this.pinnedNodes.has(node) || isNodeFixed(node, attributes);
+
+    const { getEdgeWeight = "weight" } = options;
+    if (typeof getEdgeWeight === "function") this.getEdgeWeight = getEdgeWeight;
+    else if (getEdgeWeight === null) this.getEdgeWeight = () => 1;
+    else this.getEdgeWeight = (_edge, attributes) => attributes[getEdgeWeight];
+
+    const { getNodeMass = null } = options;
+    if (typeof getNodeMass === "function") this.getNodeMass = getNodeMass;
+    else if (getNodeMass === null) this.getNodeMass = getDefaultNodeMass;
+    else
+      this.getNodeMass = (node, attributes, ...degrees) =>
+        attributes[getNodeMass] ?? getDefaultNodeMass(node, attributes, ...degrees);
+
+    const { getNodeSize = "size" } = options;
+    if (typeof getNodeSize === "function") this.getNodeSize = getNodeSize;
+    else if (getNodeSize === null) this.getNodeSize = () => 1;
+    else this.getNodeSize = (_node, attributes) => attributes[getNodeSize] ?? 1;
+
+    const { positionAttributes = { x: "x", y: "y" }, getNodePosition = null } = options;
+    this.positionAttributes = positionAttributes;
+    if (getNodePosition) this.getNodePosition = getNodePosition;
+    else
+      this.getNodePosition = (_node, attributes) => ({
+        x: attributes[positionAttributes.x],
+        y: attributes[positionAttributes.y],
+      });
+
+    this.readGraph();
+    GRAPH_STRUCTURE_EVENTS.forEach((event) => graph.on(event, this.handleGraphChange));
+    graph.on("nodeAttributesUpdated", this.handleNodeAttributesUpdate);
+    graph.on("eachNodeAttributesUpdated", this.handleEachNodeAttributesUpdate);
+
+    this.canvas?.addEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas?.addEventListener("webglcontextrestored", this.handleContextRestored);
+
+    // Initialize programs:
+    this.withGLState(() => this.createPrograms());
+  }
+
+  /**
+   * Releases a dedicated context right away, instead of waiting for the
+   * garbage collector (browsers only allow a few live contexts at once):
+   */
+  private releaseContext() {
+    if (!this.sharedContext && this.gl && this.canvas) {
+      this.gl.getExtension("WEBGL_lose_context")?.loseContext();
+      if ("remove" in this.canvas) this.canvas.remove();
+    }
+  }
+
+  /**
+   * Validates the settings, and resolves the repulsion ones that have
+   * defaults depending on the graph:
+   */
+  private resolveSettings(settings: ForceAtlas2Settings): ForceAtlas2Settings {
+    const { repulsion, directedAttraction, margin, seed } = settings;
+    if (!(margin >= 0) || !Number.isFinite(margin)) throw new Error("The margin must be a non-negative number");
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xffff)
+      throw new Error("The seed must be an integer from 0 to 65535");
+    if (directedAttraction) {
+      const { inbound = 1, outbound = 1 } = directedAttraction;
+      if (!(inbound >= 0) || !(outbound >= 0) || !Number.isFinite(inbound) || !Number.isFinite(outbound))
+        throw new Error("Directed attraction multipliers must be non-negative numbers");
+    }
     if (repulsion.type === "k-means") {
       if (repulsion.centroids < 1) throw new Error("K-means must have at least 1 centroid");
       if (repulsion.steps < 1) throw new Error("K-means must have at least 1 step");
     } else if (repulsion.type === "quad-tree") {
       // Resolve the depth once, so that the shader and the quadtree always
       // agree:
-      const depth = repulsion.depth ?? getDefaultQuadTreeDepth(graph.order);
-      if (depth < 1 || depth > 12) throw new Error("Quadtree depth must be between 1 and 12");
+      const depth = repulsion.depth ?? getDefaultQuadTreeDepth(this.graph.order);
+      // (without any context, it is checked against the lowest WebGL2
+      // limits)
+      const maxDepth = getQuadTreeMaxDepth(getQuadTreeDeviceLimits(this.gl), {
+        adjustSizes: settings.adjustSizes,
+        quadrupole: repulsion.quadrupole,
+      });
+      if (depth < 1 || depth > maxDepth)
+        throw new Error(`Quadtree depth must be between 1 and ${maxDepth} on this device`);
       // Lower thetas mean wider per-level neighborhoods, whose cost grows as
       // 1/theta^2 (theta=1 reads 27 cells per level, theta=0.25 reads 243):
       const theta = repulsion.theta ?? 1;
       if (theta < 0.25 || theta > 1) throw new Error("Quadtree theta must be between 0.25 and 1");
-      repulsion = { ...repulsion, depth, theta };
-      this.params = { ...this.params, repulsion };
+      return { ...settings, repulsion: { ...repulsion, depth, theta } };
+    } else if (repulsion.type === "barnes-hut") {
+      const theta = repulsion.theta ?? 0.5;
+      if (!(theta > 0) || !Number.isFinite(theta)) throw new Error("Barnes-Hut theta must be a positive number");
+      return { ...settings, repulsion: { ...repulsion, theta } };
     }
 
-    this.readGraph();
+    return settings;
+  }
 
-    // Initialize WebGL2 context:
-    this.canvas = document.createElement("canvas");
-    this.canvas.width = 1;
-    this.canvas.height = 1;
-    const gl = this.canvas.getContext("webgl2");
-    if (!gl) throw new Error("WebGL2 is not supported in this browser.");
-    this.gl = gl;
+  /**
+   * Runs some GPU work. When the context is shared, the GL state is saved
+   * before, and restored after, so that a host renderer is left intact.
+   */
+  private withGLState<T>(fn: () => T): T {
+    const { gl } = this;
+    if (!this.sharedContext || !gl) return fn();
 
-    // Check for required extension
-    const ext = gl.getExtension("EXT_color_buffer_float");
-    if (!ext) {
-      throw new Error("EXT_color_buffer_float extension not supported");
+    const state = saveGLState(gl, TEXTURE_UNITS_COUNT);
+    resetGLState(gl);
+    try {
+      return fn();
+    } finally {
+      restoreGLState(gl, state);
     }
+  }
+
+  /**
+   * Creates the ForceAtlas2 program, and only the repulsion programs that are
+   * needed. This runs once at construction, and again each time the WebGL
+   * context is restored (all GPU objects are lost with the context). When
+   * the GPU can't run the layout (see the "backend" option), the CPU backend
+   * is created instead.
+   */
+  private createPrograms() {
+    const { gl, params, nodesCapacity, edgesCapacity } = this;
+    const { repulsion } = params;
+    const { backend = "auto" } = this.options;
+
+    this.uploaded = false;
+    const missingExtensions = gl ? getMissingExtensions(gl, params) : [];
+    if (!gl || backend === "cpu" || (backend === "auto" && missingExtensions.length)) {
+      this.cpu = new ForceAtlas2CPU({ nodesCapacity, edgesCapacity, settings: params });
+      return;
+    }
+    this.cpu = null;
+    if (missingExtensions.length) throw new Error(`${missingExtensions.join(", ")} extension not supported`);
 
-    // Initialize programs:
     const kMeansCentroidsCount = repulsion.type === "k-means" ? repulsion.centroids : 1;
-    this.fa2Program = new WebCLProgram({
+    const fa2Program: ForceAtlas2Program = new WebCLProgram({
       gl,
       name: "ForceAtlas2",
-      fragments: this.graph.order,
+      fragments: nodesCapacity,
       fragmentShaderSource: getForceAtlas2FragmentShader({
-        ...this.params,
-        graph,
+        ...params,
+        nodesCapacity,
+        edgesCapacity,
+        quadTreeTileSize:
+          repulsion.type === "quad-tree"
+            ? getQuadTreeTileSize(repulsion.depth as number, getQuadTreeDeviceLimits(gl).maxTextureSize)
+            : undefined,
       }),
       vertexShaderSource: getVertexShader(),
       dataTextures: [
-        { name: "nodesPosition", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesPosition, items: graph.order },
-        { name: "nodesMovement", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMovement, items: graph.order },
-        { name: "nodesMetadata", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMetadata, items: graph.order },
-        { name: "edges", attributesPerItem: ATTRIBUTES_PER_ITEM.edges, items: graph.size },
+        { name: "nodesPosition", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesPosition, items: nodesCapacity },
+        { name: "nodesMovement", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMovement, items: nodesCapacity },
+        { name: "nodesMetadata", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMetadata, items: nodesCapacity },
+        { name: "edges", attributesPerItem: ATTRIBUTES_PER_ITEM.edges, items: edgesCapacity },
         // Quad-tree:
         { name: "boundaries", attributesPerItem: ATTRIBUTES_PER_ITEM.boundaries, items: 1 },
         // K-means:
@@ -151,127 +511,733 @@ export class ForceAtlas2GPU {
           attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsOffsets,
           items: kMeansCentroidsCount,
         },
-        { name: "nodesInCentroids", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesInCentroids, items: graph.order },
-        { name: "closestCentroid", attributesPerItem: ATTRIBUTES_PER_ITEM.closestCentroid, items: graph.order },
-        // Quad-tree (the texture is a non-square atlas, wired directly):
-        { name: "quadTree", attributesPerItem: ATTRIBUTES_PER_ITEM.quadTree, items: 1 },
+        // K-means-grouped, with adjustSizes:
+        {
+          name: "centroidsRadius",
+          attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsRadius,
+          items: kMeansCentroidsCount,
+        },
+        { name: "nodesInCentroids", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesInCentroids, items: nodesCapacity },
+        { name: "closestCentroid", attributesPerItem: ATTRIBUTES_PER_ITEM.closestCentroid, items: nodesCapacity },
+        // Quad-tree (the textures are atlases in textures arrays, wired
+        // directly):
+        {
+          name: "quadTree",
+          attributesPerItem: ATTRIBUTES_PER_ITEM.quadTree,
+          items: 1,
+          target: gl.TEXTURE_2D_ARRAY,
+        },
+        // Quad-tree, with adjustSizes:
+        {
+          name: "quadTreeSizes",
+          attributesPerItem: ATTRIBUTES_PER_ITEM.quadTreeSizes,
+          items: 1,
+          target: gl.TEXTURE_2D_ARRAY,
+        },
+        { name: "nodesInCells", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesInCells, items: nodesCapacity },
+        { name: "nodesCell", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesCell, items: nodesCapacity },
+        // Quad-tree, with quadrupole:
+        {
+          name: "quadTreeMoments",
+          attributesPerItem: ATTRIBUTES_PER_ITEM.quadTreeMoments,
+          items: 1,
+          target: gl.TEXTURE_2D_ARRAY,
+        },
+        // Barnes-Hut:
+        { name: "treeNodes", attributesPerItem: ATTRIBUTES_PER_ITEM.treeNodes, items: nodesCapacity },
+        { name: "treeCells", attributesPerItem: ATTRIBUTES_PER_ITEM.treeCells, items: nodesCapacity },
+        { name: "nodesInLeaves", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesInLeaves, items: nodesCapacity },
+        { name: "nodesCode", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesCode, items: nodesCapacity },
+        // Barnes-Hut, with adjustSizes:
+        { name: "treeCellsSizes", attributesPerItem: ATTRIBUTES_PER_ITEM.treeCellsSizes, items: nodesCapacity },
+        // Global speed (wired directly, see runIteration):
+        { name: "globalSpeed", attributesPerItem: ATTRIBUTES_PER_ITEM.globalSpeed, items: 1 },
       ],
       outputTextures: [
         { name: "nodesPosition", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesPosition },
         { name: "nodesMovement", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMovement },
+        { name: "nodesConvergence", attributesPerItem: ATTRIBUTES_PER_ITEM.nodesConvergence },
       ],
     });
 
+    // The swinging and traction sums are always available (they are cheap),
+    // for the adaptive speed and the convergence detection:
+    this.convergence = new ConvergenceGPU(gl, {
+      nodesCount: nodesCapacity,
+      nodesTexture: fa2Program.outputTexturesIndex.nodesConvergence.texture,
+    });
+
     // Initialize only the repulsion method that's needed:
     if (repulsion.type === "quad-tree") {
-      this.quadTree = new QuadTreeGPU(this.gl, { nodesCount: graph.order }, { depth: repulsion.depth as number });
-      this.fa2Program.dataTexturesIndex.quadTree.texture = this.quadTree.getAtlasTexture();
-      this.fa2Program.dataTexturesIndex.boundaries.texture = this.quadTree.getBoundariesTexture();
+      this.quadTree = new QuadTreeGPU(
+        gl,
+        { nodesCount: nodesCapacity },
+        { depth: repulsion.depth as number, adjustSizes: params.adjustSizes, quadrupole: repulsion.quadrupole },
+      );
+      fa2Program.dataTexturesIndex.quadTree.texture = this.quadTree.getAtlasTexture();
+      fa2Program.dataTexturesIndex.boundaries.texture = this.quadTree.getBoundariesTexture();
+      if (params.adjustSizes) {
+        fa2Program.dataTexturesIndex.quadTreeSizes.texture = this.quadTree.getSizesTexture() as WebGLTexture;
+        fa2Program.dataTexturesIndex.nodesInCells.texture = this.quadTree.getNodesInCellsTexture() as WebGLTexture;
+        fa2Program.dataTexturesIndex.nodesCell.texture = this.quadTree.getNodesCellTexture() as WebGLTexture;
+      }
+      if (repulsion.quadrupole) {
+        fa2Program.dataTexturesIndex.quadTreeMoments.texture = this.quadTree.getMomentsTexture() as WebGLTexture;
+      }
+    } else if (repulsion.type === "barnes-hut") {
+      this.barnesHut = new BarnesHutGPU(gl, { nodesCount: nodesCapacity }, { adjustSizes: params.adjustSizes });
+      fa2Program.dataTexturesIndex.boundaries.texture = this.barnesHut.getBoundariesTexture();
+      fa2Program.dataTexturesIndex.treeNodes.texture = this.barnesHut.getTreeNodesTexture();
+      fa2Program.dataTexturesIndex.treeCells.texture = this.barnesHut.getTreeCellsTexture();
+      fa2Program.dataTexturesIndex.nodesInLeaves.texture = this.barnesHut.getNodesInLeavesTexture();
+      fa2Program.dataTexturesIndex.nodesCode.texture = this.barnesHut.getNodesCodeTexture();
+      if (params.adjustSizes)
+        fa2Program.dataTexturesIndex.treeCellsSizes.texture = this.barnesHut.getTreeCellsSizesTexture() as WebGLTexture;
     } else if (repulsion.type === "k-means") {
-      if (repulsion.nodeToNodeRepulsion) {
-        this.kMeansGrouped = new KMeansGroupedGPU(this.gl, {
-          nodesCount: graph.order,
+      if (isKMeansGrouped(params)) {
+        this.kMeansGrouped = new KMeansGroupedGPU(gl, {
+          nodesCount: nodesCapacity,
           centroidsCount: kMeansCentroidsCount,
-          debug: this.params.debug,
+          debug: params.debug,
+          adjustSizes: params.adjustSizes,
         });
-        this.fa2Program.dataTexturesIndex.centroidsPosition.texture = this.kMeansGrouped.getCentroidsPosition();
-        this.fa2Program.dataTexturesIndex.centroidsOffsets.texture = this.kMeansGrouped.getCentroidsOffsets();
-        this.fa2Program.dataTexturesIndex.nodesInCentroids.texture = this.kMeansGrouped.getNodesInCentroids();
-        this.fa2Program.dataTexturesIndex.closestCentroid.texture = this.kMeansGrouped.getClosestCentroid();
+        fa2Program.dataTexturesIndex.centroidsPosition.texture = this.kMeansGrouped.getCentroidsPosition();
+        fa2Program.dataTexturesIndex.centroidsOffsets.texture = this.kMeansGrouped.getCentroidsOffsets();
+        fa2Program.dataTexturesIndex.nodesInCentroids.texture = this.kMeansGrouped.getNodesInCentroids();
+        fa2Program.dataTexturesIndex.closestCentroid.texture = this.kMeansGrouped.getClosestCentroid();
+        if (params.adjustSizes)
+          fa2Program.dataTexturesIndex.centroidsRadius.texture =
+            this.kMeansGrouped.getCentroidsRadius() as WebGLTexture;
       } else {
-        this.kMeans = new KMeansGPU(this.gl, {
-          nodesCount: graph.order,
+        this.kMeans = new KMeansGPU(gl, {
+          nodesCount: nodesCapacity,
           centroidsCount: kMeansCentroidsCount,
-          debug: this.params.debug,
+          debug: params.debug,
         });
-        this.fa2Program.dataTexturesIndex.centroidsPosition.texture = this.kMeans.getCentroidsPosition();
+        fa2Program.dataTexturesIndex.centroidsPosition.texture = this.kMeans.getCentroidsPosition();
       }
     }
+
+    this.fa2Program = fa2Program;
+  }
+
+  /**
+   * Rebuilds all programs, and uploads the graph data arrays (including the
+   * positions and movements ones, see readLayoutState) into them:
+   */
+  private rebuildPrograms() {
+    this.killPrograms();
+    this.createPrograms();
+    this.uploadGraph();
+  }
+
+  /**
+   * The layout data (positions, movements, metadata and edges) and the
+   * convergence state, driven the same way on both backends:
+   */
+  private getLayoutData(): LayoutData {
+    return this.cpu || this.fa2Program;
+  }
+  private getConvergenceState(): ConvergenceState {
+    return this.cpu || this.convergence;
   }
 
-  private readGraph() {
+  /**
+   * Reads the current positions, movements and global speed back from the
+   * GPU (this blocks until the pending iterations are done), so that a
+   * running layout goes on where it was once the programs are rebuilt. The
+   * arrays are sized after the current capacity, which can be larger than
+   * the programs one.
+   */
+  private readLayoutState() {
+    this.speedState = this.getConvergenceState().getSpeed();
+    const nodesPosition = this.getLayoutData().getInput("nodesPosition");
+    const nodesMovement = this.getLayoutData().getInput("nodesMovement");
+    this.nodesPositionArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesPosition * this.nodesCapacity);
+    this.nodesMovementArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMovement * this.nodesCapacity);
+    this.nodesPositionArray.set(nodesPosition);
+    this.nodesMovementArray.set(nodesMovement);
+  }
+
+  private killPrograms() {
+    if (this.cpu) {
+      this.cpu.kill();
+      this.cpu = null;
+      return;
+    }
+
+    this.fa2Program.kill();
+    this.convergence.kill();
+    this.quadTree?.kill();
+    this.barnesHut?.kill();
+    this.kMeans?.kill();
+    this.kMeansGrouped?.kill();
+    this.quadTree = undefined;
+    this.barnesHut = undefined;
+    this.kMeans = undefined;
+    this.kMeansGrouped = undefined;
+  }
+
+  /**
+   * When the context is lost, all GPU objects are gone, and no command can
+   * run anymore: the loop is paused, and the positions stay as they were at
+   * the last sync in the graphology instance.
+   */
+  private handleContextLost = (event: Event) => {
+    // Tell the browser the context should be restored:
+    event.preventDefault();
+    // (the CPU backend does not need the context)
+    if (this.killed || this.cpu) return;
+
+    this.contextLost = true;
+    if (this.animationFrameID !== null) {
+      cancelAnimationFrame(this.animationFrameID);
+      this.animationFrameID = null;
+    }
+    this.iterationsToResume = this.running ? this.remainingIterations : null;
+    this.running = false;
+    this.syncPending = false;
+    // Fences and programs died with the context, there is nothing to delete:
+    this.batchFences = [];
+
+    this.options.onContextLost?.();
+    this.emit("contextLost");
+  };
+
+  /**
+   * When the context is restored, all programs and textures are rebuilt, and
+   * the layout resumes (from the graphology positions) if it was running.
+   */
+  private handleContextRestored = () => {
+    if (this.killed || this.cpu) return;
+
+    this.contextLost = false;
+    this.quadTree = undefined;
+    this.barnesHut = undefined;
+    this.kMeans = undefined;
+    this.kMeansGrouped = undefined;
+    try {
+      this.withGLState(() => this.createPrograms());
+    } catch (error) {
+      this.iterationsToResume = null;
+      this.handleError(error);
+      return;
+    }
+
+    this.options.onContextRestored?.();
+    this.emit("contextRestored");
+
+    const iterations = this.iterationsToResume;
+    this.iterationsToResume = null;
+    if (iterations !== null) this.start(iterations);
+  };
+
+  /**
+   * Graph structure changes are only flagged here, and applied once per frame
+   * (see applyGraphChanges), or on the next start:
+   */
+  private handleGraphChange = () => {
+    this.graphDirty = true;
+  };
+
+  /**
+   * Same for the nodes fixed flags (see updateFixedNodes). When they are
+   * read from an attribute, only the updates that can touch it matter:
+   */
+  private handleNodeAttributesUpdate = (payload: AttributeUpdatePayload) => {
+    const { getNodeFixed = "fixed" } = this.options;
+    if (typeof getNodeFixed === "string") {
+      if ((payload.type === "set" || payload.type === "remove") && payload.name !== getNodeFixed) return;
+      if (payload.type === "merge" && !(getNodeFixed in payload.data)) return;
+    }
+    this.fixedNodesDirty = true;
+  };
+  private handleEachNodeAttributesUpdate = ({ hints }: { hints: { attributes?: (keyof NodeAttributes)[] } | null }) => {
+    // The layout's own positions syncs don't change anything:
+    if (this.syncingPositions) return;
+
+    const { getNodeFixed = "fixed" } = this.options;
+    if (typeof getNodeFixed === "string" && hints?.attributes && !hints.attributes.includes(getNodeFixed)) return;
+    this.fixedNodesDirty = true;
+  };
+
+  /**
+   * Writes the fixed flag of a single node, in the nodes metadata array and
+   * texture:
+   */
+  private writeFixedFlag(node: string) {
+    const { index } = this.nodeDataCache[node];
+    const fixed = this.isNodeFixed(node, this.graph.getNodeAttributes(node)) ? 1 : 0;
+    this.nodesMetadataArray[index * ATTRIBUTES_PER_ITEM.nodesMetadata + 3] = fixed;
+    this.getLayoutData().writeTexels(
+      "nodesMetadata",
+      [{ index, values: [0, 0, 0, fixed] }],
+      [false, false, false, true],
+    );
+  }
+
+  /**
+   * Reads the nodes fixed flags again, and uploads the nodes metadata if any
+   * of them changed:
+   */
+  private updateFixedNodes() {
+    this.fixedNodesDirty = false;
+
+    let hasChanged = false;
+    this.graph.forEachNode((node, attributes) => {
+      const nodeData = this.nodeDataCache[node];
+      if (!nodeData) return;
+
+      const k = nodeData.index * ATTRIBUTES_PER_ITEM.nodesMetadata + 3;
+      const fixed = this.isNodeFixed(node, attributes) ? 1 : 0;
+      if (this.nodesMetadataArray[k] !== fixed) {
+        this.nodesMetadataArray[k] = fixed;
+        hasChanged = true;
+      }
+    });
+
+    if (hasChanged) this.getLayoutData().setTextureData("nodesMetadata", this.nodesMetadataArray, this.nodesCapacity);
+  }
+
+  /**
+   * Grows the capacities when the graph does not fit in them anymore (they
+   * never shrink), given the count of edges texels (see indexEdges). Returns
+   * true if they did grow, in which case the programs must be rebuilt.
+   */
+  private growCapacities(edgesCount: number): boolean {
+    if (this.slotsCount <= this.nodesCapacity && edgesCount <= this.edgesCapacity) return false;
+
+    this.nodesCapacity = Math.max(this.nodesCapacity, getCapacity(this.slotsCount));
+    this.edgesCapacity = Math.max(this.edgesCapacity, getCapacity(edgesCount));
+    return true;
+  }
+
+  /**
+   * Returns the nodes in the order they take their slots in. In deterministic
+   * mode, this is the order of their keys (and the slots are compacted again
+   * on each graph change, see reorderSlots), since the GPU sums follow the
+   * slots order: the layout then only depends on the graph content, and not
+   * on the order the nodes and edges were added in.
+   */
+  private getNodesInSlotsOrder(): string[] {
+    const nodes = this.graph.nodes();
+    return this.params.deterministic ? nodes.sort() : nodes;
+  }
+
+  /**
+   * Indexes the graph from scratch (with contiguous slots), and builds all
+   * the data arrays from the graphology attributes. Returns true if the
+   * capacities had to grow.
+   */
+  private readGraph(): boolean {
     const { graph } = this;
-    const neighborsPerSource: { weight: number; index: number }[][] = [];
 
     // Index nodes per order:
     this.nodeDataCache = {};
-    graph.nodes().forEach((node, i) => {
+    this.getNodesInSlotsOrder().forEach((node, i) => {
       this.nodeDataCache[node] = {
         index: i,
         mass: 1,
         convergence: 1,
       };
-
-      neighborsPerSource[i] = [];
     });
-
-    // Index edges per sources and targets:
-    graph.forEachEdge((_edge, attr, source, target) => {
-      const weight = attr.weight || 1;
-      const sourceIndex = this.nodeDataCache[source].index;
-      const targetIndex = this.nodeDataCache[target].index;
-
-      neighborsPerSource[sourceIndex].push({ weight, index: targetIndex });
-      neighborsPerSource[targetIndex].push({ weight, index: sourceIndex });
-      this.nodeDataCache[source].mass += weight;
-      this.nodeDataCache[target].mass += weight;
+    this.slotsCount = graph.order;
+    this.freeSlots = [];
+    this.pinnedNodes.forEach((node) => {
+      if (!graph.hasNode(node)) this.pinnedNodes.delete(node);
     });
+    this.graphDirty = false;
+    this.fixedNodesDirty = false;
 
-    const nodesTextureSize = getTextureSize(graph.order);
-    const edgesTextureSize = getTextureSize(graph.size * 2);
-    this.nodesPositionArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesPosition * nodesTextureSize ** 2);
-    this.nodesMovementArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMovement * nodesTextureSize ** 2);
-    this.nodesMetadataArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMetadata * nodesTextureSize ** 2);
-    this.edgesArray = new Float32Array(ATTRIBUTES_PER_ITEM.edges * edgesTextureSize ** 2);
+    const indexedEdges = this.indexEdges();
+    const grew = this.growCapacities(indexedEdges.count);
+    this.readGraphStructure(indexedEdges);
 
-    let k = 0;
-    let edgeIndex = 0;
-    this.maxNeighborsCount = 0;
-    this.outboundAttCompensation = 0;
-    graph.forEachNode((node, { x, y, size }: { x: number; y: number; size: number }) => {
+    this.nodesPositionArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesPosition * this.nodesCapacity);
+    this.nodesMovementArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMovement * this.nodesCapacity);
+    graph.forEachNode((node, attributes) => {
       const { index, mass, convergence } = this.nodeDataCache[node];
-      const neighbors = neighborsPerSource[index];
-      const neighborsCount = neighbors.length;
-      this.maxNeighborsCount = Math.max(this.maxNeighborsCount, neighborsCount);
+      const { x, y } = this.getNodePosition(node, attributes);
 
-      k = index * ATTRIBUTES_PER_ITEM.nodesPosition;
+      let k = index * ATTRIBUTES_PER_ITEM.nodesPosition;
       this.nodesPositionArray[k++] = x;
       this.nodesPositionArray[k++] = y;
       this.nodesPositionArray[k++] = mass;
-      this.outboundAttCompensation += mass;
 
       k = index * ATTRIBUTES_PER_ITEM.nodesMovement;
       this.nodesMovementArray[k++] = 0;
       this.nodesMovementArray[k++] = 0;
       this.nodesMovementArray[k++] = convergence;
+    });
+
+    return grew;
+  }
+
+  /**
+   * Indexes the edges per node slot, as the neighbors lists the edges
+   * texture is built from (see readGraphStructure), and the degrees the
+   * masses are computed from:
+   * - Self-loops only count in the degrees ("mass-only"), or not at all
+   *   ("ignore"), since they can't attract their node
+   * - Parallel edges (in multi graphs) are aggregated first, following the
+   *   parallelEdges setting
+   * - The directedAttraction setting gives each neighbor an attraction
+   *   multiplier
+   */
+  private indexEdges(): IndexedEdges {
+    const { graph, nodeDataCache } = this;
+    const { directedAttraction, selfLoops, parallelEdges, signedEdges } = this.params;
+    const indexedEdges: IndexedEdges = { neighborsPerSlot: [], degreesPerSlot: [], count: 0 };
+    const { neighborsPerSlot, degreesPerSlot } = indexedEdges;
+
+    graph.forEachNode((node) => {
+      neighborsPerSlot[nodeDataCache[node].index] = [];
+      degreesPerSlot[nodeDataCache[node].index] = [0, 0, 0];
+    });
+
+    const indexEdge = (source: string, target: string, weight: number, undirected: boolean) => {
+      const sourceIndex = nodeDataCache[source].index;
+      const targetIndex = nodeDataCache[target].index;
+      const sourceDegrees = degreesPerSlot[sourceIndex];
+      const targetDegrees = degreesPerSlot[targetIndex];
+      const absoluteWeight = Math.abs(weight);
+      sourceDegrees[0]++;
+      sourceDegrees[1] += absoluteWeight;
+      sourceDegrees[2] += absoluteWeight;
+      targetDegrees[0]++;
+      targetDegrees[1] += absoluteWeight;
+      if (sourceIndex === targetIndex || weight === 0) return;
+
+      if (undirected || !directedAttraction) {
+        targetDegrees[2] += absoluteWeight;
+        neighborsPerSlot[sourceIndex].push({ weight, multiplier: 1, index: targetIndex });
+        neighborsPerSlot[targetIndex].push({ weight, multiplier: 1, index: sourceIndex });
+        indexedEdges.count += 2;
+        return;
+      }
+
+      const { inbound = 1, outbound = 1, reciprocal = "twice" } = directedAttraction;
+      neighborsPerSlot[sourceIndex].push({ weight, multiplier: outbound, index: targetIndex });
+      indexedEdges.count++;
+      if (reciprocal === "twice" || !graph.hasDirectedEdge(target, source)) {
+        neighborsPerSlot[targetIndex].push({ weight, multiplier: inbound, index: sourceIndex });
+        indexedEdges.count++;
+      }
+    };
+
+    // Parallel edges are keyed by their extremities (and type):
+    const aggregatedEdges = new Map<
+      string,
+      { source: string; target: string; undirected: boolean; weight: number; count: number }
+    >();
+    graph.forEachEdge((edge, attributes, source, target, sourceAttributes, targetAttributes, undirected) => {
+      if (source === target && selfLoops === "ignore") return;
+      // Edges without a (finite) weight weigh 1:
+      let weight = this.getEdgeWeight(edge, attributes, source, target, sourceAttributes, targetAttributes, undirected);
+      if (!Number.isFinite(weight)) weight = 1;
+      if (weight < 0 && !signedEdges)
+        throw new Error(
+          `ForceAtlas2GPU: the weight of the edge "${edge}" is negative (got ${weight}), see signedEdges.`,
+        );
+      if (!graph.multi) return indexEdge(source, target, weight, undirected);
+
+      const key = JSON.stringify(undirected && source > target ? [true, target, source] : [undirected, source, target]);
+      const aggregatedEdge = aggregatedEdges.get(key);
+      if (!aggregatedEdge) aggregatedEdges.set(key, { source, target, undirected, weight, count: 1 });
+      else {
+        aggregatedEdge.count++;
+        if (parallelEdges === "sum" || parallelEdges === "mean") aggregatedEdge.weight += weight;
+        else if (parallelEdges === "max") aggregatedEdge.weight = Math.max(aggregatedEdge.weight, weight);
+      }
+    });
+    aggregatedEdges.forEach(({ source, target, undirected, weight, count }) =>
+      indexEdge(source, target, parallelEdges === "mean" ? weight / count : weight, undirected),
+    );
+
+    // The attraction is summed over the neighbors in order, which must not
+    // depend on the edges order in deterministic mode:
+    if (this.params.deterministic)
+      neighborsPerSlot.forEach((neighbors) =>
+        neighbors.sort((a, b) => a.index - b.index || a.weight - b.weight || a.multiplier - b.multiplier),
+      );
+
+    return indexedEdges;
+  }
+
+  /**
+   * Computes the nodes masses, and builds the nodes metadata and edges arrays
+   * (the neighbors of each node are stored contiguously, as (index, weight,
+   * attraction multiplier) triplets) from the current nodes slots:
+   */
+  private readGraphStructure({ neighborsPerSlot, degreesPerSlot }: IndexedEdges) {
+    const { graph, nodeDataCache } = this;
+    const { directedAttraction, outboundAttractionDistribution } = this.params;
+
+    this.nodesMetadataArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMetadata * this.nodesCapacity);
+    this.edgesArray = new Float32Array(ATTRIBUTES_PER_ITEM.edges * this.edgesCapacity);
+
+    // The shader divides the attraction by the mass with
+    // outboundAttractionDistribution, so distributing it on the out-degrees
+    // instead goes through the multipliers:
+    const outDegreeDistribution = outboundAttractionDistribution && !!directedAttraction?.outDegreeDistribution;
+
+    let k = 0;
+    let edgeIndex = 0;
+    this.outboundAttCompensation = 0;
+    this.getNodesInSlotsOrder().forEach((node) => {
+      const attributes = graph.getNodeAttributes(node);
+      const nodeData = nodeDataCache[node];
+      const { index } = nodeData;
+      const neighbors = neighborsPerSlot[index];
+      const neighborsCount = neighbors.length;
+      const [degree, weightedDegree, weightedOutDegree] = degreesPerSlot[index];
+
+      // Null masses mark free slots, so masses must be positive:
+      const mass = this.getNodeMass(node, attributes, degree, weightedDegree);
+      if (!(mass > 0) || !Number.isFinite(mass))
+        throw new Error(`ForceAtlas2GPU: the mass of the node "${node}" must be a positive number (got ${mass}).`);
+      nodeData.mass = mass;
+      this.outboundAttCompensation += outDegreeDistribution ? 1 + weightedOutDegree : mass;
+      const distribution = outDegreeDistribution ? mass / (1 + weightedOutDegree) : 1;
 
       k = index * ATTRIBUTES_PER_ITEM.nodesMetadata;
-      this.nodesMetadataArray[k++] = size;
+      this.nodesMetadataArray[k++] = this.getNodeSize(node, attributes);
       this.nodesMetadataArray[k++] = edgeIndex;
       this.nodesMetadataArray[k++] = neighborsCount;
+      this.nodesMetadataArray[k++] = this.isNodeFixed(node, attributes) ? 1 : 0;
 
       for (let j = 0; j < neighborsCount; j++) {
-        const { weight = 1, index } = neighbors[j];
+        const { weight, multiplier, index } = neighbors[j];
         k = edgeIndex * ATTRIBUTES_PER_ITEM.edges;
         this.edgesArray[k++] = index;
         this.edgesArray[k++] = weight;
+        this.edgesArray[k++] = multiplier * distribution;
         edgeIndex++;
       }
     });
 
-    this.outboundAttCompensation /= graph.order;
+    if (graph.order) this.outboundAttCompensation /= graph.order;
+  }
+
+  /**
+   * Returns an initial position for a node added while the layout runs:
+   * its own if it has one, or else next to its already placed neighbors (or
+   * to the origin), with some jitter so that nodes never overlap exactly.
+   */
+  private getNewNodePosition(node: string): [number, number] {
+    const { graph } = this;
+    const { x, y } = this.getNodePosition(node, graph.getNodeAttributes(node));
+    if (Number.isFinite(x) && Number.isFinite(y)) return [x, y];
+
+    let neighborsCount = 0;
+    let xSum = 0;
+    let ySum = 0;
+    graph.forEachNeighbor(node, (neighbor, attributes) => {
+      if (!this.nodeDataCache[neighbor]) return;
+      const position = this.getNodePosition(neighbor, attributes);
+      if (!Number.isFinite(position.x) || !Number.isFinite(position.y)) return;
+      neighborsCount++;
+      xSum += position.x;
+      ySum += position.y;
+    });
+
+    const random = this.params.deterministic ? getStringHash(node, this.params.seed) : Math.random();
+    const angle = random * 2 * Math.PI;
+    const center = neighborsCount ? [xSum / neighborsCount, ySum / neighborsCount] : [0, 0];
+    return [center[0] + Math.cos(angle), center[1] + Math.sin(angle)];
+  }
+
+  /**
+   * Applies the graph structure changes to the running layout, without
+   * resetting it: existing nodes keep their slots, positions and movement
+   * state. Dropped nodes free their slots, new nodes take free slots, and
+   * only the texels that changed are written (plus the CPU-built metadata
+   * and edges textures, which the shader never writes). The programs are
+   * only rebuilt (with a synchronous readback of the positions and
+   * movements) when the graph does not fit in the capacities anymore.
+   */
+  private applyGraphChanges() {
+    const { graph } = this;
+    const layoutData = this.getLayoutData();
+    this.graphDirty = false;
+
+    // A pending readback would map positions to the previous slots:
+    layoutData.cancelAsyncRead();
+    this.syncPending = false;
+
+    if (this.params.deterministic) {
+      this.reorderSlots();
+      return;
+    }
+
+    // 1. Free the slots of dropped nodes:
+    const previousMasses: Record<string, number> = {};
+    const freedSlots: number[] = [];
+    for (const node in this.nodeDataCache) {
+      const { index, mass } = this.nodeDataCache[node];
+      if (graph.hasNode(node)) {
+        previousMasses[node] = mass;
+      } else {
+        freedSlots.push(index);
+        this.pinnedNodes.delete(node);
+        delete this.nodeDataCache[node];
+      }
+    }
+    this.freeSlots.push(...freedSlots);
+
+    // 2. Index new nodes:
+    const addedNodes: string[] = [];
+    graph.forEachNode((node) => {
+      if (this.nodeDataCache[node]) return;
+      const index = this.freeSlots.length ? (this.freeSlots.pop() as number) : this.slotsCount++;
+      this.nodeDataCache[node] = { index, mass: 1, convergence: 1 };
+      addedNodes.push(node);
+    });
+
+    const indexedEdges = this.indexEdges();
+    const grew = this.growCapacities(indexedEdges.count);
+    this.readGraphStructure(indexedEdges);
+
+    // 3. List the texels to write:
+    const clearedTexels = freedSlots.map((index) => ({ index, values: [0, 0, 0, 0] }));
+    const addedPositionTexels = addedNodes.map((node) => {
+      const { index, mass } = this.nodeDataCache[node];
+      return { index, values: [...this.getNewNodePosition(node), mass, 0] };
+    });
+    const addedMovementTexels = addedNodes.map((node) => {
+      const { index, convergence } = this.nodeDataCache[node];
+      return { index, values: [0, 0, convergence, 0] };
+    });
+    const massTexels: { index: number; values: number[] }[] = [];
+    for (const node in previousMasses) {
+      const { index, mass } = this.nodeDataCache[node];
+      if (mass !== previousMasses[node]) massTexels.push({ index, values: [0, 0, mass, 0] });
+    }
+
+    // 4.a. The graph does not fit anymore: read the current positions and
+    //      movements back, patch them on the CPU, and rebuild everything:
+    if (grew) {
+      this.readLayoutState();
+
+      clearedTexels.forEach(({ index, values }) => {
+        this.nodesPositionArray.set(values, index * ATTRIBUTES_PER_ITEM.nodesPosition);
+        this.nodesMovementArray.set(values, index * ATTRIBUTES_PER_ITEM.nodesMovement);
+      });
+      addedPositionTexels.forEach(({ index, values }) =>
+        this.nodesPositionArray.set(values, index * ATTRIBUTES_PER_ITEM.nodesPosition),
+      );
+      addedMovementTexels.forEach(({ index, values }) =>
+        this.nodesMovementArray.set(values, index * ATTRIBUTES_PER_ITEM.nodesMovement),
+      );
+      massTexels.forEach(({ index, values }) => {
+        this.nodesPositionArray[index * ATTRIBUTES_PER_ITEM.nodesPosition + 2] = values[2];
+      });
+
+      this.rebuildPrograms();
+      return;
+    }
+
+    // 4.b. Else, patch the textures in place:
+    layoutData.writeTexels("nodesPosition", [...clearedTexels, ...addedPositionTexels]);
+    layoutData.writeTexels("nodesMovement", [...clearedTexels, ...addedMovementTexels]);
+    layoutData.writeTexels("nodesPosition", massTexels, [false, false, true, false]);
+    layoutData.setTextureData("nodesMetadata", this.nodesMetadataArray, this.nodesCapacity);
+    layoutData.setTextureData("edges", this.edgesArray, this.edgesCapacity);
+  }
+
+  /**
+   * Applies the graph structure changes in deterministic mode: the slots
+   * must follow the nodes keys (see getNodesInSlotsOrder), so instead of
+   * reusing free slots, all nodes are indexed again, and their positions
+   * and movements are read back, moved to their new slots and uploaded
+   * again (like in resetLayout, but from the current state).
+   */
+  private reorderSlots() {
+    const { graph } = this;
+    this.readLayoutState();
+    const previousNodeDataCache = this.nodeDataCache;
+    const previousPositions = this.nodesPositionArray;
+    const previousMovements = this.nodesMovementArray;
+
+    this.nodeDataCache = {};
+    this.getNodesInSlotsOrder().forEach((node, index) => {
+      this.nodeDataCache[node] = { index, mass: 1, convergence: 1 };
+    });
+    this.slotsCount = graph.order;
+    this.freeSlots = [];
+    this.pinnedNodes.forEach((node) => {
+      if (!graph.hasNode(node)) this.pinnedNodes.delete(node);
+    });
+
+    const indexedEdges = this.indexEdges();
+    const grew = this.growCapacities(indexedEdges.count);
+    this.readGraphStructure(indexedEdges);
+
+    this.nodesPositionArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesPosition * this.nodesCapacity);
+    this.nodesMovementArray = new Float32Array(ATTRIBUTES_PER_ITEM.nodesMovement * this.nodesCapacity);
+    for (const node in this.nodeDataCache) {
+      const { index, mass, convergence } = this.nodeDataCache[node];
+      const positionOffset = index * ATTRIBUTES_PER_ITEM.nodesPosition;
+      const movementOffset = index * ATTRIBUTES_PER_ITEM.nodesMovement;
+      const previousIndex = previousNodeDataCache[node]?.index;
+
+      if (previousIndex === undefined) {
+        this.nodesPositionArray.set([...this.getNewNodePosition(node), mass, 0], positionOffset);
+        this.nodesMovementArray.set([0, 0, convergence, 0], movementOffset);
+        continue;
+      }
+
+      const previousPositionOffset = previousIndex * ATTRIBUTES_PER_ITEM.nodesPosition;
+      const previousMovementOffset = previousIndex * ATTRIBUTES_PER_ITEM.nodesMovement;
+      this.nodesPositionArray.set(
+        previousPositions.subarray(previousPositionOffset, previousPositionOffset + ATTRIBUTES_PER_ITEM.nodesPosition),
+        positionOffset,
+      );
+      this.nodesPositionArray[positionOffset + 2] = mass;
+      this.nodesMovementArray.set(
+        previousMovements.subarray(previousMovementOffset, previousMovementOffset + ATTRIBUTES_PER_ITEM.nodesMovement),
+        movementOffset,
+      );
+    }
+
+    if (grew) this.rebuildPrograms();
+    else this.uploadGraph();
   }
 
   private applyNodesPositions(nodesPosition: Float32Array) {
-    this.graph.updateEachNodeAttributes(
-      (node, attributes) => {
-        const { index } = this.nodeDataCache[node];
-        attributes.x = nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index];
-        attributes.y = nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index + 1];
-        return attributes;
-      },
-      { attributes: ["x", "y"] },
-    );
+    this.syncingPositions = true;
+    try {
+      this.graph.updateEachNodeAttributes(
+        (node, attributes) => {
+          // Nodes added since the last graph changes were applied have no slot yet:
+          const nodeData = this.nodeDataCache[node];
+          if (!nodeData) return attributes;
+
+          const { index } = nodeData;
+          return this.writeNodePosition(
+            attributes,
+            nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index],
+            nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index + 1],
+          );
+        },
+        { attributes: [this.positionAttributes.x, this.positionAttributes.y] },
+      );
+    } finally {
+      this.syncingPositions = false;
+    }
+
+    this.emit("sync", { totalIterations: this.totalIterations });
+  }
+
+  /**
+   * Writes a position in some node attributes, under the positionAttributes
+   * keys:
+   */
+  private writeNodePosition(attributes: NodeAttributes, x: number, y: number): NodeAttributes {
+    const target: Attributes = attributes;
+    target[this.positionAttributes.x] = x;
+    target[this.positionAttributes.y] = y;
+    return attributes;
   }
 
   private swapFA2Textures() {
@@ -280,50 +1246,100 @@ export class ForceAtlas2GPU {
     fa2Program.swapTextures("nodesMovement", "nodesMovement");
   }
 
-  private runIteration() {
+  /**
+   * Runs one iteration. With updateConvergence, the swinging and traction of
+   * the nodes are summed afterwards, and the global speed is updated if it is
+   * adaptive:
+   */
+  private runIteration(updateConvergence: boolean) {
     const { fa2Program, params } = this;
-    const { repulsion } = params;
+    const { repulsion, seed } = params;
+    const iterationCount = this.getIterationCount();
+
+    if (this.cpu) {
+      this.cpu.runIteration({
+        iterationCount,
+        outboundAttCompensation: this.outboundAttCompensation,
+        updateConvergence,
+      });
+      this.totalIterations++;
+      this.layoutIterations++;
+      return;
+    }
 
     // Compute additional repulsion structures if needed:
     if (repulsion.type === "quad-tree") {
-      this.quadTree!.wireTextures(fa2Program.dataTexturesIndex.nodesPosition.texture);
+      this.quadTree!.wireTextures(
+        fa2Program.dataTexturesIndex.nodesPosition.texture,
+        fa2Program.dataTexturesIndex.nodesMetadata.texture,
+      );
       this.quadTree!.compute();
-      fa2Program.activate();
+    } else if (repulsion.type === "barnes-hut") {
+      this.barnesHut!.wireTextures(
+        fa2Program.dataTexturesIndex.nodesPosition.texture,
+        fa2Program.dataTexturesIndex.nodesMetadata.texture,
+      );
+      this.barnesHut!.compute();
     } else if (repulsion.type === "k-means") {
       // Only recompute centroids based on centroidUpdateInterval
-      if (this.totalIterations % repulsion.centroidUpdateInterval === 0) {
-        if (repulsion.nodeToNodeRepulsion) {
-          this.kMeansGrouped!.wireTextures(fa2Program.dataTexturesIndex.nodesPosition.texture);
+      if (iterationCount % repulsion.centroidUpdateInterval === 0) {
+        if (isKMeansGrouped(params)) {
+          this.kMeansGrouped!.wireTextures(
+            fa2Program.dataTexturesIndex.nodesPosition.texture,
+            fa2Program.dataTexturesIndex.nodesMetadata.texture,
+          );
           this.kMeansGrouped!.compute({
             steps: repulsion.steps,
             reinitialize: repulsion.resetCentroids,
-            iterationCount: this.totalIterations,
+            iterationCount,
+            seed,
           });
         } else {
           this.kMeans!.wireTextures(fa2Program.dataTexturesIndex.nodesPosition.texture);
           this.kMeans!.compute({
             steps: repulsion.steps,
             reinitialize: repulsion.resetCentroids,
-            iterationCount: this.totalIterations,
+            iterationCount,
+            seed,
           });
         }
       }
-      fa2Program.activate();
     }
 
+    // Always reactivate the program, since the state might have changed since
+    // the last iteration (sub-programs, or a host renderer sharing the context):
+    fa2Program.activate();
     fa2Program.setUniforms({
       edgeWeightInfluence: params.edgeWeightInfluence,
       scalingRatio: params.scalingRatio,
       gravity: params.gravity,
       maxForce: params.maxForce,
       slowDown: params.slowDown,
+      seed,
+      margin: params.margin,
       outboundAttCompensation: this.outboundAttCompensation,
     });
+    // The speed texture is ping-ponged by each update:
+    fa2Program.dataTexturesIndex.globalSpeed.texture = this.convergence.getSpeedTexture();
     fa2Program.prepare();
     fa2Program.compute();
+
+    if (updateConvergence) {
+      this.convergence.compute({ jitterTolerance: params.jitterTolerance, updateSpeed: params.adaptiveSpeed });
+    }
     this.swapFA2Textures();
 
     this.totalIterations++;
+    this.layoutIterations++;
+  }
+
+  /**
+   * Returns the iterations count the k-means updates are based on: in
+   * deterministic mode, it only counts the iterations since the layout was
+   * reset, so that it does not depend on the previous runs:
+   */
+  private getIterationCount(): number {
+    return this.params.deterministic ? this.layoutIterations : this.totalIterations;
   }
 
   /**
@@ -337,15 +1353,50 @@ export class ForceAtlas2GPU {
   private runFrame() {
     if (!this.running) return;
 
-    const { gl, fa2Program, params } = this;
-    const { iterationsPerFrame, syncInterval } = params;
+    try {
+      this.withGLState(() => this.processFrame());
+    } catch (error) {
+      this.handleError(error);
+      return;
+    }
+    if (this.running) this.animationFrameID = requestAnimationFrame(() => this.runFrame());
+  }
+
+  private processFrame() {
+    // 0. Apply the graph structure changes since the last frame, if any (this
+    //    might rebuild the programs):
+    if (this.graphDirty) this.applyGraphChanges();
+    if (this.fixedNodesDirty) this.updateFixedNodes();
 
-    // 1. Reap the fences of the batches the GPU has finished:
-    this.batchFences = this.batchFences.filter((fence) => {
-      if (gl.clientWaitSync(fence, 0, 0) === gl.TIMEOUT_EXPIRED) return true;
-      gl.deleteSync(fence);
-      return false;
-    });
+    const { gl, params } = this;
+    const layoutData = this.getLayoutData();
+    const convergence = this.getConvergenceState();
+    const { iterationsPerFrame, syncInterval, adaptiveSpeed, stopWhenConverged } = params;
+    const trackConvergence = stopWhenConverged || this.listenerCount("converged") > 0;
+
+    // 1. Reap the fences of the batches the GPU has finished (there are none
+    //    on the CPU, where iterations are done as soon as they are issued):
+    if (gl) {
+      this.batchFences = this.batchFences.filter((fence) => {
+        if (gl.clientWaitSync(fence, 0, 0) === gl.TIMEOUT_EXPIRED) return true;
+        gl.deleteSync(fence);
+        return false;
+      });
+    }
+
+    // 1.b. Check whether the layout has settled, from the last sums read back:
+    const sums = convergence.pollAsyncRead();
+    if (sums && trackConvergence && !this.converged) {
+      const [, , displacement, movingNodesCount] = sums;
+      if (!movingNodesCount || displacement / movingNodesCount < params.convergenceThreshold) {
+        this.converged = true;
+        this.emit("converged", { totalIterations: this.totalIterations });
+        if (stopWhenConverged) {
+          this.finishRun();
+          return;
+        }
+      }
+    }
 
     // 2. Issue a new batch of iterations, but only if the GPU keeps up
     //    (backpressure). When it doesn't, skip this frame: the main thread
@@ -354,12 +1405,18 @@ export class ForceAtlas2GPU {
     if (this.batchFences.length < ForceAtlas2GPU.MAX_PENDING_BATCHES) {
       let count = iterationsPerFrame;
       if (this.remainingIterations >= 0) count = Math.min(count, this.remainingIterations);
-      for (let i = 0; i < count; i++) this.runIteration();
+      // The sums are needed after each iteration for the adaptive speed, but
+      // only once per batch to detect the convergence:
+      for (let i = 0; i < count; i++) this.runIteration(adaptiveSpeed || (trackConvergence && i === count - 1));
       if (this.remainingIterations > 0) this.remainingIterations -= count;
 
       if (count > 0) {
-        this.batchFences.push(gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0) as WebGLSync);
-        gl.flush();
+        if (trackConvergence && !this.converged) convergence.startAsyncRead();
+        if (gl && !this.cpu) {
+          this.batchFences.push(gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0) as WebGLSync);
+          gl.flush();
+        }
+        this.emit("iterationBatch", { iterations: count, totalIterations: this.totalIterations });
       }
     }
 
@@ -372,7 +1429,7 @@ export class ForceAtlas2GPU {
 
     // 4. Poll the pending readback, if any:
     if (this.syncPending) {
-      const nodesPosition = fa2Program.pollAsyncDataRead();
+      const nodesPosition = layoutData.pollAsyncDataRead();
       if (nodesPosition) {
         this.applyNodesPositions(nodesPosition);
         this.syncPending = false;
@@ -382,95 +1439,672 @@ export class ForceAtlas2GPU {
 
     // 5. Maybe enqueue a fresh readback:
     if (!this.syncPending && performance.now() - this.lastSyncTime >= syncInterval) {
-      this.syncPending = fa2Program.startAsyncDataRead("nodesPosition");
+      this.syncPending = layoutData.startAsyncDataRead("nodesPosition");
     }
-
-    this.animationFrameID = window.requestAnimationFrame(() => this.runFrame());
   }
 
   private clearBatchFences() {
-    this.batchFences.forEach((fence) => this.gl.deleteSync(fence));
+    this.batchFences.forEach((fence) => this.gl?.deleteSync(fence));
     this.batchFences = [];
   }
 
+  /**
+   * Tells whether the next iterations go on from the data on the GPU (the
+   * layout runs, or a state was restored), rather than from the graph (see
+   * prepareRun):
+   */
+  private hasLiveLayoutData(): boolean {
+    return !this.contextLost && (this.running || (this.resumeState && this.uploaded));
+  }
+
+  private assertAlive() {
+    if (this.killed) throw new Error("ForceAtlas2GPU: this instance was killed, and cannot be used anymore.");
+  }
+
   private finishRun() {
+    if (this.graphDirty) this.applyGraphChanges();
     this.clearBatchFences();
-    this.fa2Program.cancelAsyncRead();
+    this.getLayoutData().cancelAsyncRead();
+    this.getConvergenceState().cancelAsyncRead();
     this.syncPending = false;
-    this.applyNodesPositions(this.fa2Program.getInput("nodesPosition"));
     this.running = false;
     this.animationFrameID = null;
+    this.applyNodesPositions(this.getLayoutData().getInput("nodesPosition"));
+    this.emit("stop");
   }
 
   /**
-   * Public API:
-   * ***********
+   * Errors thrown while the layout runs (in an animation frame, or when the
+   * context is restored) stop it, and are emitted as "error" events. Like
+   * with NodeJS emitters, they are thrown when nobody listens.
    */
-  public start(iterations = -1) {
-    // Cancel any previously scheduled frame, so two loops never run at once:
+  private handleError(error: unknown) {
     if (this.animationFrameID !== null) {
-      window.cancelAnimationFrame(this.animationFrameID);
+      cancelAnimationFrame(this.animationFrameID);
       this.animationFrameID = null;
     }
+    this.running = false;
+    this.syncPending = false;
+    this.clearBatchFences();
 
-    this.readGraph();
+    if (!this.listenerCount("error")) throw error;
+    this.emit("error", error instanceof Error ? error : new Error(String(error)));
+  }
 
-    this.remainingIterations = iterations;
-    this.running = true;
-    this.lastSyncTime = performance.now();
-    this.syncPending = false;
+  /**
+   * Uploads the graph data to the GPU, and initializes the repulsion
+   * structures:
+   */
+  private uploadGraph() {
+    const layoutData = this.getLayoutData();
+    const convergence = this.getConvergenceState();
     this.clearBatchFences();
-    this.fa2Program.cancelAsyncRead();
-    this.fa2Program.setTextureData("nodesPosition", this.nodesPositionArray, this.graph.order);
-    this.fa2Program.setTextureData("nodesMovement", this.nodesMovementArray, this.graph.order);
-    this.fa2Program.setTextureData("nodesMetadata", this.nodesMetadataArray, this.graph.order);
-    this.fa2Program.setTextureData("edges", this.edgesArray, this.graph.size * 2);
+    layoutData.cancelAsyncRead();
+    convergence.cancelAsyncRead();
+    convergence.setSpeed(...this.speedState);
+    layoutData.setTextureData("nodesPosition", this.nodesPositionArray, this.nodesCapacity);
+    layoutData.setTextureData("nodesMovement", this.nodesMovementArray, this.nodesCapacity);
+    layoutData.setTextureData("nodesMetadata", this.nodesMetadataArray, this.nodesCapacity);
+    layoutData.setTextureData("edges", this.edgesArray, this.edgesCapacity);
+    this.uploaded = true;
+
+    if (this.cpu) {
+      this.cpu.initialize();
+      return;
+    }
 
     if (this.params.repulsion.type === "quad-tree") {
       // Wire nodes texture BEFORE initializing
-      this.quadTree!.wireTextures(this.fa2Program.dataTexturesIndex.nodesPosition.texture);
+      this.quadTree!.wireTextures(
+        this.fa2Program.dataTexturesIndex.nodesPosition.texture,
+        this.fa2Program.dataTexturesIndex.nodesMetadata.texture,
+      );
+    } else if (this.params.repulsion.type === "barnes-hut") {
+      this.barnesHut!.wireTextures(
+        this.fa2Program.dataTexturesIndex.nodesPosition.texture,
+        this.fa2Program.dataTexturesIndex.nodesMetadata.texture,
+      );
     } else if (this.params.repulsion.type === "k-means") {
-      if (this.params.repulsion.nodeToNodeRepulsion) {
+      if (isKMeansGrouped(this.params)) {
         // Wire nodes texture and initialize centroids
-        this.kMeansGrouped!.wireTextures(this.fa2Program.dataTexturesIndex.nodesPosition.texture);
-        this.kMeansGrouped!.initialize();
+        this.kMeansGrouped!.wireTextures(
+          this.fa2Program.dataTexturesIndex.nodesPosition.texture,
+          this.fa2Program.dataTexturesIndex.nodesMetadata.texture,
+        );
+        this.kMeansGrouped!.initialize(0, this.params.seed);
         // Run initial clustering to set up all textures
         this.kMeansGrouped!.compute({ steps: this.params.repulsion.steps });
       } else {
         // Wire nodes texture and initialize centroids
         this.kMeans!.wireTextures(this.fa2Program.dataTexturesIndex.nodesPosition.texture);
-        this.kMeans!.initialize();
+        this.kMeans!.initialize(0, this.params.seed);
       }
     }
+  }
+
+  /**
+   * Reads the whole graph again, and uploads it (the programs are only
+   * rebuilt if it grew out of the capacities), with a fresh global speed:
+   */
+  private resetLayout() {
+    this.speedState = [1, 1];
+    this.layoutIterations = 0;
+    this.converged = false;
+    this.resumeState = false;
+    if (this.readGraph()) this.rebuildPrograms();
+    else this.uploadGraph();
+  }
+
+  /**
+   * Prepares a new run: the layout is reset, unless a state was restored
+   * since the last run (the graph changes since then are applied though):
+   */
+  private prepareRun() {
+    // (the programs might have been rebuilt since, on a context restoration)
+    if (!this.resumeState || !this.uploaded) {
+      this.resetLayout();
+      return;
+    }
+
+    this.resumeState = false;
+    this.converged = false;
+    if (this.graphDirty) this.applyGraphChanges();
+    if (this.fixedNodesDirty) this.updateFixedNodes();
+  }
+
+  /**
+   * Reads the initial k-means centroids, as (x, y, mass, count) per
+   * centroid (null without k-means):
+   */
+  private getInitialCentroids(): Float32Array | null {
+    const { repulsion } = this.params;
+    if (repulsion.type !== "k-means") return null;
+    if (this.cpu) return this.cpu.getInitialCentroids();
+
+    const kMeans = this.kMeansGrouped || (this.kMeans as KMeansGPU);
+    return new Float32Array(kMeans.getInitialCentroidsPositionData().slice(0, repulsion.centroids * 4));
+  }
+
+  /**
+   * Restores the initial k-means centroids, and computes the clusters from
+   * them right away (so that the repulsion uses them from the next
+   * iteration on):
+   */
+  private setInitialCentroids(centroids: Float32Array) {
+    const { repulsion } = this.params;
+    if (repulsion.type !== "k-means") return;
+    if (this.cpu) {
+      this.cpu.setInitialCentroids(centroids);
+      return;
+    }
 
-    this.fa2Program.activate();
+    const nodesTexture = this.fa2Program.dataTexturesIndex.nodesPosition.texture;
+    if (this.kMeansGrouped) {
+      this.kMeansGrouped.setInitialCentroidsPositionData(centroids);
+      this.kMeansGrouped.wireTextures(nodesTexture, this.fa2Program.dataTexturesIndex.nodesMetadata.texture);
+      this.kMeansGrouped.compute({ steps: repulsion.steps });
+    } else {
+      this.kMeans!.setInitialCentroidsPositionData(centroids);
+      this.kMeans!.wireTextures(nodesTexture);
+      this.kMeans!.compute({ steps: repulsion.steps });
+    }
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public start(iterations = -1) {
+    this.assertAlive();
+
+    // Nothing can run without a context: start as soon as it is restored:
+    if (this.contextLost) {
+      this.iterationsToResume = iterations;
+      return;
+    }
+
+    // Cancel any previously scheduled frame, so two loops never run at once:
+    if (this.animationFrameID !== null) {
+      cancelAnimationFrame(this.animationFrameID);
+      this.animationFrameID = null;
+    }
+
+    this.remainingIterations = iterations;
+    this.running = true;
+    this.lastSyncTime = performance.now();
+    this.syncPending = false;
+    try {
+      this.withGLState(() => this.prepareRun());
+    } catch (error) {
+      // (the graph can't be read, for instance: nothing runs)
+      this.running = false;
+      this.remainingIterations = -1;
+      throw error;
+    }
+    this.emit("start");
     this.runFrame();
   }
 
+  /**
+   * Starts the layout, and returns a handle that resolves once the run is
+   * over and the final positions are written in the graph (see
+   * ForceAtlas2Run). With no iterations count, the run only ends with stop().
+   * It rejects when the signal is aborted (the layout is then stopped), when
+   * the WebGL context is lost (the layout won't resume on restore), when an
+   * error stops the layout, or when the layout is killed.
+   */
+  public runAsync({ iterations = -1, signal }: { iterations?: number; signal?: AbortSignal } = {}): ForceAtlas2Run {
+    this.assertAlive();
+
+    return new ForceAtlas2Run((sync, resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      if (this.contextLost) return reject(new Error("ForceAtlas2GPU: the WebGL context is lost."));
+
+      const onStop = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onContextLost = () => {
+        cleanup();
+        this.iterationsToResume = null;
+        reject(new Error("ForceAtlas2GPU: the WebGL context was lost."));
+      };
+      const onAbort = () => {
+        cleanup();
+        if (!this.killed) this.stop();
+        reject(signal?.reason);
+      };
+      const onKill = () => {
+        cleanup();
+        reject(new Error("ForceAtlas2GPU: the layout was killed."));
+      };
+      const cleanup = () => {
+        this.off("sync", sync);
+        this.off("stop", onStop);
+        this.off("error", onError);
+        this.off("contextLost", onContextLost);
+        signal?.removeEventListener("abort", onAbort);
+        this.pendingRunsAborts.delete(onKill);
+      };
+
+      this.on("sync", sync);
+      this.on("stop", onStop);
+      this.on("error", onError);
+      this.on("contextLost", onContextLost);
+      signal?.addEventListener("abort", onAbort);
+      this.pendingRunsAborts.add(onKill);
+      try {
+        this.start(iterations);
+      } catch (error) {
+        cleanup();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Runs some iterations right away, and returns the resulting positions,
+   * without writing them in the graph. All the iterations are issued at
+   * once, and the CPU then waits for the GPU to be done with them: this
+   * blocks, like graphology-layout-forceatlas2's synchronous API (see
+   * forceAtlas2GPU), so prefer start or runAsync for interactive layouts.
+   */
+  public runSync(iterations: number): Record<string, { x: number; y: number }> {
+    this.assertAlive();
+    if (this.running) throw new Error("ForceAtlas2GPU: the layout is already running.");
+    if (this.contextLost) throw new Error("ForceAtlas2GPU: the WebGL context is lost.");
+
+    const nodesPosition = this.withGLState(() => {
+      this.prepareRun();
+      for (let i = 0; i < iterations; i++) this.runIteration(this.params.adaptiveSpeed);
+      return this.getLayoutData().getInput("nodesPosition");
+    });
+
+    const positions: Record<string, { x: number; y: number }> = {};
+    for (const node in this.nodeDataCache) {
+      const { index } = this.nodeDataCache[node];
+      positions[node] = {
+        x: nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index],
+        y: nodesPosition[ATTRIBUTES_PER_ITEM.nodesPosition * index + 1],
+      };
+    }
+    return positions;
+  }
+
+  /**
+   * Runs some iterations on the GPU, checking each of them against the CPU
+   * backend: before each iteration, the CPU backend gets the GPU state, so
+   * that the differences never accumulate. A node fails the check when its
+   * GPU and CPU positions are further apart than tolerance times its CPU
+   * displacement (or than tolerance, for nodes that barely move). Like
+   * runSync, this blocks, and does not write the positions in the graph.
+   */
+  public compareWithCPU(
+    iterations: number,
+    { tolerance = 1e-3 }: { tolerance?: number } = {},
+  ): ForceAtlas2ToleranceReport {
+    this.assertAlive();
+    if (this.running) throw new Error("ForceAtlas2GPU: the layout is already running.");
+    if (this.contextLost) throw new Error("ForceAtlas2GPU: the WebGL context is lost.");
+    if (this.cpu) throw new Error("ForceAtlas2GPU: the layout already runs on the CPU.");
+
+    const iterationsReports = this.withGLState(() => {
+      this.resetLayout();
+
+      const { fa2Program, convergence, params, nodesCapacity, edgesCapacity } = this;
+      const cpu = new ForceAtlas2CPU({ nodesCapacity, edgesCapacity, settings: params });
+      cpu.setTextureData("nodesPosition", this.nodesPositionArray, nodesCapacity);
+      cpu.setTextureData("nodesMovement", this.nodesMovementArray, nodesCapacity);
+      cpu.setTextureData("nodesMetadata", this.nodesMetadataArray, nodesCapacity);
+      cpu.setTextureData("edges", this.edgesArray, edgesCapacity);
+      cpu.initialize();
+
+      const reports: ForceAtlas2ToleranceReport["iterations"] = [];
+      for (let i = 0; i < iterations; i++) {
+        cpu.setTextureData("nodesPosition", fa2Program.getInput("nodesPosition"), nodesCapacity);
+        cpu.setTextureData("nodesMovement", fa2Program.getInput("nodesMovement"), nodesCapacity);
+        cpu.setSpeed(...convergence.getSpeed());
+
+        const iteration = this.totalIterations;
+        cpu.runIteration({
+          iterationCount: this.getIterationCount(),
+          outboundAttCompensation: this.outboundAttCompensation,
+          updateConvergence: params.adaptiveSpeed,
+        });
+        this.runIteration(params.adaptiveSpeed);
+
+        const gpuPositions = fa2Program.getInput("nodesPosition");
+        const cpuPositions = cpu.getInput("nodesPosition");
+        const cpuMovements = cpu.getInput("nodesMovement");
+        let maxError = 0;
+        let errorsSum = 0;
+        let failingNodes = 0;
+        for (const node in this.nodeDataCache) {
+          const k = this.nodeDataCache[node].index * ATTRIBUTES_PER_ITEM.nodesPosition;
+          const error = Math.hypot(gpuPositions[k] - cpuPositions[k], gpuPositions[k + 1] - cpuPositions[k + 1]);
+          const displacement = Math.hypot(cpuMovements[k], cpuMovements[k + 1]);
+          maxError = Math.max(maxError, error);
+          errorsSum += error;
+          // (NaN errors fail too)
+          if (!(error <= tolerance * Math.max(displacement, 1))) failingNodes++;
+        }
+
+        reports.push({
+          iteration,
+          maxError,
+          meanError: this.graph.order ? errorsSum / this.graph.order : 0,
+          failingNodes,
+        });
+      }
+
+      cpu.kill();
+      return reports;
+    });
+
+    return {
+      tolerance,
+      passed: iterationsReports.every(({ failingNodes }) => !failingNodes),
+      maxError: iterationsReports.reduce((max, { maxError }) => Math.max(max, maxError), 0),
+      iterations: iterationsReports,
+    };
+  }
+
+  /**
+   * Returns a snapshot of the layout session (positions, movements, global
+   * speed, initial k-means centroids, iterations count and settings), that
+   * setState can restore later, on this instance or on another one. The
+   * state is read back from the GPU, so this blocks.
+   */
+  public getState(): ForceAtlas2LayoutState {
+    this.assertAlive();
+    if (this.contextLost) throw new Error("ForceAtlas2GPU: the WebGL context is lost.");
+
+    return this.withGLState(() => {
+      // Nothing ran on the current programs yet: the state is the graph's:
+      if (!this.uploaded) this.resetLayout();
+
+      const layoutData = this.getLayoutData();
+      const nodesPosition = layoutData.getInput("nodesPosition");
+      const nodesMovement = layoutData.getInput("nodesMovement");
+      const nodes: ForceAtlas2LayoutState["nodes"] = {};
+      for (const node in this.nodeDataCache) {
+        // (dropped nodes keep their slots until the graph changes are applied)
+        if (!this.graph.hasNode(node)) continue;
+
+        const { index } = this.nodeDataCache[node];
+        const p = index * ATTRIBUTES_PER_ITEM.nodesPosition;
+        const m = index * ATTRIBUTES_PER_ITEM.nodesMovement;
+        nodes[node] = [
+          nodesPosition[p],
+          nodesPosition[p + 1],
+          nodesMovement[m],
+          nodesMovement[m + 1],
+          nodesMovement[m + 2],
+        ];
+      }
+
+      const centroids = this.getInitialCentroids();
+      return {
+        version: 1,
+        settings: { ...this.params, repulsion: { ...this.params.repulsion } },
+        totalIterations: this.totalIterations,
+        layoutIterations: this.layoutIterations,
+        speed: this.getConvergenceState().getSpeed(),
+        nodes,
+        centroids: centroids && Array.from(centroids).filter((_, i) => i % 4 < 2),
+      };
+    });
+  }
+
+  /**
+   * Restores a snapshot from getState: the nodes positions are written in
+   * the graph, and the next run (with start, runAsync or runSync) goes on
+   * from the snapshot, instead of resetting the movements and the global
+   * speed. Nodes missing from the snapshot start from their graph
+   * positions, and nodes missing from the graph are ignored.
+   */
+  public setState(state: ForceAtlas2LayoutState) {
+    this.assertAlive();
+    if (this.running) throw new Error("ForceAtlas2GPU: the layout is already running.");
+    if (this.contextLost) throw new Error("ForceAtlas2GPU: the WebGL context is lost.");
+    if (state.version !== 1) throw new Error(`ForceAtlas2GPU: unsupported layout state version "${state.version}".`);
+
+    // Validate the settings first, so that nothing changes if they are invalid:
+    const params = this.resolveSettings({ ...DEFAULT_FORCE_ATLAS_2_SETTINGS, ...state.settings });
+
+    this.syncingPositions = true;
+    try {
+      this.graph.updateEachNodeAttributes(
+        (node, attributes) => {
+          const nodeState = state.nodes[node];
+          if (!nodeState) return attributes;
+
+          return this.writeNodePosition(attributes, nodeState[0], nodeState[1]);
+        },
+        { attributes: [this.positionAttributes.x, this.positionAttributes.y] },
+      );
+    } finally {
+      this.syncingPositions = false;
+    }
+
+    this.params = params;
+    this.totalIterations = state.totalIterations;
+    this.layoutIterations = state.layoutIterations;
+    this.speedState = [state.speed[0], state.speed[1]];
+    this.converged = false;
+    this.withGLState(() => {
+      this.readGraph();
+      for (const node in state.nodes) {
+        const nodeData = this.nodeDataCache[node];
+        if (!nodeData) continue;
+
+        const [, , dx, dy, convergence] = state.nodes[node];
+        this.nodesMovementArray.set([dx, dy, convergence], nodeData.index * ATTRIBUTES_PER_ITEM.nodesMovement);
+      }
+      this.rebuildPrograms();
+
+      const { repulsion } = params;
+      if (repulsion.type === "k-means" && state.centroids?.length === repulsion.centroids * 2) {
+        const centroids = new Float32Array(repulsion.centroids * ATTRIBUTES_PER_ITEM.centroidsPosition);
+        for (let c = 0; c < repulsion.centroids; c++) {
+          centroids[c * ATTRIBUTES_PER_ITEM.centroidsPosition] = state.centroids[c * 2];
+          centroids[c * ATTRIBUTES_PER_ITEM.centroidsPosition + 1] = state.centroids[c * 2 + 1];
+        }
+        this.setInitialCentroids(centroids);
+      }
+    });
+    this.resumeState = true;
+  }
+
+  /**
+   * Updates some settings, even while the layout runs:
+   * - Settings passed to the shader as uniforms (gravity, scalingRatio,
+   *   slowDown, maxForce, edgeWeightInfluence...) apply on the next iteration
+   * - Settings compiled into the shaders (the boolean modes, and the
+   *   repulsion ones) rebuild the programs. A running layout goes on from
+   *   its current positions and movements.
+   */
+  public setSettings(settings: Partial<ForceAtlas2Settings>) {
+    this.assertAlive();
+
+    const previousSettings = this.params;
+    this.params = this.resolveSettings({ ...previousSettings, ...settings });
+
+    // The edges are indexed with the graph structure (see indexEdges), so it
+    // must be read again:
+    if (
+      JSON.stringify(this.params.directedAttraction) !== JSON.stringify(previousSettings.directedAttraction) ||
+      this.params.selfLoops !== previousSettings.selfLoops ||
+      this.params.parallelEdges !== previousSettings.parallelEdges ||
+      this.params.signedEdges !== previousSettings.signedEdges ||
+      this.params.deterministic !== previousSettings.deterministic ||
+      (this.params.directedAttraction &&
+        this.params.outboundAttractionDistribution !== previousSettings.outboundAttractionDistribution)
+    )
+      this.graphDirty = true;
+
+    if (getCompiledSettingsKey(this.params) === getCompiledSettingsKey(previousSettings)) return;
+
+    // Without a context, programs will be created with the new settings once
+    // it is restored:
+    if (this.contextLost) return;
+
+    this.withGLState(() => {
+      // A restored state must survive the rebuild as well:
+      if (this.running || this.resumeState) {
+        this.clearBatchFences();
+        this.getLayoutData().cancelAsyncRead();
+        this.syncPending = false;
+        this.readLayoutState();
+        this.rebuildPrograms();
+      } else {
+        this.killPrograms();
+        this.createPrograms();
+      }
+    });
+  }
+
+  /**
+   * Moves a node (while dragging it, for instance), in the graph and, if the
+   * layout runs or goes on from a restored state (see setState), directly on
+   * the GPU: only its position texel is written, and its movement is reset.
+   * With pin: true, the node stays fixed there until releaseNode is called.
+   */
+  public setNodePosition(node: string, x: number, y: number, { pin = false }: { pin?: boolean } = {}) {
+    this.assertAlive();
+    if (!this.graph.hasNode(node)) throw new Error(`ForceAtlas2GPU: the node "${node}" does not exist.`);
+
+    if (pin) this.pinnedNodes.add(node);
+    const { positionAttributes } = this;
+    this.graph.mergeNodeAttributes(node, {
+      [positionAttributes.x]: x,
+      [positionAttributes.y]: y,
+    } as Partial<NodeAttributes>);
+    if (!this.hasLiveLayoutData()) return;
+
+    this.withGLState(() => {
+      // The node might not have a slot yet:
+      if (this.graphDirty) this.applyGraphChanges();
+
+      // A pending readback would move the node back where it was:
+      const layoutData = this.getLayoutData();
+      layoutData.cancelAsyncRead();
+      this.syncPending = false;
+
+      const { index, mass, convergence } = this.nodeDataCache[node];
+      layoutData.writeTexels("nodesPosition", [{ index, values: [x, y, mass, 0] }]);
+      layoutData.writeTexels("nodesMovement", [{ index, values: [0, 0, convergence, 0] }]);
+      if (pin) this.writeFixedFlag(node);
+    });
+  }
+
+  /**
+   * Releases a node pinned with setNodePosition (it stays fixed if it is
+   * fixed in the graph, though):
+   */
+  public releaseNode(node: string) {
+    this.assertAlive();
+    if (!this.pinnedNodes.delete(node)) return;
+    if (!this.hasLiveLayoutData() || !this.nodeDataCache[node]) return;
+
+    this.withGLState(() => this.writeFixedFlag(node));
+  }
+
+  public getSettings(): ForceAtlas2Settings {
+    this.assertAlive();
+    return this.params;
+  }
+
   public stop() {
+    this.assertAlive();
+    this.iterationsToResume = null;
     if (this.animationFrameID !== null) {
-      window.cancelAnimationFrame(this.animationFrameID);
+      cancelAnimationFrame(this.animationFrameID);
       this.animationFrameID = null;
     }
-    if (this.running) this.finishRun();
+    if (this.running) this.withGLState(() => this.finishRun());
     this.running = false;
   }
 
   public run() {
+    this.assertAlive();
     this.start();
     this.stop();
   }
 
   public isRunning() {
-    return this.running;
+    this.assertAlive();
+    // A layout paused by a context loss is still considered running, since it
+    // will resume by itself once the context is restored:
+    return this.running || this.iterationsToResume !== null;
+  }
+
+  /**
+   * Tells where the iterations run (see the "backend" option):
+   */
+  public getBackend(): "gpu" | "cpu" {
+    this.assertAlive();
+    return this.cpu ? "cpu" : "gpu";
+  }
+
+  public isContextLost() {
+    this.assertAlive();
+    return this.contextLost;
   }
 
   public getTotalIterations() {
+    this.assertAlive();
     return this.totalIterations;
   }
 
+  /**
+   * Stops the layout without syncing the positions, and frees all the GPU
+   * resources (programs, textures, framebuffers, pending fences and reads,
+   * and the WebGL context itself). Any later call on this instance throws.
+   */
+  public kill() {
+    if (this.killed) return;
+
+    if (this.animationFrameID !== null) {
+      cancelAnimationFrame(this.animationFrameID);
+      this.animationFrameID = null;
+    }
+    this.running = false;
+    this.syncPending = false;
+    this.withGLState(() => {
+      this.clearBatchFences();
+      this.killPrograms();
+    });
+
+    GRAPH_STRUCTURE_EVENTS.forEach((event) => this.graph.off(event, this.handleGraphChange));
+    this.graph.off("nodeAttributesUpdated", this.handleNodeAttributesUpdate);
+    this.graph.off("eachNodeAttributesUpdated", this.handleEachNodeAttributesUpdate);
+    this.canvas?.removeEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas?.removeEventListener("webglcontextrestored", this.handleContextRestored);
+    this.iterationsToResume = null;
+
+    this.releaseContext();
+
+    this.nodeDataCache = {};
+    this.freeSlots = [];
+    this.pinnedNodes.clear();
+    this.nodesPositionArray = new Float32Array();
+    this.nodesMovementArray = new Float32Array();
+    this.nodesMetadataArray = new Float32Array();
+    this.edgesArray = new Float32Array();
+    // Settle the pending runs before their listeners are gone:
+    [...this.pendingRunsAborts].forEach((abort) => abort());
+    this.removeAllListeners();
+    this.killed = true;
+  }
+
   // Debug methods
   public getKMeans(): KMeansGPU {
+    this.assertAlive();
     if (!this.kMeans) {
       throw new Error('KMeansGPU is not initialized. Use repulsion type "k-means" to enable it.');
     }
@@ -478,18 +2112,28 @@ export class ForceAtlas2GPU {
   }
 
   public getKMeansGrouped(): KMeansGroupedGPU {
+    this.assertAlive();
     if (!this.kMeansGrouped) {
       throw new Error(
-        'KMeansGroupedGPU is not initialized. Use repulsion type "k-means" with nodeToNodeRepulsion: true to enable it.',
+        'KMeansGroupedGPU is not initialized. Use repulsion type "k-means" with nodeToNodeRepulsion (or adjustSizes) to enable it.',
       );
     }
     return this.kMeansGrouped;
   }
 
   public getQuadTree(): QuadTreeGPU {
+    this.assertAlive();
     if (!this.quadTree) {
       throw new Error('QuadTreeGPU is not initialized. Use repulsion type "quad-tree" to enable it.');
     }
     return this.quadTree;
   }
+
+  public getBarnesHut(): BarnesHutGPU {
+    this.assertAlive();
+    if (!this.barnesHut) {
+      throw new Error('BarnesHutGPU is not initialized. Use repulsion type "barnes-hut" to enable it.');
+    }
+    return this.barnesHut;
+  }
 }
@@ -0,0 +1,87 @@
+import Graph from "graphology";
+import { describe, expect, test } from "vitest";
+
+import { ForceAtlas2Graph } from "./index";
+import { forceAtlas2GPU } from "./layout";
+
+function getPathGraph(order: number): Graph {
+  const graph = new Graph();
+  for (let i = 0; i < order; i++) graph.addNode(i, { x: Math.cos(i), y: Math.sin(i), size: 1 });
+  for (let i = 1; i < order; i++) graph.addEdge(i - 1, i, { weight: i });
+  return graph;
+}
+
+describe("forceAtlas2GPU", () => {
+  test("should return the positions without touching the graph", () => {
+    const graph = getPathGraph(10);
+    const positions = forceAtlas2GPU(graph as ForceAtlas2Graph, { iterations: 10 });
+
+    expect(Object.keys(positions).sort()).toEqual(graph.nodes().sort());
+    graph.forEachNode((node, { x, y }) => {
+      expect(Number.isFinite(positions[node].x)).toBe(true);
+      expect(Number.isFinite(positions[node].y)).toBe(true);
+      expect(x).toBe(Math.cos(+node));
+      expect(y).toBe(Math.sin(+node));
+    });
+  });
+
+  test("should accept the iterations count only, and apply the outputReducer", () => {
+    const graph = getPathGraph(10);
+    const positions = forceAtlas2GPU(graph as ForceAtlas2Graph, 5);
+    const reducedPositions = forceAtlas2GPU(graph as ForceAtlas2Graph, {
+      iterations: 5,
+      outputReducer: (_node, { x, y }) => ({ x: x * 2, y: y * 2 }),
+    });
+
+    graph.forEachNode((node) => {
+      expect(reducedPositions[node].x).toBeCloseTo(positions[node].x * 2, 5);
+      expect(reducedPositions[node].y).toBeCloseTo(positions[node].y * 2, 5);
+    });
+  });
+
+  test("should honour getEdgeWeight", () => {
+    const graph = getPathGraph(10);
+    const weighted = forceAtlas2GPU(graph as ForceAtlas2Graph, { iterations: 5 });
+    const unweighted = forceAtlas2GPU(graph as ForceAtlas2Graph, { iterations: 5, getEdgeWeight: null });
+    const mapped = forceAtlas2GPU(graph as ForceAtlas2Graph, { iterations: 5, getEdgeWeight: () => 1 });
+
+    expect(mapped).toEqual(unweighted);
+    expect(weighted).not.toEqual(unweighted);
+  });
+
+  test("should write the positions in the graph with assign", () => {
+    const graph = getPathGraph(10);
+    const positions = forceAtlas2GPU(graph as ForceAtlas2Graph, 5);
+    forceAtlas2GPU.assign(graph as ForceAtlas2Graph, 5);
+
+    graph.forEachNode((node, { x, y }) => {
+      expect(x).toBeCloseTo(positions[node].x, 5);
+      expect(y).toBeCloseTo(positions[node].y, 5);
+    });
+  });
+
+  test("should write the positions under the positionAttributes with assign", () => {
+    const graph = getPathGraph(10);
+    const positions = forceAtlas2GPU(graph as ForceAtlas2Graph, 5);
+    forceAtlas2GPU.assign(graph as ForceAtlas2Graph, {
+      iterations: 5,
+      positionAttributes: { x: "layoutX", y: "layoutY" },
+    });
+
+    graph.forEachNode((node, { x, y, layoutX, layoutY }) => {
+      expect(x).toBe(Math.cos(+node));
+      expect(y).toBe(Math.sin(+node));
+      expect(layoutX).toBeCloseTo(positions[node].x, 5);
+      expect(layoutY).toBeCloseTo(positions[node].y, 5);
+    });
+  });
+
+  test("should reject invalid parameters", () => {
+    const graph = getPathGraph(10) as ForceAtlas2Graph;
+    expect(() => forceAtlas2GPU(graph, 0)).toThrow();
+    expect(() => forceAtlas2GPU(graph, 1.5)).toThrow();
+    expect(() =>
+      forceAtlas2GPU(graph, { iterations: 5, settings: { repulsion: { type: "quad-tree", depth: 20 } } }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,131 @@
+import { Attributes } from "graphology-types";
+
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "./consts";
+import { ForceAtlas2GPU, ForceAtlas2Graph } from "./index";
+import { inferSettings } from "./settings";
+import { DEFAULT_FORCE_ATLAS_2_LAYOUT_PARAMETERS, ForceAtlas2LayoutParameters } from "./types";
+
+export type ForceAtlas2LayoutMapping = Record<string, { x: number; y: number }>;
+
+export type ForceAtlas2LayoutInput<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+> =
+  | number
+  | (Partial<Omit<ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>, "settings">> & {
+      settings?: Partial<ForceAtlas2Settings>;
+    });
+
+function resolveLayoutParameters<NodeAttributes extends Attributes, EdgeAttributes extends Attributes>(
+  params: ForceAtlas2LayoutInput<NodeAttributes, EdgeAttributes> = {},
+): ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes> {
+  const {
+    iterations,
+    settings,
+    getEdgeWeight,
+    getNodeMass,
+    getNodeSize,
+    getNodePosition,
+    positionAttributes,
+    outputReducer,
+  } = {
+    ...(DEFAULT_FORCE_ATLAS_2_LAYOUT_PARAMETERS as ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>),
+    ...(typeof params === "number" ? { iterations: params } : params),
+  };
+
+  if (!Number.isInteger(iterations) || iterations <= 0)
+    throw new Error("forceAtlas2GPU: the iterations count must be a positive integer.");
+  if (outputReducer !== null && typeof outputReducer !== "function")
+    throw new Error("forceAtlas2GPU: the outputReducer must be a function.");
+
+  return {
+    iterations,
+    settings: { ...DEFAULT_FORCE_ATLAS_2_SETTINGS, ...settings },
+    getEdgeWeight,
+    getNodeMass,
+    getNodeSize,
+    getNodePosition,
+    positionAttributes,
+    outputReducer,
+  };
+}
+
+/**
+ * Runs the layout synchronously, on a dedicated WebGL context that is
+ * released right after, and returns the positions (see
+ * ForceAtlas2GPU.runSync):
+ */
+function runLayout<NodeAttributes extends Attributes, EdgeAttributes extends Attributes>(
+  graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>,
+  params: ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>,
+): ForceAtlas2LayoutMapping {
+  const { iterations, settings, getEdgeWeight, getNodeMass, getNodeSize, getNodePosition, positionAttributes } = params;
+  const fa2 = new ForceAtlas2GPU(graph, settings, {
+    getEdgeWeight,
+    getNodeMass,
+    getNodeSize,
+    getNodePosition,
+    positionAttributes,
+  });
+  try {
+    return fa2.runSync(iterations);
+  } finally {
+    fa2.kill();
+  }
+}
+
+/**
+ * Graphology-style functional API, mirroring graphology-layout-forceatlas2:
+ * returns the positions of the nodes after the given number of iterations,
+ * without touching the graph.
+ */
+export function forceAtlas2GPU<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+>(
+  graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>,
+  params?: ForceAtlas2LayoutInput<NodeAttributes, EdgeAttributes>,
+): ForceAtlas2LayoutMapping {
+  const resolvedParams = resolveLayoutParameters(params);
+  const positions = runLayout(graph, resolvedParams);
+
+  const { outputReducer } = resolvedParams;
+  if (outputReducer) {
+    for (const node in positions) positions[node] = outputReducer(node, positions[node]);
+  }
+  return positions;
+}
+
+/**
+ * Same, but writes the positions in the graph instead (under the
+ * positionAttributes keys):
+ */
+forceAtlas2GPU.assign = function assign<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+>(
+  graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>,
+  params?: ForceAtlas2LayoutInput<NodeAttributes, EdgeAttributes>,
+): void {
+  const resolvedParams = resolveLayoutParameters(params);
+  const positions = runLayout(graph, resolvedParams);
+
+  const { outputReducer, positionAttributes } = resolvedParams;
+  graph.updateEachNodeAttributes(
+    (node, attributes) => {
+      const position = positions[node];
+      if (!position) return attributes;
+
+      const target: Attributes = attributes;
+      target[positionAttributes.x] = position.x;
+      target[positionAttributes.y] = position.y;
+      return outputReducer ? outputReducer(node, attributes) : attributes;
+    },
+    { attributes: [positionAttributes.x, positionAttributes.y] },
+  );
+};
+
+/**
+ * Like in graphology-layout-forceatlas2 (see settings.ts):
+ */
+forceAtlas2GPU.inferSettings = inferSettings;
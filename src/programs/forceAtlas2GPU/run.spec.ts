@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+
+import { ForceAtlas2Run, ForceAtlas2SyncPayload } from "./run";
+
+describe("ForceAtlas2Run", () => {
+  test("should resolve, and yield all syncs before ending", async () => {
+    const run = new ForceAtlas2Run((sync, resolve) => {
+      sync({ totalIterations: 1 });
+      setTimeout(() => {
+        sync({ totalIterations: 2 });
+        resolve();
+      }, 0);
+    });
+
+    const syncs: ForceAtlas2SyncPayload[] = [];
+    for await (const payload of run) syncs.push(payload);
+
+    await expect(run).resolves.toBeUndefined();
+    expect(syncs.map(({ totalIterations }) => totalIterations)).toEqual([1, 2]);
+  });
+
+  test("should reject, and throw from the iterator", async () => {
+    const error = new Error("Aborted");
+    const run = new ForceAtlas2Run((_sync, _resolve, reject) => setTimeout(() => reject(error), 0));
+
+    await expect(run).rejects.toBe(error);
+    await expect(run[Symbol.asyncIterator]().next()).rejects.toBe(error);
+  });
+
+  test("should ignore anything after the run is settled", async () => {
+    const run = new ForceAtlas2Run((sync, resolve, reject) => {
+      resolve();
+      sync({ totalIterations: 1 });
+      reject(new Error("Too late"));
+    });
+
+    await expect(run).resolves.toBeUndefined();
+    expect(await run[Symbol.asyncIterator]().next()).toEqual({ value: undefined, done: true });
+  });
+
+  test("should reject when the executor throws", async () => {
+    const error = new Error("Cannot start");
+    const run = new ForceAtlas2Run(() => {
+      throw error;
+    });
+
+    await expect(run).rejects.toBe(error);
+    await expect(run[Symbol.asyncIterator]().next()).rejects.toBe(error);
+  });
+
+  test("should only keep the latest sync until iterated over", async () => {
+    let sync: (payload: ForceAtlas2SyncPayload) => void = () => undefined;
+    let resolve: () => void = () => undefined;
+    const run = new ForceAtlas2Run((...args) => {
+      [sync, resolve] = args;
+    });
+    for (let i = 1; i <= 100; i++) sync({ totalIterations: i });
+
+    const iterator = run[Symbol.asyncIterator]();
+    sync({ totalIterations: 101 });
+    resolve();
+
+    const syncs: ForceAtlas2SyncPayload[] = [];
+    for await (const payload of { [Symbol.asyncIterator]: () => iterator }) syncs.push(payload);
+    expect(syncs.map(({ totalIterations }) => totalIterations)).toEqual([100, 101]);
+  });
+});
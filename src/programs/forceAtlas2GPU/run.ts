@@ -0,0 +1,97 @@
+import { ForceAtlas2GPUEvents } from "./types";
+
+export type ForceAtlas2SyncPayload = Parameters<ForceAtlas2GPUEvents["sync"]>[0];
+
+/**
+ * Handle of a layout run, as returned by ForceAtlas2GPU.runAsync. It can be:
+ * - Awaited: it resolves once the run is over and the final positions are
+ *   written in the graph, and rejects if the run fails
+ * - Iterated over with "for await": it yields once per sync, and ends with
+ *   the run (breaking out of the loop does not stop the layout, use an
+ *   AbortSignal for that). Until the iteration starts, only the latest sync
+ *   is kept, so that runs that are only awaited do not pile syncs up
+ */
+export class ForceAtlas2Run implements PromiseLike<void>, AsyncIterable<ForceAtlas2SyncPayload> {
+  private promise: Promise<void>;
+  private syncs: ForceAtlas2SyncPayload[] = [];
+  private iterated = false;
+  private outcome: null | { failed: false } | { failed: true; error: unknown } = null;
+  private wakeIterator: null | (() => void) = null;
+
+  constructor(
+    executor: (
+      sync: (payload: ForceAtlas2SyncPayload) => void,
+      resolve: () => void,
+      reject: (error: unknown) => void,
+    ) => void,
+  ) {
+    this.promise = new Promise((resolve, reject) => {
+      const fail = (error: unknown) => {
+        if (this.outcome) return;
+        this.outcome = { failed: true, error };
+        this.wake();
+        reject(error);
+      };
+
+      try {
+        executor(
+          (payload) => {
+            if (this.outcome) return;
+            if (this.iterated) this.syncs.push(payload);
+            else this.syncs = [payload];
+            this.wake();
+          },
+          () => {
+            if (this.outcome) return;
+            this.outcome = { failed: false };
+            this.wake();
+            resolve();
+          },
+          fail,
+        );
+      } catch (error) {
+        fail(error);
+      }
+    });
+    // Runs that are only iterated over should not trigger unhandled
+    // rejections (the error is thrown by the iterator instead):
+    this.promise.catch(() => undefined);
+  }
+
+  private wake() {
+    const wakeIterator = this.wakeIterator;
+    this.wakeIterator = null;
+    wakeIterator?.();
+  }
+
+  public then<T = void, U = never>(
+    onFulfilled?: ((value: void) => T | PromiseLike<T>) | null,
+    onRejected?: ((reason: unknown) => U | PromiseLike<U>) | null,
+  ): Promise<T | U> {
+    return this.promise.then(onFulfilled, onRejected);
+  }
+
+  public catch<U = never>(onRejected?: ((reason: unknown) => U | PromiseLike<U>) | null): Promise<void | U> {
+    return this.promise.catch(onRejected);
+  }
+
+  public finally(onFinally?: (() => void) | null): Promise<void> {
+    return this.promise.finally(onFinally);
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<ForceAtlas2SyncPayload> {
+    this.iterated = true;
+    return {
+      next: async () => {
+        while (!this.syncs.length && !this.outcome) {
+          await new Promise<void>((resolve) => (this.wakeIterator = resolve));
+        }
+
+        const payload = this.syncs.shift();
+        if (payload) return { value: payload, done: false };
+        if (this.outcome?.failed) throw this.outcome.error;
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import Graph from "graphology";
+import { describe, expect, test } from "vitest";
+
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS } from "./consts";
+import { ForceAtlas2Preset, getPresetSettings, inferSettings } from "./settings";
+
+function getStarGraph(order: number): Graph {
+  const graph = new Graph();
+  for (let i = 0; i < order; i++) graph.addNode(i);
+  for (let i = 1; i < order; i++) graph.addEdge(0, i);
+  return graph;
+}
+
+describe("inferSettings", () => {
+  test("should use the all-pairs repulsion for small graphs", () => {
+    const settings = inferSettings(getStarGraph(100));
+
+    expect(Object.keys(settings).sort()).toEqual(Object.keys(DEFAULT_FORCE_ATLAS_2_SETTINGS).sort());
+    expect(settings.repulsion).toEqual({ type: "all-pairs" });
+    expect(settings.slowDown).toBeGreaterThan(1);
+  });
+
+  test("should use the quadtree repulsion for larger graphs", () => {
+    const settings = inferSettings(getStarGraph(5000));
+
+    expect(settings.repulsion).toMatchObject({ type: "quad-tree", theta: 0.5 });
+  });
+
+  test("should adapt gravity and slowDown to the degree distribution", () => {
+    const star = inferSettings(getStarGraph(1000));
+    const ring = new Graph();
+    for (let i = 0; i < 1000; i++) ring.addNode(i);
+    for (let i = 0; i < 1000; i++) ring.addEdge(i, (i + 1) % 1000);
+    const ringSettings = inferSettings(ring);
+
+    expect(star.gravity).toBeGreaterThan(ringSettings.gravity);
+    expect(star.slowDown).toBeGreaterThan(ringSettings.slowDown);
+  });
+});
+
+describe("getPresetSettings", () => {
+  const PRESETS: ForceAtlas2Preset[] = ["fast-preview", "quality", "huge-graph"];
+
+  test.each(PRESETS.map((preset) => ({ preset })))("$preset - should return full settings", ({ preset }) => {
+    const settings = getPresetSettings(preset);
+
+    expect(Object.keys(settings).sort()).toEqual(Object.keys(DEFAULT_FORCE_ATLAS_2_SETTINGS).sort());
+  });
+
+  test("should return fresh copies", () => {
+    const settings = getPresetSettings("quality");
+    settings.gravity = 42;
+
+    expect(getPresetSettings("quality").gravity).not.toBe(42);
+  });
+
+  test("should reject unknown presets", () => {
+    expect(() => getPresetSettings("unknown" as ForceAtlas2Preset)).toThrow();
+  });
+});
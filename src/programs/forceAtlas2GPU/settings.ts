@@ -0,0 +1,130 @@
+import Graph from "graphology";
+
+import { getDefaultQuadTreeDepth } from "../quadTreeGPU";
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "./consts";
+
+export type ForceAtlas2Preset = "fast-preview" | "quality" | "huge-graph";
+
+// Graphs up to this order use the exact all-pairs repulsion, and graphs above
+// HUGE_GRAPH_ORDER use the k-means one (the quadtree depth is capped, so that
+// its finest cells hold more and more nodes):
+const ALL_PAIRS_MAX_ORDER = 2000;
+const HUGE_GRAPH_ORDER = 200000;
+
+/**
+ * Full settings for each preset. The repulsion ones that depend on the graph
+ * (like the quadtree depth) are left to their defaults:
+ * - "fast-preview": a coarse but quick layout, that stops once it roughly
+ *   settled
+ * - "quality": a finer repulsion and a more cautious speed, that only stops
+ *   once the nodes barely move
+ * - "huge-graph": for graphs with hundreds of thousands of nodes, where each
+ *   iteration is expensive
+ */
+const PRESETS: Record<ForceAtlas2Preset, Partial<ForceAtlas2Settings>> = {
+  "fast-preview": {
+    repulsion: { type: "quad-tree", theta: 1 },
+    strongGravityMode: true,
+    gravity: 0.05,
+    scalingRatio: 10,
+    adaptiveSpeed: true,
+    jitterTolerance: 2,
+    stopWhenConverged: true,
+    convergenceThreshold: 0.1,
+    iterationsPerFrame: 20,
+    syncInterval: 100,
+  },
+  quality: {
+    repulsion: { type: "quad-tree", theta: 0.5 },
+    strongGravityMode: true,
+    gravity: 0.05,
+    scalingRatio: 10,
+    adaptiveSpeed: true,
+    jitterTolerance: 0.5,
+    stopWhenConverged: true,
+    convergenceThreshold: 0.001,
+    iterationsPerFrame: 5,
+  },
+  "huge-graph": {
+    repulsion: {
+      type: "k-means",
+      centroids: 1024,
+      steps: 1,
+      resetCentroids: false,
+      nodeToNodeRepulsion: true,
+      centroidUpdateInterval: 10,
+    },
+    strongGravityMode: true,
+    gravity: 0.05,
+    scalingRatio: 10,
+    slowDown: 10,
+    iterationsPerFrame: 1,
+    syncInterval: 1000,
+  },
+};
+
+/**
+ * Returns the full settings of a named preset:
+ */
+export function getPresetSettings(preset: ForceAtlas2Preset): ForceAtlas2Settings {
+  if (!PRESETS[preset]) throw new Error(`ForceAtlas2GPU: unknown preset "${preset}".`);
+
+  const settings = { ...DEFAULT_FORCE_ATLAS_2_SETTINGS, ...PRESETS[preset] };
+  return { ...settings, repulsion: { ...settings.repulsion } };
+}
+
+/**
+ * Infers sensible settings for a given graph, like graphology-layout-
+ * forceatlas2's inferSettings (strong gravity, and a slowDown growing with
+ * the order), but also picking the repulsion method:
+ * - The repulsion type and its parameters depend on the order
+ * - Dense graphs have strong attractions, which the scalingRatio balances
+ * - Graphs with many leaves (or isolated nodes) need more gravity, to keep
+ *   them from drifting away
+ * - Graphs with hubs (heavy-tailed degree distributions) need more slowDown,
+ *   since the hubs swing a lot
+ */
+export function inferSettings(graph: Graph): ForceAtlas2Settings {
+  const { order, size } = graph;
+
+  let maxDegree = 0;
+  let leavesCount = 0;
+  graph.forEachNode((node) => {
+    const degree = graph.degree(node);
+    maxDegree = Math.max(maxDegree, degree);
+    if (degree <= 1) leavesCount++;
+  });
+  const meanDegree = order ? (2 * size) / order : 0;
+  const leavesRatio = order ? leavesCount / order : 0;
+  const hubsRatio = meanDegree ? maxDegree / meanDegree : 1;
+
+  let repulsion: ForceAtlas2Settings["repulsion"];
+  let iterationsPerFrame: number;
+  if (order <= ALL_PAIRS_MAX_ORDER) {
+    repulsion = { type: "all-pairs" };
+    iterationsPerFrame = 20;
+  } else if (order <= HUGE_GRAPH_ORDER) {
+    repulsion = { type: "quad-tree", depth: getDefaultQuadTreeDepth(order), theta: order <= 20000 ? 0.5 : 1 };
+    iterationsPerFrame = order <= 20000 ? 10 : 3;
+  } else {
+    repulsion = {
+      type: "k-means",
+      centroids: Math.min(4096, Math.round(Math.sqrt(order))),
+      steps: 1,
+      resetCentroids: false,
+      nodeToNodeRepulsion: true,
+      centroidUpdateInterval: 5,
+    };
+    iterationsPerFrame = 1;
+  }
+
+  return {
+    ...DEFAULT_FORCE_ATLAS_2_SETTINGS,
+    repulsion,
+    iterationsPerFrame,
+    strongGravityMode: true,
+    gravity: leavesRatio > 0.3 ? 0.1 : 0.05,
+    scalingRatio: 10 * Math.max(1, Math.sqrt(meanDegree / 10)),
+    slowDown: (1 + Math.log(Math.max(order, 1))) * (hubsRatio > 50 ? 2 : 1),
+  };
+}
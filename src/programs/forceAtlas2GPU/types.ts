@@ -1,20 +1,220 @@
-import { Attributes, EdgeMapper } from "graphology-types";
+import { Attributes, EdgeMapper, SerializedGraph } from "graphology-types";
 
+import { WebGL2ContextAttributes } from "../../utils/webgl";
 import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "./consts";
 
+/**
+ * Returns the mass of a node, from its degree and its weighted degree (the sum
+ * of its edges weights):
+ */
+export type NodeMassMapper<NodeAttributes extends Attributes = Attributes> = (
+  node: string,
+  attributes: NodeAttributes,
+  degree: number,
+  weightedDegree: number,
+) => number;
+
+/**
+ * Returns the position of a node, from its attributes:
+ */
+export type NodePositionGetter<NodeAttributes extends Attributes = Attributes> = (
+  node: string,
+  attributes: NodeAttributes,
+) => { x: number; y: number };
+
+/**
+ * The node attributes the layout writes the positions in:
+ */
+export type PositionAttributes = { x: string; y: string };
+
 export type ForceAtlas2LayoutParameters<
   NodeAttributes extends Attributes = Attributes,
   EdgeAttributes extends Attributes = Attributes,
 > = {
   settings: ForceAtlas2Settings;
   getEdgeWeight: keyof EdgeAttributes | EdgeMapper<number, NodeAttributes, EdgeAttributes> | null;
+  getNodeMass: keyof NodeAttributes | NodeMassMapper<NodeAttributes> | null;
+  getNodeSize: keyof NodeAttributes | ((node: string, attributes: NodeAttributes) => number) | null;
+  getNodePosition: NodePositionGetter<NodeAttributes> | null;
+  positionAttributes: PositionAttributes;
   outputReducer: null | ((key: string, attributes: any) => any);
   iterations: number;
 };
 
+/**
+ * Options of a ForceAtlas2GPU instance that are not layout settings:
+ */
+export type ForceAtlas2GPUOptions<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+> = {
+  // The WebGL2 context to run the layout on, given directly or through a
+  // factory (to share it with a renderer, for instance). The GL state is then
+  // saved and restored around each GPU work, and the context is not destroyed
+  // on kill:
+  gl?: WebGL2RenderingContext;
+  getContext?: () => WebGL2RenderingContext;
+  // Else, the canvas to get a context from (a dedicated canvas by default,
+  // or an OffscreenCanvas where there is no document), with these attributes:
+  canvas?: HTMLCanvasElement | OffscreenCanvas;
+  contextAttributes?: WebGL2ContextAttributes;
+  // Where the iterations run: "gpu", "cpu" (see ForceAtlas2CPU, which is
+  // much slower), or "auto" (the default) to fall back on the CPU when
+  // WebGL2 or the float textures extensions the settings need are missing:
+  backend?: "auto" | "gpu" | "cpu";
+  // Called when the WebGL context is lost (the layout pauses), and when it is
+  // restored (all programs are rebuilt, and the layout resumes if it was
+  // running):
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
+  // Tells which nodes are fixed (they still attract and repel the others,
+  // but never move): the name of a node attribute ("fixed" by default, like
+  // in graphology-layout-forceatlas2), a function, or null so that all nodes
+  // move. Updates of the attributes are applied while the layout runs:
+  getNodeFixed?: string | ((node: string, attributes: NodeAttributes) => boolean) | null;
+  // Tells the weight of each edge: the name of an edge attribute ("weight" by
+  // default), a function, or null so that all edges weigh 1:
+  getEdgeWeight?: ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>["getEdgeWeight"];
+  // Tells the mass of each node, which scales its repulsion (and its
+  // attraction, with outboundAttractionDistribution): the name of a node
+  // attribute (nodes without it get the default mass), a function, or null
+  // (the default) for 1 + its weighted degree, like in
+  // graphology-layout-forceatlas2. Masses must be positive, and they are read
+  // with the graph structure (when the layout starts, and when the structure
+  // changes):
+  getNodeMass?: ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>["getNodeMass"];
+  // Tells the size of each node (only used with adjustSizes): the name of a
+  // node attribute ("size" by default, nodes without it have a size of 1), a
+  // function, or null so that all nodes have a size of 1:
+  getNodeSize?: ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>["getNodeSize"];
+  // The node attributes the positions are written in ({ x: "x", y: "y" } by
+  // default, like sigma.js expects them):
+  positionAttributes?: PositionAttributes;
+  // Tells the initial position of each node (and of the nodes added while
+  // the layout runs). It reads the positionAttributes by default:
+  getNodePosition?: ForceAtlas2LayoutParameters<NodeAttributes, EdgeAttributes>["getNodePosition"];
+};
+
+/**
+ * Events emitted by ForceAtlas2GPU instances:
+ */
+export type ForceAtlas2GPUEvents = {
+  start: () => void;
+  // Emitted once the layout stopped, and the final positions are written in
+  // the graph (after a call to stop(), or when all iterations are done):
+  stop: () => void;
+  // Emitted each time a batch of iterations is issued to the GPU:
+  iterationBatch: (payload: { iterations: number; totalIterations: number }) => void;
+  // Emitted each time the positions are written in the graph:
+  sync: (payload: { totalIterations: number }) => void;
+  // Emitted when the layout has settled:
+  converged: (payload: { totalIterations: number }) => void;
+  // Emitted when an error stops the layout:
+  error: (error: Error) => void;
+  // Emitted when the WebGL context is lost (the layout pauses), and when it
+  // is restored (the layout resumes if it was running):
+  contextLost: () => void;
+  contextRestored: () => void;
+};
+
+/**
+ * Result of ForceAtlas2GPU.compareWithCPU, with the distances between the
+ * GPU and CPU positions of the nodes after each iteration:
+ */
+export type ForceAtlas2ToleranceReport = {
+  tolerance: number;
+  // True when no node failed the check, at any iteration:
+  passed: boolean;
+  maxError: number;
+  iterations: { iteration: number; maxError: number; meanError: number; failingNodes: number }[];
+};
+
+/**
+ * Snapshot of a layout session, from ForceAtlas2GPU.getState (it only holds
+ * JSON-serializable values, so that it can be persisted as is):
+ */
+export type ForceAtlas2LayoutState = {
+  version: 1;
+  settings: ForceAtlas2Settings;
+  totalIterations: number;
+  // Iterations since the layout was last reset (see the deterministic
+  // setting):
+  layoutIterations: number;
+  // The global speed, as (speed, speedEfficiency):
+  speed: [number, number];
+  // Per node, as (x, y, dx, dy, convergence):
+  nodes: Record<string, [number, number, number, number, number]>;
+  // The initial k-means centroids, as (x, y) pairs (null without k-means):
+  centroids: number[] | null;
+};
+
+/**
+ * Options of a ForceAtlas2GPUWorker instance (functions can't be sent to the
+ * worker, so accessors can only be attribute names there):
+ */
+export type ForceAtlas2GPUWorkerOptions = {
+  getNodeFixed?: string | null;
+  getEdgeWeight?: string | null;
+  getNodeMass?: string | null;
+  getNodeSize?: string | null;
+  positionAttributes?: PositionAttributes;
+  backend?: ForceAtlas2GPUOptions["backend"];
+  // Creates the worker (to serve it from elsewhere, for instance under a
+  // strict Content Security Policy). It must run worker-script.ts:
+  createWorker?: () => Worker;
+};
+
+/**
+ * Messages between ForceAtlas2GPUWorker and its worker (see worker.ts and
+ * worker-script.ts). Graph updates replay the graph events, in order:
+ */
+export type ForceAtlas2GraphUpdate =
+  | { type: "addNode"; key: string; attributes: Attributes }
+  | { type: "dropNode"; key: string }
+  | { type: "addEdge"; key: string; source: string; target: string; attributes: Attributes; undirected: boolean }
+  | { type: "dropEdge"; key: string }
+  | { type: "clear" }
+  | { type: "clearEdges" }
+  | { type: "replaceNodeAttributes"; key: string; attributes: Attributes };
+
+export type ForceAtlas2WorkerRequest =
+  | {
+      type: "init";
+      graph: SerializedGraph;
+      settings: Partial<ForceAtlas2Settings>;
+      options: Pick<
+        ForceAtlas2GPUWorkerOptions,
+        "getNodeFixed" | "getEdgeWeight" | "getNodeMass" | "getNodeSize" | "positionAttributes" | "backend"
+      >;
+    }
+  | { type: "start"; iterations: number }
+  | { type: "stop" }
+  | { type: "setSettings"; settings: Partial<ForceAtlas2Settings> }
+  | { type: "setNodePosition"; node: string; x: number; y: number; pin: boolean }
+  | { type: "releaseNode"; node: string }
+  | { type: "updateGraph"; updates: ForceAtlas2GraphUpdate[] };
+
+export type ForceAtlas2WorkerResponse =
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "iterationBatch"; iterations: number; totalIterations: number }
+  // Positions are sent as [x0, y0, x1, y1...], following the order of the
+  // worker's graph nodes, which are only sent when they changed:
+  | { type: "sync"; totalIterations: number; positions: Float32Array; nodes: string[] | null }
+  | { type: "converged"; totalIterations: number }
+  // The settings, once the layout accepted them:
+  | { type: "settings"; settings: ForceAtlas2Settings }
+  | { type: "error"; message: string; running: boolean }
+  | { type: "contextLost" }
+  | { type: "contextRestored" };
+
 export const DEFAULT_FORCE_ATLAS_2_LAYOUT_PARAMETERS: ForceAtlas2LayoutParameters = {
   settings: DEFAULT_FORCE_ATLAS_2_SETTINGS,
   getEdgeWeight: "weight",
+  getNodeMass: null,
+  getNodeSize: "size",
+  getNodePosition: null,
+  positionAttributes: { x: "x", y: "y" },
   outputReducer: null,
   iterations: 1,
 };
@@ -0,0 +1,127 @@
+import Graph from "graphology";
+
+import { ForceAtlas2GPU, ForceAtlas2Graph } from "./index";
+import {
+  ForceAtlas2GraphUpdate,
+  ForceAtlas2WorkerRequest,
+  ForceAtlas2WorkerResponse,
+  PositionAttributes,
+} from "./types";
+
+/**
+ * This script runs in the worker spawned by ForceAtlas2GPUWorker: it keeps a
+ * copy of the graph (updated with the graph events replayed from the main
+ * thread), runs a ForceAtlas2GPU instance on it (on an OffscreenCanvas, since
+ * there is no document here), and streams the positions back.
+ */
+let graph: Graph | null = null;
+let fa2: ForceAtlas2GPU | null = null;
+let positionAttributes: PositionAttributes = { x: "x", y: "y" };
+// True when the nodes changed since the last positions were sent:
+let nodesChanged = true;
+
+function post(message: ForceAtlas2WorkerResponse, transfer: ArrayBuffer[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+function postError(error: unknown) {
+  post({
+    type: "error",
+    message: error instanceof Error ? error.message : String(error),
+    running: !!fa2 && fa2.isRunning(),
+  });
+}
+
+function postPositions(totalIterations: number) {
+  if (!graph) return;
+
+  const positions = new Float32Array(graph.order * 2);
+  let i = 0;
+  graph.forEachNode((_node, attributes) => {
+    positions[i++] = attributes[positionAttributes.x];
+    positions[i++] = attributes[positionAttributes.y];
+  });
+
+  const nodes = nodesChanged ? graph.nodes() : null;
+  nodesChanged = false;
+  post({ type: "sync", totalIterations, positions, nodes }, [positions.buffer]);
+}
+
+function applyGraphUpdate(graph: Graph, update: ForceAtlas2GraphUpdate) {
+  switch (update.type) {
+    case "addNode":
+      graph.addNode(update.key, update.attributes);
+      break;
+    case "dropNode":
+      graph.dropNode(update.key);
+      break;
+    case "addEdge":
+      if (update.undirected)
+        graph.addUndirectedEdgeWithKey(update.key, update.source, update.target, update.attributes);
+      else graph.addDirectedEdgeWithKey(update.key, update.source, update.target, update.attributes);
+      break;
+    case "dropEdge":
+      graph.dropEdge(update.key);
+      break;
+    case "clear":
+      graph.clear();
+      break;
+    case "clearEdges":
+      graph.clearEdges();
+      break;
+    case "replaceNodeAttributes":
+      graph.replaceNodeAttributes(update.key, update.attributes);
+      break;
+  }
+}
+
+function init({ graph: serializedGraph, settings, options }: Extract<ForceAtlas2WorkerRequest, { type: "init" }>) {
+  graph = Graph.from(serializedGraph);
+  if (options.positionAttributes) positionAttributes = options.positionAttributes;
+  const onNodesChange = () => (nodesChanged = true);
+  graph.on("nodeAdded", onNodesChange);
+  graph.on("nodeDropped", onNodesChange);
+  graph.on("cleared", onNodesChange);
+
+  fa2 = new ForceAtlas2GPU(graph as ForceAtlas2Graph, settings, options);
+  fa2.on("start", () => post({ type: "start" }));
+  fa2.on("stop", () => post({ type: "stop" }));
+  fa2.on("iterationBatch", (payload) => post({ type: "iterationBatch", ...payload }));
+  fa2.on("sync", ({ totalIterations }) => postPositions(totalIterations));
+  fa2.on("converged", (payload) => post({ type: "converged", ...payload }));
+  fa2.on("error", postError);
+  fa2.on("contextLost", () => post({ type: "contextLost" }));
+  fa2.on("contextRestored", () => post({ type: "contextRestored" }));
+  post({ type: "settings", settings: fa2.getSettings() });
+}
+
+self.onmessage = ({ data: request }: MessageEvent<ForceAtlas2WorkerRequest>) => {
+  try {
+    if (request.type === "init") return init(request);
+    if (!graph || !fa2) throw new Error("ForceAtlas2GPUWorker: the worker was not initialized.");
+
+    switch (request.type) {
+      case "start":
+        fa2.start(request.iterations);
+        break;
+      case "stop":
+        fa2.stop();
+        break;
+      case "setSettings":
+        fa2.setSettings(request.settings);
+        post({ type: "settings", settings: fa2.getSettings() });
+        break;
+      case "setNodePosition":
+        fa2.setNodePosition(request.node, request.x, request.y, { pin: request.pin });
+        break;
+      case "releaseNode":
+        fa2.releaseNode(request.node);
+        break;
+      case "updateGraph":
+        request.updates.forEach((update) => applyGraphUpdate(graph as Graph, update));
+        break;
+    }
+  } catch (error) {
+    postError(error);
+  }
+};
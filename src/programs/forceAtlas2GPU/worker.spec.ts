@@ -0,0 +1,109 @@
+import Graph from "graphology";
+import { describe, expect, test } from "vitest";
+
+import { ForceAtlas2Graph } from "./index";
+import { ForceAtlas2GPUWorker } from "./worker";
+
+function getPathGraph(order: number): ForceAtlas2Graph {
+  const graph = new Graph();
+  for (let i = 0; i < order; i++) graph.addNode(i, { x: Math.cos(i), y: Math.sin(i), size: 1 });
+  for (let i = 1; i < order; i++) graph.addEdge(i - 1, i);
+  return graph as ForceAtlas2Graph;
+}
+
+describe("ForceAtlas2GPUWorker", () => {
+  test("should run the layout, and write the positions in the graph", async () => {
+    const graph = getPathGraph(20);
+    const initialPositions = graph.mapNodes((_node, { x, y }) => ({ x, y }));
+    const fa2 = new ForceAtlas2GPUWorker(graph, { iterationsPerFrame: 5 });
+
+    try {
+      await fa2.runAsync({ iterations: 20 });
+
+      expect(fa2.isRunning()).toBe(false);
+      expect(fa2.getTotalIterations()).toBe(20);
+      expect(graph.mapNodes((_node, { x, y }) => ({ x, y }))).not.toEqual(initialPositions);
+      graph.forEachNode((_node, { x, y }) => {
+        expect(Number.isFinite(x)).toBe(true);
+        expect(Number.isFinite(y)).toBe(true);
+      });
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should follow the graph updates", async () => {
+    const graph = getPathGraph(20);
+    const fa2 = new ForceAtlas2GPUWorker(graph);
+
+    try {
+      graph.dropNode("0");
+      graph.mergeNode("new", { x: 100, y: 100, size: 1 });
+      graph.addEdge("new", "1");
+      await fa2.runAsync({ iterations: 10 });
+
+      expect(graph.getNodeAttribute("new", "x")).not.toBe(100);
+      graph.forEachNode((_node, { x, y }) => {
+        expect(Number.isFinite(x)).toBe(true);
+        expect(Number.isFinite(y)).toBe(true);
+      });
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should report invalid settings as errors", async () => {
+    const fa2 = new ForceAtlas2GPUWorker(getPathGraph(10));
+
+    try {
+      const error = new Promise<Error>((resolve) => fa2.once("error", resolve));
+      fa2.setSettings({ repulsion: { type: "quad-tree", depth: 20 } });
+
+      await expect(error).resolves.toBeInstanceOf(Error);
+      expect(fa2.isRunning()).toBe(false);
+      expect(fa2.getSettings().repulsion).not.toEqual({ type: "quad-tree", depth: 20 });
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should only keep the settings the worker accepted", async () => {
+    const fa2 = new ForceAtlas2GPUWorker(getPathGraph(10));
+
+    try {
+      const error = new Promise<Error>((resolve) => fa2.once("error", resolve));
+      fa2.setSettings({ gravity: 3 });
+      fa2.setSettings({ margin: -1 });
+      // (the worker answers in order, so the first settings were accepted by
+      // then)
+      await error;
+
+      expect(fa2.getSettings().gravity).toBe(3);
+      expect(fa2.getSettings().margin).not.toBe(-1);
+    } finally {
+      fa2.kill();
+    }
+  });
+
+  test("should reject the pending runs when killed", async () => {
+    const fa2 = new ForceAtlas2GPUWorker(getPathGraph(10), { iterationsPerFrame: 1 });
+    const run = fa2.runAsync({ iterations: 1000 });
+    const iteration = (async () => {
+      for await (const _payload of run);
+    })();
+    await new Promise<void>((resolve) => fa2.once("start", resolve));
+    fa2.kill();
+
+    await expect(run).rejects.toThrow("killed");
+    await expect(iteration).rejects.toThrow("killed");
+  });
+
+  test("should not be usable once killed", () => {
+    const graph = getPathGraph(10);
+    const fa2 = new ForceAtlas2GPUWorker(graph);
+    fa2.kill();
+
+    expect(() => fa2.start()).toThrow();
+    expect(graph.listenerCount("nodeAdded")).toBe(0);
+  });
+});
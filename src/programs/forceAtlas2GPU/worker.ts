@@ -0,0 +1,377 @@
+import { Attributes } from "graphology-types";
+
+import { TypedEventEmitter } from "../../utils/events";
+import { DEFAULT_FORCE_ATLAS_2_SETTINGS, ForceAtlas2Settings } from "./consts";
+import type { ForceAtlas2Graph } from "./index";
+import { ForceAtlas2Run } from "./run";
+import {
+  ForceAtlas2GPUEvents,
+  ForceAtlas2GPUWorkerOptions,
+  ForceAtlas2GraphUpdate,
+  ForceAtlas2WorkerRequest,
+  ForceAtlas2WorkerResponse,
+  PositionAttributes,
+} from "./types";
+
+/**
+ * Supervisor running a ForceAtlas2GPU layout in a web worker (on an
+ * OffscreenCanvas WebGL2 context), like graphology-layout-forceatlas2/worker
+ * does with the CPU layout. Reading the graph and the render loop happen in
+ * the worker, and the main thread only receives the positions, as
+ * transferable Float32Arrays.
+ *
+ * It has the same API as ForceAtlas2GPU, except that:
+ * - Everything happens asynchronously: invalid settings, for instance, are
+ *   reported through "error" events, and getSettings only returns the
+ *   settings once the worker accepted them
+ * - The accessors can only be attribute names
+ * - There is no synchronous run
+ */
+export class ForceAtlas2GPUWorker<
+  NodeAttributes extends Attributes = Attributes,
+  EdgeAttributes extends Attributes = Attributes,
+> extends TypedEventEmitter<ForceAtlas2GPUEvents> {
+  private graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>;
+  private positionAttributes: PositionAttributes;
+  private worker: Worker;
+  private params: ForceAtlas2Settings;
+  private running = false;
+  private contextLost = false;
+  private killed = false;
+  private totalIterations = 0;
+  // Rejects the pending runAsync runs (see kill):
+  private pendingRunsAborts = new Set<() => void>();
+
+  // Graph events are replayed in the worker, in batches (see queueUpdate):
+  private pendingUpdates: ForceAtlas2GraphUpdate[] = [];
+  private syncingPositions = false;
+  // Index of each node in the positions arrays sent by the worker:
+  private nodesIndex = new Map<string, number>();
+
+  constructor(
+    graph: ForceAtlas2Graph<NodeAttributes, EdgeAttributes>,
+    params: Partial<ForceAtlas2Settings> = {},
+    {
+      createWorker,
+      getNodeFixed,
+      getEdgeWeight,
+      getNodeMass,
+      getNodeSize,
+      positionAttributes = { x: "x", y: "y" },
+      backend,
+    }: ForceAtlas2GPUWorkerOptions = {},
+  ) {
+    super();
+
+    this.graph = graph;
+    this.positionAttributes = positionAttributes;
+    this.params = { ...DEFAULT_FORCE_ATLAS_2_SETTINGS, ...params };
+    // (bundlers recognize this standard pattern, and emit the worker script as
+    // its own entry)
+    this.worker = createWorker
+      ? createWorker()
+      : new Worker(new URL("./worker-script.ts", import.meta.url), { type: "module" });
+    this.worker.addEventListener("message", this.handleMessage);
+
+    graph.on("nodeAdded", this.handleNodeAdded);
+    graph.on("nodeDropped", this.handleNodeDropped);
+    graph.on("edgeAdded", this.handleEdgeAdded);
+    graph.on("edgeDropped", this.handleEdgeDropped);
+    graph.on("cleared", this.handleCleared);
+    graph.on("edgesCleared", this.handleEdgesCleared);
+    graph.on("nodeAttributesUpdated", this.handleNodeAttributesUpdated);
+    graph.on("eachNodeAttributesUpdated", this.handleEachNodeAttributesUpdated);
+
+    this.post({
+      type: "init",
+      graph: graph.export(),
+      settings: params,
+      options: { getNodeFixed, getEdgeWeight, getNodeMass, getNodeSize, positionAttributes, backend },
+    });
+  }
+
+  /**
+   * Sends a request to the worker, after the pending graph updates, so that
+   * it always sees the graph as it was when the request was made:
+   */
+  private post(request: ForceAtlas2WorkerRequest) {
+    this.flushUpdates();
+    this.worker.postMessage(request);
+  }
+
+  private flushUpdates = () => {
+    if (!this.pendingUpdates.length || this.killed) return;
+
+    const updates = this.pendingUpdates;
+    this.pendingUpdates = [];
+    this.worker.postMessage({ type: "updateGraph", updates } satisfies ForceAtlas2WorkerRequest);
+  };
+
+  private queueUpdate(update: ForceAtlas2GraphUpdate) {
+    if (!this.pendingUpdates.length) queueMicrotask(this.flushUpdates);
+    this.pendingUpdates.push(update);
+  }
+
+  private handleNodeAdded = ({ key, attributes }: { key: string; attributes: Attributes }) => {
+    this.queueUpdate({ type: "addNode", key, attributes: { ...attributes } });
+  };
+  private handleNodeDropped = ({ key }: { key: string }) => {
+    this.queueUpdate({ type: "dropNode", key });
+  };
+  private handleEdgeAdded = ({
+    key,
+    source,
+    target,
+    attributes,
+    undirected,
+  }: {
+    key: string;
+    source: string;
+    target: string;
+    attributes: Attributes;
+    undirected: boolean;
+  }) => {
+    this.queueUpdate({ type: "addEdge", key, source, target, attributes: { ...attributes }, undirected });
+  };
+  private handleEdgeDropped = ({ key }: { key: string }) => {
+    this.queueUpdate({ type: "dropEdge", key });
+  };
+  private handleCleared = () => {
+    this.queueUpdate({ type: "clear" });
+  };
+  private handleEdgesCleared = () => {
+    this.queueUpdate({ type: "clearEdges" });
+  };
+  private handleNodeAttributesUpdated = ({ key }: { key: string }) => {
+    if (this.syncingPositions) return;
+    this.queueUpdate({ type: "replaceNodeAttributes", key, attributes: { ...this.graph.getNodeAttributes(key) } });
+  };
+  private handleEachNodeAttributesUpdated = () => {
+    // The layout's own positions syncs don't change anything:
+    if (this.syncingPositions) return;
+    this.graph.forEachNode((key, attributes) =>
+      this.queueUpdate({ type: "replaceNodeAttributes", key, attributes: { ...attributes } }),
+    );
+  };
+
+  private applyNodesPositions(positions: Float32Array, nodes: string[] | null) {
+    if (nodes) this.nodesIndex = new Map(nodes.map((node, i) => [node, i]));
+
+    this.syncingPositions = true;
+    try {
+      this.graph.updateEachNodeAttributes(
+        (node, attributes) => {
+          const index = this.nodesIndex.get(node);
+          if (index === undefined || 2 * index + 1 >= positions.length) return attributes;
+
+          const target: Attributes = attributes;
+          target[this.positionAttributes.x] = positions[2 * index];
+          target[this.positionAttributes.y] = positions[2 * index + 1];
+          return attributes;
+        },
+        { attributes: [this.positionAttributes.x, this.positionAttributes.y] },
+      );
+    } finally {
+      this.syncingPositions = false;
+    }
+  }
+
+  private handleMessage = ({ data: response }: MessageEvent<ForceAtlas2WorkerResponse>) => {
+    if (this.killed) return;
+
+    switch (response.type) {
+      case "start":
+        this.emit("start");
+        break;
+      case "stop":
+        this.running = false;
+        this.emit("stop");
+        break;
+      case "iterationBatch":
+        this.totalIterations = response.totalIterations;
+        this.emit("iterationBatch", { iterations: response.iterations, totalIterations: response.totalIterations });
+        break;
+      case "sync":
+        this.totalIterations = response.totalIterations;
+        this.applyNodesPositions(response.positions, response.nodes);
+        this.emit("sync", { totalIterations: response.totalIterations });
+        break;
+      case "converged":
+        this.emit("converged", { totalIterations: response.totalIterations });
+        break;
+      case "settings":
+        this.params = response.settings;
+        break;
+      case "error": {
+        this.running = response.running;
+        // Like ForceAtlas2GPU, errors are thrown when nobody listens:
+        const error = new Error(response.message);
+        if (!this.listenerCount("error")) throw error;
+        this.emit("error", error);
+        break;
+      }
+      case "contextLost":
+        this.contextLost = true;
+        this.emit("contextLost");
+        break;
+      case "contextRestored":
+        this.contextLost = false;
+        this.emit("contextRestored");
+        break;
+    }
+  };
+
+  private assertAlive() {
+    if (this.killed) throw new Error("ForceAtlas2GPUWorker: this instance was killed, and cannot be used anymore.");
+  }
+
+  /**
+   * Public API:
+   * ***********
+   */
+  public start(iterations = -1) {
+    this.assertAlive();
+    this.running = true;
+    this.post({ type: "start", iterations });
+  }
+
+  /**
+   * See ForceAtlas2GPU.runAsync:
+   */
+  public runAsync({ iterations = -1, signal }: { iterations?: number; signal?: AbortSignal } = {}): ForceAtlas2Run {
+    this.assertAlive();
+
+    return new ForceAtlas2Run((sync, resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      if (this.contextLost) return reject(new Error("ForceAtlas2GPUWorker: the WebGL context is lost."));
+
+      const onStop = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onContextLost = () => {
+        cleanup();
+        // The layout must not resume once the context is restored:
+        this.stop();
+        reject(new Error("ForceAtlas2GPUWorker: the WebGL context was lost."));
+      };
+      const onAbort = () => {
+        cleanup();
+        if (!this.killed) this.stop();
+        reject(signal?.reason);
+      };
+      const onKill = () => {
+        cleanup();
+        reject(new Error("ForceAtlas2GPUWorker: the layout was killed."));
+      };
+      const cleanup = () => {
+        this.off("sync", sync);
+        this.off("stop", onStop);
+        this.off("error", onError);
+        this.off("contextLost", onContextLost);
+        signal?.removeEventListener("abort", onAbort);
+        this.pendingRunsAborts.delete(onKill);
+      };
+
+      this.on("sync", sync);
+      this.on("stop", onStop);
+      this.on("error", onError);
+      this.on("contextLost", onContextLost);
+      signal?.addEventListener("abort", onAbort);
+      this.pendingRunsAborts.add(onKill);
+      try {
+        this.start(iterations);
+      } catch (error) {
+        cleanup();
+        throw error;
+      }
+    });
+  }
+
+  public setSettings(settings: Partial<ForceAtlas2Settings>) {
+    this.assertAlive();
+    // (this.params is only updated once the worker accepted the settings)
+    this.post({ type: "setSettings", settings });
+  }
+
+  public setNodePosition(node: string, x: number, y: number, { pin = false }: { pin?: boolean } = {}) {
+    this.assertAlive();
+    if (!this.graph.hasNode(node)) throw new Error(`ForceAtlas2GPUWorker: the node "${node}" does not exist.`);
+
+    // The worker moves its own copy of the node:
+    this.syncingPositions = true;
+    try {
+      const { positionAttributes } = this;
+      this.graph.mergeNodeAttributes(node, {
+        [positionAttributes.x]: x,
+        [positionAttributes.y]: y,
+      } as Partial<NodeAttributes>);
+    } finally {
+      this.syncingPositions = false;
+    }
+    this.post({ type: "setNodePosition", node, x, y, pin });
+  }
+
+  public releaseNode(node: string) {
+    this.assertAlive();
+    this.post({ type: "releaseNode", node });
+  }
+
+  public getSettings(): ForceAtlas2Settings {
+    this.assertAlive();
+    return this.params;
+  }
+
+  public stop() {
+    this.assertAlive();
+    this.running = false;
+    this.post({ type: "stop" });
+  }
+
+  public isRunning() {
+    this.assertAlive();
+    return this.running;
+  }
+
+  public isContextLost() {
+    this.assertAlive();
+    return this.contextLost;
+  }
+
+  public getTotalIterations() {
+    this.assertAlive();
+    return this.totalIterations;
+  }
+
+  /**
+   * Terminates the worker (which frees all its GPU resources), without
+   * syncing the positions. Any later call on this instance throws.
+   */
+  public kill() {
+    if (this.killed) return;
+
+    this.worker.removeEventListener("message", this.handleMessage);
+    this.worker.terminate();
+
+    this.graph.off("nodeAdded", this.handleNodeAdded);
+    this.graph.off("nodeDropped", this.handleNodeDropped);
+    this.graph.off("edgeAdded", this.handleEdgeAdded);
+    this.graph.off("edgeDropped", this.handleEdgeDropped);
+    this.graph.off("cleared", this.handleCleared);
+    this.graph.off("edgesCleared", this.handleEdgesCleared);
+    this.graph.off("nodeAttributesUpdated", this.handleNodeAttributesUpdated);
+    this.graph.off("eachNodeAttributesUpdated", this.handleEachNodeAttributesUpdated);
+
+    this.running = false;
+    this.pendingUpdates = [];
+    this.nodesIndex.clear();
+    // Settle the pending runs before their listeners are gone:
+    [...this.pendingRunsAborts].forEach((abort) => abort());
+    this.removeAllListeners();
+    this.killed = true;
+  }
+}
@@ -2,7 +2,8 @@ import { GLSL_getIndex, GLSL_getValueInTexture, getTextureSize, numberToGLSLFloa
 
 /**
  * This shader is executed for each node and returns the ID of its closest
- * centroid.
+ * centroid (or -1 for free slots, with a null mass, that belong to no
+ * centroid).
  */
 export function getClosestCentroidFragmentShader({
   nodesCount,
@@ -41,7 +42,13 @@ void main() {
     return;
   }
 
-  vec2 position = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE).xy;
+  vec3 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE).xyz;
+  if (nodePosition.z <= 0.0) {
+    closestCentroid.x = -1.0;
+    return;
+  }
+
+  vec2 position = nodePosition.xy;
   float closestCentroidID = 0.0;
   float distanceToClosestCentroid = distance(
     position,
@@ -26,6 +26,7 @@ export function getCentroidInitialPositionFragmentShader({
   // Graph data:
   uniform sampler2D u_nodesPositionTexture;
   uniform float u_iterationCount;
+  uniform float u_seed;
   in vec2 v_textureCoord;
 
   // Output
@@ -35,6 +36,16 @@ export function getCentroidInitialPositionFragmentShader({
   ${GLSL_getValueInTexture}
   ${GLSL_getIndex}
 
+  // Integer hash (lowbias32), exact on any GPU, and mirrored by KMeansCPU:
+  uint hash(uint x) {
+    x ^= x >> 16u;
+    x *= 0x7feb352du;
+    x ^= x >> 15u;
+    x *= 0x846ca68bu;
+    x ^= x >> 16u;
+    return x;
+  }
+
   void main() {
     float centroidIndex = getIndex(v_textureCoord, CENTROIDS_TEXTURE_SIZE);
 
@@ -49,16 +60,22 @@ export function getCentroidInitialPositionFragmentShader({
     float stride = max(floor(NODES_COUNT / CENTROIDS_COUNT), 1.0);
     float basePosition = centroidIndex * stride;
 
-    // Sin-based hash function for deterministic quasi-random offsets
-    // Combine iteration and centroid with different primes for good distribution
-    float seed = u_iterationCount * 73.0 + centroidIndex * 37.0;
-    float hash = fract(sin(seed) * 43758.5453123);
-    float offset = floor(hash * stride);
+    // Deterministic quasi-random offset, hashed from the seed, the iteration
+    // and the centroid (the 24 high bits are exact as a float):
+    uint bits = hash(hash(hash(uint(u_seed)) ^ uint(u_iterationCount)) ^ uint(centroidIndex));
+    float random = float(bits >> 8u) / 16777216.0;
+    float offset = floor(random * stride);
 
     float nodeCandidateIndex = mod(basePosition + offset, NODES_COUNT);
 
-    vec2 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeCandidateIndex, NODES_TEXTURE_SIZE).xy;
-    centroidsPosition.xy = nodePosition;
+    // Skip free slots (with a null mass), looking for the next actual node:
+    vec3 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeCandidateIndex, NODES_TEXTURE_SIZE).xyz;
+    for (float i = 0.0; i < NODES_COUNT && nodePosition.z <= 0.0; i++) {
+      nodeCandidateIndex = mod(nodeCandidateIndex + 1.0, NODES_COUNT);
+      nodePosition = getValueInTexture(u_nodesPositionTexture, nodeCandidateIndex, NODES_TEXTURE_SIZE).xyz;
+    }
+
+    centroidsPosition.xy = nodePosition.xy;
     centroidsPosition.z = 0.0;
     centroidsPosition.w = 0.0;
   }`;
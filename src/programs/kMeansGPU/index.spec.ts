@@ -1,7 +1,8 @@
 import _, { sortBy } from "lodash";
 import { describe, expect, test } from "vitest";
 
-import { setupWebGL2Context, waitForGPUCompletion } from "../../utils/webgl";
+import { createFloatTexture, setupWebGL2Context, waitForGPUCompletion } from "../../utils/webgl";
+import { KMeansCPU } from "../forceAtlas2CPU";
 import { KMeansGPU } from "./index";
 
 type Point = { x: number; y: number };
@@ -167,6 +168,35 @@ describe("K-means GPU Program", () => {
   });
 
   // Test 4: Error cases - invalid centroid counts
+  test("Different seeds sample different initial centroids, the same as on the CPU", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const N = 1000;
+      const C = 10;
+      const nodes = generateRandomNodes(N, 123);
+      const nodesPosition = new Float32Array(N * 4);
+      nodes.forEach(({ x, y }, i) => nodesPosition.set([x, y, 1, 0], i * 4));
+
+      const getInitialCentroids = (seed: number) => {
+        const kMeans = new KMeansGPU(gl, { nodesCount: N, centroidsCount: C, iterationCount: 3, seed });
+        kMeans.setNodesData(nodes);
+        const centroids = kMeans.getInitialCentroidsPositionData().slice(0, C * 4);
+        kMeans.kill();
+
+        const cpuKMeans = new KMeansCPU({ nodesCount: N, centroidsCount: C });
+        cpuKMeans.initialize(nodesPosition, 3, seed);
+        expect(centroids).toEqual(Array.from(cpuKMeans.getInitialCentroidsPosition()));
+
+        return centroids;
+      };
+
+      expect(getInitialCentroids(42)).not.toEqual(getInitialCentroids(43));
+      expect(getInitialCentroids(65535)).not.toEqual(getInitialCentroids(0));
+    } finally {
+      canvas.remove();
+    }
+  });
+
   test("Error: More centroids than nodes", () => {
     const { gl, canvas } = setupWebGL2Context();
     try {
@@ -199,4 +229,22 @@ describe("K-means GPU Program", () => {
       canvas.remove();
     }
   });
+
+  test("Killing k-means deletes its own textures, but not wired ones", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const nodesTexture = createFloatTexture(gl, 4);
+      const kMeans = new KMeansGPU(gl, { nodesCount: 10, centroidsCount: 2 });
+      kMeans.wireTextures(nodesTexture);
+      const centroidsTexture = kMeans.getCentroidsPosition();
+      const closestCentroidTexture = kMeans.getClosestCentroid();
+
+      kMeans.kill();
+      expect(gl.isTexture(centroidsTexture)).toBe(false);
+      expect(gl.isTexture(closestCentroidTexture)).toBe(false);
+      expect(gl.isTexture(nodesTexture)).toBe(true);
+    } finally {
+      canvas.remove();
+    }
+  });
 });
@@ -22,8 +22,9 @@ export class KMeansGPU {
   private centroidsCount: number;
   private debug: boolean;
   private iterationCount: number;
+  private seed: number;
 
-  private initialPositionsProgram: WebCLProgram<"nodesPosition", "centroidsPosition", "iterationCount">;
+  private initialPositionsProgram: WebCLProgram<"nodesPosition", "centroidsPosition", "iterationCount" | "seed">;
   private closestCentroidProgram: WebCLProgram<"nodesPosition" | "centroidsPosition", "closestCentroid">;
   private centroidPositionProgram: WebCLProgram<
     "nodesPosition" | "centroidsPosition" | "closestCentroid",
@@ -37,13 +38,15 @@ export class KMeansGPU {
       centroidsCount,
       debug = false,
       iterationCount = 0,
-    }: { nodesCount: number; centroidsCount?: number; debug?: boolean; iterationCount?: number },
+      seed = 0,
+    }: { nodesCount: number; centroidsCount?: number; debug?: boolean; iterationCount?: number; seed?: number },
   ) {
     this.gl = gl;
     this.nodesCount = nodesCount;
     this.centroidsCount = centroidsCount ?? Math.sqrt(nodesCount);
     this.debug = debug;
     this.iterationCount = iterationCount;
+    this.seed = seed;
 
     // Validate centroids count
     if (this.centroidsCount <= 0) {
@@ -131,13 +134,13 @@ export class KMeansGPU {
     WebCLProgram.wirePrograms({ initialPositionsProgram, closestCentroidProgram, centroidPositionProgram });
   }
 
-  public initialize(iterationCount?: number) {
+  public initialize(iterationCount?: number, seed?: number) {
     const { initialPositionsProgram } = this;
 
     const actualIterationCount = iterationCount ?? this.iterationCount;
 
     initialPositionsProgram.activate();
-    initialPositionsProgram.setUniforms({ iterationCount: actualIterationCount });
+    initialPositionsProgram.setUniforms({ iterationCount: actualIterationCount, seed: seed ?? this.seed });
     initialPositionsProgram.prepare();
     initialPositionsProgram.compute();
   }
@@ -146,16 +149,18 @@ export class KMeansGPU {
     steps,
     reinitialize = false,
     iterationCount,
+    seed,
   }: {
     steps: number;
     reinitialize?: boolean;
     iterationCount?: number;
+    seed?: number;
   }) {
     const { closestCentroidProgram, centroidPositionProgram, debug } = this;
 
     // Reinitialize centroids if requested
     if (reinitialize) {
-      this.initialize(iterationCount);
+      this.initialize(iterationCount, seed);
     }
 
     let remainingSteps = steps;
@@ -178,6 +183,12 @@ export class KMeansGPU {
     if (debug) this.validate();
   }
 
+  public kill() {
+    this.initialPositionsProgram.kill();
+    this.closestCentroidProgram.kill();
+    this.centroidPositionProgram.kill();
+  }
+
   public getCentroidsPosition(): WebGLTexture {
     return this.centroidPositionProgram.outputTexturesIndex.centroidsPosition.texture;
   }
@@ -195,6 +206,12 @@ export class KMeansGPU {
     return Array.from(this.initialPositionsProgram.getOutput("centroidsPosition"));
   }
 
+  // Restores the initial centroids, as (x, y, mass, count) per centroid (each
+  // compute starts from them, unless it reinitializes them):
+  public setInitialCentroidsPositionData(data: Float32Array) {
+    this.initialPositionsProgram.setOutputData("centroidsPosition", data);
+  }
+
   public getClosestCentroidData() {
     return Array.from(this.closestCentroidProgram.getOutput("closestCentroid"));
   }
@@ -228,7 +245,7 @@ export class KMeansGPU {
 
     // Initialize centroids by sampling from node positions
     initialPositionsProgram.activate();
-    initialPositionsProgram.setUniforms({ iterationCount: this.iterationCount });
+    initialPositionsProgram.setUniforms({ iterationCount: this.iterationCount, seed: this.seed });
     initialPositionsProgram.prepare();
     initialPositionsProgram.compute();
   }
@@ -277,11 +294,18 @@ export class KMeansGPU {
     const textureSize = getTextureSize(nodesCount);
     const totalElements = textureSize * textureSize;
     const closestCentroidData = readTextureData(this.gl, this.getClosestCentroid(), nodesCount, 1);
+    const nodesPositionData = readTextureData(
+      this.gl,
+      this.closestCentroidProgram.dataTexturesIndex.nodesPosition.texture,
+      nodesCount,
+      4,
+    );
 
     for (let i = 0; i < totalElements; i++) {
       const centroidID = closestCentroidData[i];
 
-      if (i < nodesCount) {
+      // Free slots (with a null mass) belong to no centroid:
+      if (i < nodesCount && nodesPositionData[i * 4 + 2] > 0) {
         // Valid node: check for valid centroid ID
         if (isNaN(centroidID)) {
           throw new Error(`[${name}] Node ${i} has NaN closest centroid`);
@@ -295,9 +319,9 @@ export class KMeansGPU {
           );
         }
       } else {
-        // Out-of-bounds: should have sentinel value
+        // Free slot or out-of-bounds: should have sentinel value
         if (centroidID !== -1) {
-          console.warn(`[${name}] Out-of-bounds node ${i} does not have sentinel value: ${centroidID}`);
+          console.warn(`[${name}] Free or out-of-bounds node ${i} does not have sentinel value: ${centroidID}`);
         }
       }
     }
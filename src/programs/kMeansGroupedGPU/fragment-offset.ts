@@ -1,16 +1,37 @@
-import { GLSL_getIndex, GLSL_getValueInTexture, getTextureSize, numberToGLSLFloat } from "../../utils/webgl";
+import {
+  GLSL_getIndex,
+  GLSL_getValueInTexture,
+  getSortedTextureSize,
+  getTextureSize,
+  numberToGLSLFloat,
+} from "../../utils/webgl";
 
 /**
  * This shader is executed for each centroid, and returns for each centroid
  * its nodes count and its offset in the sorted nodes array.
+ *
+ * With adjustSizes, it also returns on another texture the radius of each
+ * centroid: the farthest extent of its nodes (their distance to the centroid
+ * plus their size).
  */
-export function getKMeansOffsetFragmentShader({ centroidsCount }: { centroidsCount: number }) {
+export function getKMeansOffsetFragmentShader({
+  centroidsCount,
+  nodesCount = 1,
+  adjustSizes = false,
+}: {
+  centroidsCount: number;
+  nodesCount?: number;
+  adjustSizes?: boolean;
+}) {
   // language=GLSL
   const SHADER = /*glsl*/ `#version 300 es
 precision highp float;
 
 #define CENTROIDS_COUNT ${numberToGLSLFloat(centroidsCount)}
 #define TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(centroidsCount))}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCount))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCount))}
+${adjustSizes ? "#define ADJUST_SIZES" : ""}
 
 // Graph data:
 uniform sampler2D u_centroidsPositionTexture;
@@ -19,6 +40,14 @@ in vec2 v_textureCoord;
 // Output
 layout(location = 0) out vec4 centroidOffset;
 
+#if defined(ADJUST_SIZES)
+  uniform sampler2D u_nodesPositionTexture;
+  uniform sampler2D u_nodesMetadataTexture;
+  uniform sampler2D u_nodesInCentroidsTexture;
+
+  layout(location = 1) out vec4 centroidRadius;
+#endif
+
 // Additional helpers:
 ${GLSL_getValueInTexture}
 ${GLSL_getIndex}
@@ -33,7 +62,8 @@ void main() {
     return;
   }
 
-  float centroidNodesCount = getValueInTexture(u_centroidsPositionTexture, centroidIndex, TEXTURE_SIZE).w;
+  vec4 centroidData = getValueInTexture(u_centroidsPositionTexture, centroidIndex, TEXTURE_SIZE);
+  float centroidNodesCount = centroidData.w;
 
   float offset = 0.0;
   for (float i = 0.0; i < centroidIndex; i++) {
@@ -43,6 +73,17 @@ void main() {
 
   centroidOffset.x = centroidNodesCount;
   centroidOffset.y = offset;
+
+  #if defined(ADJUST_SIZES)
+    float radius = 0.0;
+    for (float j = offset; j < offset + centroidNodesCount; j++) {
+      float nodeIndex = getValueInTexture(u_nodesInCentroidsTexture, j, SORTED_TEXTURE_SIZE).x;
+      vec2 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE).xy;
+      float nodeSize = getValueInTexture(u_nodesMetadataTexture, nodeIndex, NODES_TEXTURE_SIZE).r;
+      radius = max(radius, distance(nodePosition, centroidData.xy) + nodeSize);
+    }
+    centroidRadius.x = radius;
+  #endif
 }`;
 
   return SHADER;
@@ -44,7 +44,8 @@ void main() {
   if (nodeIndex < NODES_COUNT) {
     float closestCentroidID = getValueInTexture(u_closestCentroidTexture, nodeIndex, NODES_TEXTURE_SIZE).x;
     values.x = nodeIndex;
-    sortOn.x = closestCentroidID;
+    // Free slots belong to no centroid, and are sorted after all nodes:
+    sortOn.x = closestCentroidID < 0.0 ? VALUE_FOR_EXCESS_NODE : closestCentroidID;
   }
   // In case the nodeIndex is too high, we still setup a value, and a sortOn that is also too high:
   else {
@@ -10,6 +10,10 @@ const ATTRIBUTES_PER_ITEM = {
   closestCentroid: 1,
   centroidsPosition: 4,
   centroidsOffsets: 2,
+  centroidsRadius: 1,
+  nodesPosition: 4,
+  nodesMetadata: 4,
+  nodesInCentroids: 1,
   values: 1,
   sortOn: 1,
 } as const;
@@ -18,6 +22,8 @@ const ATTRIBUTES_PER_ITEM = {
  * K-Means with grouped nodes for intra-cluster repulsion.
  * This extends the basic k-means clustering with additional data structures
  * to enable efficient node-to-node repulsion within each cluster.
+ * With adjustSizes, it also computes the radius of each cluster (the
+ * farthest extent of its nodes, sizes included), from the nodes metadata.
  */
 export class KMeansGroupedGPU {
   private name = "K-means GPU (grouped)";
@@ -29,13 +35,21 @@ export class KMeansGroupedGPU {
   private nodesCount: number;
   private centroidsCount: number;
   private debug: boolean;
+  private adjustSizes: boolean;
+
+  // Nodes data (only used for the clusters radii):
+  private nodesTexture?: WebGLTexture;
+  private nodesMetadataTexture?: WebGLTexture;
 
   // K-means clustering (reused from base implementation)
   private kMeans: KMeansGPU;
 
   // Sorting and grouping programs
   private setupSortProgram: WebCLProgram<"closestCentroid", "values" | "sortOn">;
-  private offsetProgram: WebCLProgram<"centroidsPosition", "centroidsOffsets">;
+  private offsetProgram: WebCLProgram<
+    "centroidsPosition" | "nodesPosition" | "nodesMetadata" | "nodesInCentroids",
+    "centroidsOffsets" | "centroidsRadius"
+  >;
   private bitonicSort: BitonicSortGPU;
 
   constructor(
@@ -45,12 +59,14 @@ export class KMeansGroupedGPU {
       centroidsCount,
       debug = false,
       iterationCount = 0,
-    }: { nodesCount: number; centroidsCount?: number; debug?: boolean; iterationCount?: number },
+      adjustSizes = false,
+    }: { nodesCount: number; centroidsCount?: number; debug?: boolean; iterationCount?: number; adjustSizes?: boolean },
   ) {
     this.gl = gl;
     this.nodesCount = nodesCount;
     this.centroidsCount = centroidsCount || Math.sqrt(nodesCount);
     this.debug = debug;
+    this.adjustSizes = adjustSizes;
 
     // BitonicSort requires power-of-2 sized arrays, so we need to extend our node count
     const sortedArraySize = getNextPowerOfTwo(nodesCount);
@@ -89,6 +105,8 @@ export class KMeansGroupedGPU {
       fragments: this.centroidsCount,
       fragmentShaderSource: getKMeansOffsetFragmentShader({
         centroidsCount: this.centroidsCount,
+        nodesCount: this.nodesCount,
+        adjustSizes,
       }),
       vertexShaderSource: getVertexShader(),
       dataTextures: [
@@ -97,8 +115,32 @@ export class KMeansGroupedGPU {
           attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsPosition,
           items: this.centroidsCount,
         },
+        ...(adjustSizes
+          ? [
+              {
+                name: "nodesPosition" as const,
+                attributesPerItem: ATTRIBUTES_PER_ITEM.nodesPosition,
+                items: nodesCount,
+              },
+              {
+                name: "nodesMetadata" as const,
+                attributesPerItem: ATTRIBUTES_PER_ITEM.nodesMetadata,
+                items: nodesCount,
+              },
+              {
+                name: "nodesInCentroids" as const,
+                attributesPerItem: ATTRIBUTES_PER_ITEM.nodesInCentroids,
+                items: nodesCount,
+              },
+            ]
+          : []),
+      ],
+      outputTextures: [
+        { name: "centroidsOffsets", attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsOffsets },
+        ...(adjustSizes
+          ? [{ name: "centroidsRadius" as const, attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsRadius }]
+          : []),
       ],
-      outputTextures: [{ name: "centroidsOffsets", attributesPerItem: ATTRIBUTES_PER_ITEM.centroidsOffsets }],
     });
 
     // Bitonic sort: sorts nodes by their centroid ID
@@ -109,8 +151,10 @@ export class KMeansGroupedGPU {
    * Public API:
    * ***********
    */
-  public wireTextures(nodesTexture: WebGLTexture) {
+  public wireTextures(nodesTexture: WebGLTexture, nodesMetadataTexture?: WebGLTexture) {
     const { kMeans, setupSortProgram, offsetProgram } = this;
+    this.nodesTexture = nodesTexture;
+    if (nodesMetadataTexture) this.nodesMetadataTexture = nodesMetadataTexture;
 
     // Wire k-means textures
     kMeans.wireTextures(nodesTexture);
@@ -119,26 +163,28 @@ export class KMeansGroupedGPU {
     WebCLProgram.wirePrograms({ setupSortProgram, offsetProgram });
   }
 
-  public initialize(iterationCount?: number) {
+  public initialize(iterationCount?: number, seed?: number) {
     const { kMeans } = this;
 
     // Initialize centroids
-    kMeans.initialize(iterationCount);
+    kMeans.initialize(iterationCount, seed);
   }
 
   public compute({
     steps,
     reinitialize = false,
     iterationCount,
+    seed,
   }: {
     steps: number;
     reinitialize?: boolean;
     iterationCount?: number;
+    seed?: number;
   }) {
     const { kMeans, setupSortProgram, offsetProgram, bitonicSort, debug } = this;
 
     // Run k-means clustering
-    kMeans.compute({ steps, reinitialize, iterationCount });
+    kMeans.compute({ steps, reinitialize, iterationCount, seed });
 
     // Get the closest centroid for each node from k-means output
     setupSortProgram.dataTexturesIndex.closestCentroid.texture = kMeans.getClosestCentroid();
@@ -157,6 +203,13 @@ export class KMeansGroupedGPU {
 
     // Wire centroids position to offset program
     offsetProgram.dataTexturesIndex.centroidsPosition.texture = kMeans.getCentroidsPosition();
+    if (this.adjustSizes) {
+      if (!this.nodesTexture || !this.nodesMetadataTexture)
+        throw new Error(`[${this.name}] The nodes metadata texture is required with adjustSizes`);
+      offsetProgram.dataTexturesIndex.nodesPosition.texture = this.nodesTexture;
+      offsetProgram.dataTexturesIndex.nodesMetadata.texture = this.nodesMetadataTexture;
+      offsetProgram.dataTexturesIndex.nodesInCentroids.texture = bitonicSort.getSortedTexture();
+    }
 
     // Compute offsets for each centroid
     offsetProgram.activate();
@@ -168,6 +221,13 @@ export class KMeansGroupedGPU {
     }
   }
 
+  public kill() {
+    this.kMeans.kill();
+    this.setupSortProgram.kill();
+    this.offsetProgram.kill();
+    this.bitonicSort.kill();
+  }
+
   // Getters for textures needed by ForceAtlas2
   public getCentroidsPosition(): WebGLTexture {
     return this.kMeans.getCentroidsPosition();
@@ -177,6 +237,11 @@ export class KMeansGroupedGPU {
     return this.offsetProgram.outputTexturesIndex.centroidsOffsets.texture;
   }
 
+  // Only available with adjustSizes:
+  public getCentroidsRadius(): WebGLTexture | undefined {
+    return this.offsetProgram.outputTexturesIndex.centroidsRadius?.texture;
+  }
+
   public getNodesInCentroids(): WebGLTexture {
     return this.bitonicSort.getSortedTexture();
   }
@@ -185,12 +250,31 @@ export class KMeansGroupedGPU {
     return this.kMeans.getClosestCentroid();
   }
 
+  // Reads and restores the initial centroids of the k-means (see KMeansGPU):
+  public getInitialCentroidsPositionData() {
+    return this.kMeans.getInitialCentroidsPositionData();
+  }
+  public setInitialCentroidsPositionData(data: Float32Array) {
+    this.kMeans.setInitialCentroidsPositionData(data);
+  }
+
   /**
    * Debug validation methods:
    * ************************
    */
+  private getAssignedNodesCount(): number {
+    const { nodesCount } = this;
+    const closestCentroidData = readTextureData(this.gl, this.getClosestCentroid(), nodesCount, 1);
+
+    // Free slots (with a null mass) belong to no centroid:
+    let count = 0;
+    for (let i = 0; i < nodesCount; i++) if (closestCentroidData[i] >= 0) count++;
+    return count;
+  }
+
   public validateCentroidsOffsets(): void {
     const { nodesCount, centroidsCount, name } = this;
+    const assignedNodesCount = this.getAssignedNodesCount();
     const textureSize = getTextureSize(centroidsCount);
     const totalElements = textureSize * textureSize;
     const offsetsData = readTextureData(this.gl, this.getCentroidsOffsets(), centroidsCount, 2);
@@ -228,8 +312,10 @@ export class KMeansGroupedGPU {
       }
     }
 
-    if (totalNodes !== nodesCount) {
-      throw new Error(`[${name}] Total nodes in centroids (${totalNodes}) does not match expected (${nodesCount})`);
+    if (totalNodes !== assignedNodesCount) {
+      throw new Error(
+        `[${name}] Total nodes in centroids (${totalNodes}) does not match expected (${assignedNodesCount})`,
+      );
     }
   }
 
@@ -237,9 +323,10 @@ export class KMeansGroupedGPU {
     const { nodesCount, name } = this;
     const sortedArraySize = getNextPowerOfTwo(nodesCount);
     const sortedNodesData = readTextureData(this.gl, this.getNodesInCentroids(), sortedArraySize, 1);
+    const assignedNodesCount = this.getAssignedNodesCount();
 
     const seenNodes = new Set<number>();
-    for (let i = 0; i < nodesCount; i++) {
+    for (let i = 0; i < assignedNodesCount; i++) {
       const nodeIndex = sortedNodesData[i];
 
       if (isNaN(nodeIndex)) {
@@ -0,0 +1,61 @@
+import {
+  GLSL_getIndex,
+  GLSL_getValueInTexture,
+  getSortedTextureSize,
+  getTextureSize,
+  numberToGLSLFloat,
+} from "../../utils/webgl";
+
+/**
+ * This shader is executed for each node, and returns on a texture its index,
+ * and on another texture the ID of its cell at the finest level of the
+ * quadtree (cellY * gridSize + cellX), so that the nodes can be sorted by
+ * cell.
+ */
+export function getQuadTreeSetupSortFragmentShader({ nodesCount, gridSize }: { nodesCount: number; gridSize: number }) {
+  // language=GLSL
+  const SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+#define GRID_SIZE ${numberToGLSLFloat(gridSize)}
+#define VALUE_FOR_EXCESS_NODE ${numberToGLSLFloat(gridSize * gridSize)}
+#define NODES_COUNT ${numberToGLSLFloat(nodesCount)}
+#define NODES_TEXTURE_SIZE ${numberToGLSLFloat(getTextureSize(nodesCount))}
+#define SORTED_TEXTURE_SIZE ${numberToGLSLFloat(getSortedTextureSize(nodesCount))}
+
+// Graph data:
+uniform sampler2D u_nodesPositionTexture;
+uniform sampler2D u_boundariesTexture;
+in vec2 v_textureCoord;
+
+// Output
+layout(location = 0) out vec4 values;
+layout(location = 1) out vec4 sortOn;
+
+// Additional helpers:
+${GLSL_getValueInTexture}
+${GLSL_getIndex}
+
+void main() {
+  float nodeIndex = getIndex(v_textureCoord, SORTED_TEXTURE_SIZE);
+  values.x = nodeIndex;
+  // Free slots and excess slots are in no cell, and are sorted after all
+  // nodes:
+  sortOn.x = VALUE_FOR_EXCESS_NODE;
+  if (nodeIndex >= NODES_COUNT) return;
+
+  vec4 nodePosition = getValueInTexture(u_nodesPositionTexture, nodeIndex, NODES_TEXTURE_SIZE);
+  if (nodePosition.z <= 0.0) return;
+
+  // Square bounding box (must match the splat vertex shader):
+  vec4 boundaries = texelFetch(u_boundariesTexture, ivec2(0), 0);
+  vec2 bbCenter = vec2((boundaries.x + boundaries.y) / 2.0, (boundaries.z + boundaries.w) / 2.0);
+  float bbSide = max(max(boundaries.y - boundaries.x, boundaries.w - boundaries.z), 1e-6);
+
+  vec2 relativePosition = clamp((nodePosition.xy - bbCenter) / bbSide + 0.5, 0.0, 0.999999);
+  vec2 cell = floor(relativePosition * GRID_SIZE);
+  sortOn.x = cell.y * GRID_SIZE + cell.x;
+}`;
+
+  return SHADER;
+}
@@ -7,19 +7,53 @@
  * - a: nodes count
  *
  * The center of mass of a cell is then (r / b, g / b).
+ *
+ * With adjustSizes, the sizes atlas accumulates the sum of the nodes sizes
+ * in its r channel as well (the mean size of a cell is then r / count).
+ *
+ * With quadrupole, the moments atlas accumulates the second moments of the
+ * nodes around the cell center, as (sum(m * dx^2), sum(m * dx * dy),
+ * sum(m * dy^2)), where (dx, dy) is the node offset to the cell center.
+ * Offsets are bounded by the cell side, so that these sums stay precise,
+ * unlike sum(m * x^2), etc. which would cancel out when the moments are
+ * moved to the center of mass.
  */
-export function getQuadTreeSplatFragmentShader() {
+export function getQuadTreeSplatFragmentShader({
+  adjustSizes = false,
+  quadrupole = false,
+}: { adjustSizes?: boolean; quadrupole?: boolean } = {}) {
   // language=GLSL
   const SHADER = /*glsl*/ `#version 300 es
 precision highp float;
 
+${adjustSizes ? "#define ADJUST_SIZES" : ""}
+${quadrupole ? "#define QUADRUPOLE" : ""}
+
 in vec3 v_positionAndMass;
 
 layout(location = 0) out vec4 cellOutput;
 
+#if defined(ADJUST_SIZES)
+  in float v_size;
+  layout(location = 1) out vec4 sizeOutput;
+#endif
+
+#if defined(QUADRUPOLE)
+  in vec2 v_cellOffset;
+  layout(location = 2) out vec4 momentsOutput;
+#endif
+
 void main() {
   float mass = v_positionAndMass.z;
   cellOutput = vec4(v_positionAndMass.xy * mass, mass, 1.0);
+
+  #if defined(ADJUST_SIZES)
+    sizeOutput = vec4(v_size, 0.0, 0.0, 0.0);
+  #endif
+
+  #if defined(QUADRUPOLE)
+    momentsOutput = vec4(v_cellOffset.xxy * v_cellOffset.xyy * mass, 0.0);
+  #endif
 }`;
 
   return SHADER;
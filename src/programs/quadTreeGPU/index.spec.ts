@@ -1,7 +1,17 @@
 import { describe, expect, test } from "vitest";
 
 import { setupWebGL2Context, waitForGPUCompletion } from "../../utils/webgl";
-import { QuadTreeGPU, QuadTreeNode, getQuadTreeLevelSize } from "./index";
+import {
+  QuadTreeGPU,
+  QuadTreeNode,
+  WEBGL2_MIN_DEVICE_LIMITS,
+  getQuadTreeDeviceLimits,
+  getQuadTreeLayersCount,
+  getQuadTreeLevelLayout,
+  getQuadTreeLevelSize,
+  getQuadTreeMaxDepth,
+  getQuadTreeTileSize,
+} from "./index";
 
 // Helper: Generate random nodes (seeded)
 // Uses deterministic pseudo-random number generation for reproducible tests
@@ -14,28 +24,36 @@ function generateRandomNodes(N: number, seed: number): Required<QuadTreeNode>[]
     x: ((seed + i * 13) % 10000) / 50 - 100,
     y: ((seed + i * 17) % 10000) / 50 - 100,
     mass: 1 + (i % 3),
+    size: 1 + (i % 4) / 2,
   }));
 }
 
-// Helper: CPU replica of the splatting, to compare with the GPU output. It
-// must use the same square bounding box and cell assignment as the shaders.
-function computeExpectedLevel(nodes: Required<QuadTreeNode>[], level: number) {
+// Helper: CPU replica of the cells assignment, to compare with the GPU output.
+// It must use the same square bounding box as the shaders.
+function computeExpectedCells(nodes: Required<QuadTreeNode>[], level: number): number[] {
   const xMin = Math.min(...nodes.map((n) => n.x));
   const xMax = Math.max(...nodes.map((n) => n.x));
   const yMin = Math.min(...nodes.map((n) => n.y));
   const yMax = Math.max(...nodes.map((n) => n.y));
   const center = { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2 };
   const side = Math.max(Math.max(xMax - xMin, yMax - yMin), 1e-6);
-
   const size = getQuadTreeLevelSize(level);
-  const cells = new Float64Array(size * size * 4);
 
-  nodes.forEach(({ x, y, mass }) => {
+  return nodes.map(({ x, y }) => {
     const relX = Math.min(Math.max((x - center.x) / side + 0.5, 0), 0.999999);
     const relY = Math.min(Math.max((y - center.y) / side + 0.5, 0), 0.999999);
-    const cellX = Math.floor(relX * size);
-    const cellY = Math.floor(relY * size);
-    const index = (cellY * size + cellX) * 4;
+    return Math.floor(relY * size) * size + Math.floor(relX * size);
+  });
+}
+
+// Helper: CPU replica of the splatting, to compare with the GPU output:
+function computeExpectedLevel(nodes: Required<QuadTreeNode>[], level: number) {
+  const size = getQuadTreeLevelSize(level);
+  const cells = new Float64Array(size * size * 4);
+  const nodesCells = computeExpectedCells(nodes, level);
+
+  nodes.forEach(({ x, y, mass }, i) => {
+    const index = nodesCells[i] * 4;
     cells[index] += x * mass;
     cells[index + 1] += y * mass;
     cells[index + 2] += mass;
@@ -45,6 +63,30 @@ function computeExpectedLevel(nodes: Required<QuadTreeNode>[], level: number) {
   return cells;
 }
 
+// Helper: CPU replica of the second moments, around the cells centers:
+function computeExpectedMoments(nodes: Required<QuadTreeNode>[], level: number) {
+  const xMin = Math.min(...nodes.map((n) => n.x));
+  const xMax = Math.max(...nodes.map((n) => n.x));
+  const yMin = Math.min(...nodes.map((n) => n.y));
+  const yMax = Math.max(...nodes.map((n) => n.y));
+  const center = { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2 };
+  const side = Math.max(Math.max(xMax - xMin, yMax - yMin), 1e-6);
+  const size = getQuadTreeLevelSize(level);
+  const moments = new Float64Array(size * size * 3);
+  const nodesCells = computeExpectedCells(nodes, level);
+
+  nodes.forEach(({ x, y, mass }, i) => {
+    const cell = nodesCells[i];
+    const offsetX = x - (center.x + (((cell % size) + 0.5) / size - 0.5) * side);
+    const offsetY = y - (center.y + ((Math.floor(cell / size) + 0.5) / size - 0.5) * side);
+    moments[cell * 3] += mass * offsetX * offsetX;
+    moments[cell * 3 + 1] += mass * offsetX * offsetY;
+    moments[cell * 3 + 2] += mass * offsetY * offsetY;
+  });
+
+  return moments;
+}
+
 describe("Quad Tree GPU Program", () => {
   const testCases = [10, 1000].flatMap((N) => [1, 3, 5].map((depth) => ({ N, depth })));
 
@@ -148,4 +190,123 @@ describe("Quad Tree GPU Program", () => {
       canvas.remove();
     }
   });
+
+  test.each(testCases)(
+    "N=$N, depth=$depth - with adjustSizes, sizes and sorted nodes match a CPU reference",
+    async ({ N, depth }) => {
+      const { gl, canvas } = setupWebGL2Context();
+      try {
+        const nodes = generateRandomNodes(N, 42);
+        const quadTree = new QuadTreeGPU(gl, { nodesCount: N }, { depth, adjustSizes: true });
+        quadTree.setNodesData(nodes);
+        quadTree.compute();
+        await waitForGPUCompletion(gl);
+
+        for (let level = 0; level < depth; level++) {
+          const sizes = quadTree.getLevelSizes(level);
+          const expected = new Float64Array(sizes.length);
+          computeExpectedCells(nodes, level).forEach((cell, i) => (expected[cell] += nodes[i].size));
+          sizes.forEach((size, cell) =>
+            expect(size, `Level ${level} cell ${cell} sizes`).toBeCloseTo(expected[cell], 2),
+          );
+        }
+
+        // The nodes are sorted by finest cell:
+        const finestCells = computeExpectedCells(nodes, depth - 1);
+        const nodesInCells = quadTree.getNodesInCells();
+        expect(nodesInCells.slice().sort((a, b) => a - b)).toEqual(nodes.map((_, i) => i));
+        for (let i = 1; i < N; i++) {
+          expect(finestCells[nodesInCells[i]]).toBeGreaterThanOrEqual(finestCells[nodesInCells[i - 1]]);
+        }
+      } finally {
+        canvas.remove();
+      }
+    },
+  );
+
+  test.each(testCases)(
+    "N=$N, depth=$depth - with quadrupole, second moments match a CPU reference",
+    async ({ N, depth }) => {
+      const { gl, canvas } = setupWebGL2Context();
+      try {
+        const nodes = generateRandomNodes(N, 42);
+        const quadTree = new QuadTreeGPU(gl, { nodesCount: N }, { depth, quadrupole: true });
+        quadTree.setNodesData(nodes);
+        quadTree.compute();
+        await waitForGPUCompletion(gl);
+
+        for (let level = 0; level < depth; level++) {
+          const moments = quadTree.getLevelMoments(level);
+          const expected = computeExpectedMoments(nodes, level);
+          moments.forEach((moment, i) =>
+            expect(
+              Math.abs(moment - expected[i]),
+              `Level ${level} cell ${Math.floor(i / 3)} moment ${i % 3}`,
+            ).toBeLessThanOrEqual(1e-4 * Math.abs(expected[i]) + 1e-2),
+          );
+        }
+      } finally {
+        canvas.remove();
+      }
+    },
+  );
+
+  test("Killing the quadtree deletes its textures", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const quadTree = new QuadTreeGPU(gl, { nodesCount: 10 }, { depth: 3 });
+      const atlasTexture = quadTree.getAtlasTexture();
+      const boundariesTexture = quadTree.getBoundariesTexture();
+      expect(gl.isTexture(atlasTexture)).toBe(true);
+      expect(gl.isTexture(boundariesTexture)).toBe(true);
+
+      quadTree.kill();
+      expect(gl.isTexture(atlasTexture)).toBe(false);
+      expect(gl.isTexture(boundariesTexture)).toBe(false);
+    } finally {
+      canvas.remove();
+    }
+  });
+});
+
+describe("Quad Tree atlas layout", () => {
+  test("Levels stack in the first layer, then take one layer per tile", () => {
+    // Depth 5, with 8 x 8 layers: levels 0 and 1 in layer 0, level 2 in
+    // layer 1, level 3 in layers 2 to 5, level 4 in layers 6 to 21:
+    const tileSize = getQuadTreeTileSize(5, 8);
+    expect(tileSize).toBe(8);
+    expect([0, 1, 2, 3, 4].map((level) => getQuadTreeLevelLayout(level, tileSize))).toEqual([
+      { firstLayer: 0, rowOffset: 0, tilesPerSide: 1 },
+      { firstLayer: 0, rowOffset: 2, tilesPerSide: 1 },
+      { firstLayer: 1, rowOffset: 0, tilesPerSide: 1 },
+      { firstLayer: 2, rowOffset: 0, tilesPerSide: 2 },
+      { firstLayer: 6, rowOffset: 0, tilesPerSide: 4 },
+    ]);
+    expect(getQuadTreeLayersCount(5, tileSize)).toBe(22);
+
+    // Without tiling, the finest level has its own layer:
+    expect(getQuadTreeTileSize(5, 4096)).toBe(32);
+    expect(getQuadTreeLayersCount(5, 32)).toBe(2);
+  });
+
+  test("Max depth follows the device limits", () => {
+    // (the limits allow depth 14 here, but its atlas would take 5.5GB)
+    expect(getQuadTreeMaxDepth(WEBGL2_MIN_DEVICE_LIMITS)).toBe(12);
+    expect(getQuadTreeMaxDepth(WEBGL2_MIN_DEVICE_LIMITS, { quadrupole: true })).toBe(11);
+    expect(getQuadTreeMaxDepth({ maxTextureSize: 16384, maxArrayTextureLayers: 2048 })).toBe(12);
+    expect(getQuadTreeMaxDepth({ maxTextureSize: 16384, maxArrayTextureLayers: 2048 }, { adjustSizes: true })).toBe(11);
+    // (the layers count still caps the depth on small devices)
+    expect(getQuadTreeMaxDepth({ maxTextureSize: 2048, maxArrayTextureLayers: 4 })).toBe(11);
+  });
+
+  test("Depths beyond the device limits are rejected", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const maxDepth = getQuadTreeMaxDepth(getQuadTreeDeviceLimits(gl));
+      expect(maxDepth).toBeGreaterThanOrEqual(12);
+      expect(() => new QuadTreeGPU(gl, { nodesCount: 10 }, { depth: maxDepth + 1 })).toThrow();
+    } finally {
+      canvas.remove();
+    }
+  });
 });
@@ -1,13 +1,29 @@
-import { createFloatTexture, createFramebuffer, createProgram } from "../../utils/webgl";
+import {
+  createFloatTexture,
+  createFloatTextureArray,
+  createProgram,
+  getNextPowerOfTwo,
+  getTextureSize,
+} from "../../utils/webgl";
+import { BitonicSortGPU } from "../bitonicSortGPU";
 import { BoundariesGPU } from "../boundariesGPU";
+import { WebCLProgram } from "../webCLProgram";
+import { getVertexShader } from "../webCLProgram/vertex";
+import { getQuadTreeSetupSortFragmentShader } from "./fragment-setup-sort";
 import { getQuadTreeSplatFragmentShader } from "./fragment-splat";
 import { getQuadTreeSplatVertexShader } from "./vertex-splat";
 
 export type QuadTreeGPUSettings = {
   depth: number;
+  // Also sums the nodes sizes of each cell (in a second atlas), and sorts the
+  // nodes by finest cell, for the anti-collision:
+  adjustSizes?: boolean;
+  // Also sums the second moments of the nodes of each cell (in a third
+  // atlas), for the quadrupole correction of the repulsion:
+  quadrupole?: boolean;
 };
 
-export type QuadTreeNode = { x: number; y: number; mass?: number };
+export type QuadTreeNode = { x: number; y: number; mass?: number; size?: number };
 
 /**
  * Returns a depth so that the finest grid has roughly one cell per node
@@ -21,20 +37,79 @@ export function getQuadTreeLevelSize(level: number): number {
   return 2 ** (level + 1);
 }
 
+export type QuadTreeDeviceLimits = { maxTextureSize: number; maxArrayTextureLayers: number };
+
+// The lowest limits a WebGL2 device can have (used without any context):
+export const WEBGL2_MIN_DEVICE_LIMITS: QuadTreeDeviceLimits = { maxTextureSize: 2048, maxArrayTextureLayers: 256 };
+
+export function getQuadTreeDeviceLimits(gl?: WebGL2RenderingContext | null): QuadTreeDeviceLimits {
+  // (lost contexts return null for all parameters)
+  return {
+    maxTextureSize: gl?.getParameter(gl.MAX_TEXTURE_SIZE) || WEBGL2_MIN_DEVICE_LIMITS.maxTextureSize,
+    maxArrayTextureLayers:
+      gl?.getParameter(gl.MAX_ARRAY_TEXTURE_LAYERS) || WEBGL2_MIN_DEVICE_LIMITS.maxArrayTextureLayers,
+  };
+}
+
 /**
- * All levels are stacked vertically in a single atlas texture: level 0 (2x2)
- * starts at row 0, level 1 (4x4) at row 2, level 2 (8x8) at row 6, etc.
+ * The atlases are textures arrays, whose layers are tileSize x tileSize
+ * (2^depth, unless the device max texture size is lower):
+ * - The levels up to half a layer large are stacked vertically in the layer
+ *   0: level 0 (2x2) starts at row 0, level 1 (4x4) at row 2, level 2 (8x8)
+ *   at row 6, etc. (they take less than tileSize rows overall)
+ * - Each larger level is split in tiles of tileSize x tileSize cells, with
+ *   one layer per tile (row by row), from the layer 1: the level as large as
+ *   a layer, then the 4 tiles of the next one, then its 16 tiles, etc.
  */
-export function getQuadTreeLevelRowOffset(level: number): number {
-  return 2 ** (level + 1) - 2;
+export function getQuadTreeTileSize(depth: number, maxTextureSize: number): number {
+  return Math.min(2 ** depth, 2 ** Math.floor(Math.log2(maxTextureSize)));
+}
+
+export function getQuadTreeLevelLayout(
+  level: number,
+  tileSize: number,
+): { firstLayer: number; rowOffset: number; tilesPerSide: number } {
+  const size = getQuadTreeLevelSize(level);
+  if (size <= tileSize / 2) return { firstLayer: 0, rowOffset: size - 2, tilesPerSide: 1 };
+
+  const tilesPerSide = size / tileSize;
+  return { firstLayer: 1 + (tilesPerSide ** 2 - 1) / 3, rowOffset: 0, tilesPerSide };
 }
 
-export function getQuadTreeAtlasWidth(depth: number): number {
-  return 2 ** depth;
+export function getQuadTreeLayersCount(depth: number, tileSize: number): number {
+  // (the finest level is always in the last layers)
+  const { firstLayer, tilesPerSide } = getQuadTreeLevelLayout(depth - 1, tileSize);
+  return firstLayer + tilesPerSide ** 2;
 }
 
-export function getQuadTreeAtlasHeight(depth: number): number {
-  return 2 ** (depth + 1) - 2;
+// With adjustSizes, the nodes are sorted by finest cell ID, stored as floats,
+// which are only exact up to 2^24 (so 4096 x 4096 cells):
+const MAX_SORTED_DEPTH = 12;
+
+// The atlases of a quadtree must fit in this many bytes overall, which
+// browsers grant a tab without trouble (each cell is 16 bytes per atlas, so
+// the main atlas alone takes 32 * 4^depth bytes at most, 512MB at depth 12
+// and 2GB at depth 13):
+const MAX_ATLASES_BYTES = 2 ** 29;
+
+/**
+ * Returns the deepest quadtree whose atlases (one, plus one with adjustSizes
+ * and one with quadrupole) fit both the device limits and the memory budget.
+ */
+export function getQuadTreeMaxDepth(
+  { maxTextureSize, maxArrayTextureLayers }: QuadTreeDeviceLimits,
+  { adjustSizes = false, quadrupole = false }: { adjustSizes?: boolean; quadrupole?: boolean } = {},
+): number {
+  const atlasesCount = 1 + (adjustSizes ? 1 : 0) + (quadrupole ? 1 : 0);
+  const fits = (depth: number) => {
+    const tileSize = getQuadTreeTileSize(depth, maxTextureSize);
+    const layersCount = getQuadTreeLayersCount(depth, tileSize);
+    return layersCount <= maxArrayTextureLayers && atlasesCount * layersCount * tileSize ** 2 * 16 <= MAX_ATLASES_BYTES;
+  };
+
+  let depth = 1;
+  while (fits(depth + 1)) depth++;
+  return adjustSizes ? Math.min(depth, MAX_SORTED_DEPTH) : depth;
 }
 
 /**
@@ -44,9 +119,22 @@ export function getQuadTreeAtlasHeight(depth: number): number {
  *   bounding box of the graph
  * - Each cell accumulates the mass, weighted position sum and count of the
  *   nodes it contains
+ * - All levels are stored in a texture array (see getQuadTreeLevelLayout),
+ *   so that the finest grids can be larger than the device max texture size
  * - Cells are filled by drawing all nodes as 1px points with additive
- *   blending (one draw call per level), so there is no sorting and no CPU
- *   readback involved
+ *   blending (one draw call per level, or per tile of the largest levels),
+ *   so there is no sorting and no CPU readback involved. Blending follows
+ *   the primitives order (the GL guarantees it), so the float sums are
+ *   reproducible on a given GPU, as long as the nodes slots are in the same
+ *   order (ForceAtlas2GPU orders them by node key in deterministic mode)
+ * - With adjustSizes, a second atlas sums the sizes of the nodes of each
+ *   cell, and the nodes indices are sorted by finest cell (with a bitonic
+ *   sort), so that the nodes of a given finest cell are contiguous: they
+ *   start at the first sorted node whose cell ID is not lower than the cell
+ *   one, and there are as many as the cell count
+ * - With quadrupole, a third atlas sums the second moments of the nodes of
+ *   each cell, around the cell center (see getQuadTreeSplatFragmentShader),
+ *   so that far cells act as more than point masses
  */
 export class QuadTreeGPU {
   private gl: WebGL2RenderingContext;
@@ -60,16 +148,32 @@ export class QuadTreeGPU {
   private splatUniformLocations: {
     nodesPositionTexture: WebGLUniformLocation | null;
     boundariesTexture: WebGLUniformLocation | null;
+    nodesMetadataTexture: WebGLUniformLocation | null;
     gridSize: WebGLUniformLocation | null;
+    tile: WebGLUniformLocation | null;
   };
+  private setupSortProgram?: WebCLProgram<"nodesPosition" | "boundaries", "values" | "sortOn">;
+  private bitonicSort?: BitonicSortGPU;
 
-  // Output:
+  // Nodes sizes (as the r channel of the nodes metadata, see setNodesData):
+  private ownedNodesMetadataTexture?: WebGLTexture;
+  private nodesMetadataTexture?: WebGLTexture;
+
+  // Output (see getQuadTreeLevelLayout):
+  private tileSize: number;
+  private layersCount: number;
   private atlasTexture: WebGLTexture;
+  private sizesTexture?: WebGLTexture;
+  private momentsTexture?: WebGLTexture;
   private atlasFramebuffer: WebGLFramebuffer;
 
   constructor(
     gl: WebGL2RenderingContext,
-    { nodesTexture, nodesCount }: { nodesCount: number; nodesTexture?: WebGLTexture },
+    {
+      nodesTexture,
+      nodesMetadataTexture,
+      nodesCount,
+    }: { nodesCount: number; nodesTexture?: WebGLTexture; nodesMetadataTexture?: WebGLTexture },
     params: QuadTreeGPUSettings,
   ) {
     this.gl = gl;
@@ -82,41 +186,141 @@ export class QuadTreeGPU {
       throw new Error("QuadTreeGPU: EXT_float_blend extension not supported");
     }
 
+    const { depth, adjustSizes = false, quadrupole = false } = this.params;
+    const limits = getQuadTreeDeviceLimits(gl);
+    const maxDepth = getQuadTreeMaxDepth(limits, { adjustSizes, quadrupole });
+    if (depth < 1 || depth > maxDepth) {
+      throw new Error(`QuadTreeGPU: depth must be between 1 and ${maxDepth} on this device`);
+    }
+    this.tileSize = getQuadTreeTileSize(depth, limits.maxTextureSize);
+    this.layersCount = getQuadTreeLayersCount(depth, this.tileSize);
+
     // Boundaries program (parallel min/max reduction):
     this.boundaries = new BoundariesGPU(gl, { nodesCount });
 
     // Splat program (points drawing, cannot use WebCLProgram):
-    this.splatProgram = createProgram(gl, getQuadTreeSplatVertexShader({ nodesCount }), getQuadTreeSplatFragmentShader(), "splat program");
+    this.splatProgram = createProgram(
+      gl,
+      getQuadTreeSplatVertexShader({ nodesCount, adjustSizes, quadrupole }),
+      getQuadTreeSplatFragmentShader({ adjustSizes, quadrupole }),
+      "splat program",
+    );
     this.splatUniformLocations = {
       nodesPositionTexture: gl.getUniformLocation(this.splatProgram, "u_nodesPositionTexture"),
       boundariesTexture: gl.getUniformLocation(this.splatProgram, "u_boundariesTexture"),
+      nodesMetadataTexture: gl.getUniformLocation(this.splatProgram, "u_nodesMetadataTexture"),
       gridSize: gl.getUniformLocation(this.splatProgram, "u_gridSize"),
+      tile: gl.getUniformLocation(this.splatProgram, "u_tile"),
     };
 
     // The splat program draws points without any attribute (it only uses
-    // gl_VertexID). It gets its own empty VAO, so that the attribute 0 state
-    // shared by all WebCLPrograms (on the default VAO) is left untouched:
+    // gl_VertexID). It gets its own empty VAO (like each WebCLProgram), so
+    // that no other vertex state is touched:
     this.splatVAO = gl.createVertexArray() as WebGLVertexArrayObject;
 
-    // Atlas texture and framebuffer:
-    const { depth } = this.params;
-    this.atlasTexture = createFloatTexture(gl, getQuadTreeAtlasWidth(depth), getQuadTreeAtlasHeight(depth));
-    this.atlasFramebuffer = createFramebuffer(gl, this.atlasTexture, "QuadTreeGPU atlas framebuffer");
+    // Atlas textures and framebuffer. The sizes and moments atlases are drawn
+    // in the same splat draw calls, as the second and third color attachments
+    // of the atlas framebuffer (one layer of each atlas is attached at a time,
+    // see attachLayer):
+    this.atlasTexture = createFloatTextureArray(gl, this.tileSize, this.layersCount);
+    if (adjustSizes) this.sizesTexture = createFloatTextureArray(gl, this.tileSize, this.layersCount);
+    if (quadrupole) this.momentsTexture = createFloatTextureArray(gl, this.tileSize, this.layersCount);
+    this.atlasFramebuffer = gl.createFramebuffer() as WebGLFramebuffer;
+    this.attachLayer(0);
+    gl.drawBuffers([
+      gl.COLOR_ATTACHMENT0,
+      adjustSizes ? gl.COLOR_ATTACHMENT1 : gl.NONE,
+      quadrupole ? gl.COLOR_ATTACHMENT2 : gl.NONE,
+    ]);
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error("QuadTreeGPU atlas framebuffer is not complete");
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    if (adjustSizes) {
+      this.ownedNodesMetadataTexture = createFloatTexture(gl, getTextureSize(nodesCount));
+      this.nodesMetadataTexture = this.ownedNodesMetadataTexture;
+
+      // Nodes sorting, by finest cell:
+      this.setupSortProgram = new WebCLProgram({
+        gl,
+        name: "Quadtree - Prepare Bitonic sort",
+        fragments: getNextPowerOfTwo(nodesCount),
+        fragmentShaderSource: getQuadTreeSetupSortFragmentShader({
+          nodesCount,
+          gridSize: getQuadTreeLevelSize(depth - 1),
+        }),
+        vertexShaderSource: getVertexShader(),
+        dataTextures: [
+          { name: "nodesPosition", attributesPerItem: 4, items: nodesCount },
+          { name: "boundaries", attributesPerItem: 4, items: 1 },
+        ],
+        outputTextures: [
+          { name: "values", attributesPerItem: 1 },
+          { name: "sortOn", attributesPerItem: 1 },
+        ],
+      });
+      this.bitonicSort = new BitonicSortGPU(gl, { valuesCount: nodesCount, attributesPerItem: 1 });
+    }
 
     // Initial data textures rebind:
-    this.wireTextures(nodesTexture);
+    this.wireTextures(nodesTexture, nodesMetadataTexture);
+  }
+
+  /**
+   * Binds the atlas framebuffer, with a layer of each atlas attached:
+   */
+  private attachLayer(layer: number) {
+    const { gl, atlasTexture, sizesTexture, momentsTexture } = this;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.atlasFramebuffer);
+    gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, atlasTexture, 0, layer);
+    if (sizesTexture) gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT1, sizesTexture, 0, layer);
+    if (momentsTexture) gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT2, momentsTexture, 0, layer);
+  }
+
+  /**
+   * Reads all the cells of a level of an atlas, tile by tile, as RGBA:
+   */
+  private readLevel(texture: WebGLTexture, level: number): Float32Array {
+    const { gl, tileSize } = this;
+    const size = getQuadTreeLevelSize(level);
+    const { firstLayer, rowOffset, tilesPerSide } = getQuadTreeLevelLayout(level, tileSize);
+    const tileCells = Math.min(size, tileSize);
+    const outputArr = new Float32Array(size * size * 4);
+    const tileArr = new Float32Array(tileCells * tileCells * 4);
+
+    const framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+    for (let tile = 0; tile < tilesPerSide ** 2; tile++) {
+      const tileX = tile % tilesPerSide;
+      const tileY = Math.floor(tile / tilesPerSide);
+      gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, texture, 0, firstLayer + tile);
+      gl.readPixels(0, rowOffset, tileCells, tileCells, gl.RGBA, gl.FLOAT, tileArr);
+      for (let row = 0; row < tileCells; row++) {
+        outputArr.set(
+          tileArr.subarray(row * tileCells * 4, (row + 1) * tileCells * 4),
+          ((tileY * tileCells + row) * size + tileX * tileCells) * 4,
+        );
+      }
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(framebuffer);
+
+    return outputArr;
   }
 
   /**
    * Public API:
    * ***********
    */
-  public wireTextures(nodesTexture?: WebGLTexture) {
+  public wireTextures(nodesTexture?: WebGLTexture, nodesMetadataTexture?: WebGLTexture) {
     this.boundaries.wireTextures(nodesTexture);
+    if (nodesMetadataTexture) this.nodesMetadataTexture = nodesMetadataTexture;
   }
 
   public compute() {
-    const { gl, boundaries, splatProgram, splatVAO, atlasFramebuffer } = this;
+    const { gl, boundaries, splatProgram, splatVAO, tileSize, setupSortProgram, bitonicSort } = this;
     const { depth } = this.params;
 
     // 1. Compute boundaries:
@@ -125,7 +329,6 @@ export class QuadTreeGPU {
     // 2. Splat all nodes into each level of the quadtree:
     gl.useProgram(splatProgram);
     gl.bindVertexArray(splatVAO);
-    gl.bindFramebuffer(gl.FRAMEBUFFER, atlasFramebuffer);
 
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, boundaries.getNodesTexture());
@@ -133,31 +336,99 @@ export class QuadTreeGPU {
     gl.activeTexture(gl.TEXTURE1);
     gl.bindTexture(gl.TEXTURE_2D, boundaries.getBoundariesTexture());
     gl.uniform1i(this.splatUniformLocations.boundariesTexture, 1);
+    if (this.nodesMetadataTexture) {
+      gl.activeTexture(gl.TEXTURE2);
+      gl.bindTexture(gl.TEXTURE_2D, this.nodesMetadataTexture);
+      gl.uniform1i(this.splatUniformLocations.nodesMetadataTexture, 2);
+    }
 
-    gl.viewport(0, 0, getQuadTreeAtlasWidth(depth), getQuadTreeAtlasHeight(depth));
+    gl.viewport(0, 0, tileSize, tileSize);
     gl.clearColor(0, 0, 0, 0);
-    gl.clear(gl.COLOR_BUFFER_BIT);
+    for (let layer = 0; layer < this.layersCount; layer++) {
+      this.attachLayer(layer);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    }
 
     gl.enable(gl.BLEND);
     gl.blendEquation(gl.FUNC_ADD);
     gl.blendFunc(gl.ONE, gl.ONE);
 
+    // Each tile of each level is drawn separately, with all nodes (nodes out
+    // of the tile are clipped):
     for (let level = 0; level < depth; level++) {
       const size = getQuadTreeLevelSize(level);
-      gl.viewport(0, getQuadTreeLevelRowOffset(level), size, size);
+      const tileCells = Math.min(size, tileSize);
+      const { firstLayer, rowOffset, tilesPerSide } = getQuadTreeLevelLayout(level, tileSize);
+      gl.viewport(0, rowOffset, tileCells, tileCells);
       gl.uniform1f(this.splatUniformLocations.gridSize, size);
-      gl.drawArrays(gl.POINTS, 0, this.nodesCount);
+      for (let tile = 0; tile < tilesPerSide ** 2; tile++) {
+        this.attachLayer(firstLayer + tile);
+        gl.uniform3f(
+          this.splatUniformLocations.tile,
+          (tile % tilesPerSide) * tileCells,
+          Math.floor(tile / tilesPerSide) * tileCells,
+          tileCells,
+        );
+        gl.drawArrays(gl.POINTS, 0, this.nodesCount);
+      }
     }
 
     gl.disable(gl.BLEND);
     gl.bindVertexArray(null);
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    // 3. Sort the nodes by finest cell:
+    if (setupSortProgram && bitonicSort) {
+      setupSortProgram.dataTexturesIndex.nodesPosition.texture = boundaries.getNodesTexture();
+      setupSortProgram.dataTexturesIndex.boundaries.texture = boundaries.getBoundariesTexture();
+      setupSortProgram.activate();
+      setupSortProgram.prepare();
+      setupSortProgram.compute();
+
+      bitonicSort.setTextures({
+        valuesTexture: setupSortProgram.outputTexturesIndex.values.texture,
+        sortOnTexture: setupSortProgram.outputTexturesIndex.sortOn.texture,
+      });
+      bitonicSort.sort();
+    }
+  }
+
+  public kill() {
+    const { gl } = this;
+
+    this.boundaries.kill();
+    this.setupSortProgram?.kill();
+    this.bitonicSort?.kill();
+    gl.deleteProgram(this.splatProgram);
+    gl.deleteVertexArray(this.splatVAO);
+    gl.deleteFramebuffer(this.atlasFramebuffer);
+    gl.deleteTexture(this.atlasTexture);
+    if (this.sizesTexture) gl.deleteTexture(this.sizesTexture);
+    if (this.momentsTexture) gl.deleteTexture(this.momentsTexture);
+    if (this.ownedNodesMetadataTexture) gl.deleteTexture(this.ownedNodesMetadataTexture);
   }
 
   // These methods are for the WebGL pipelines:
   public getAtlasTexture(): WebGLTexture {
     return this.atlasTexture;
   }
+  // These three are only available with adjustSizes. The sizes atlas has the
+  // same layout as the main one, the nodes in cells are the nodes indices
+  // sorted by finest cell, and the nodes cells are the finest cell ID of
+  // each node (free slots are in a cell after all the others):
+  public getSizesTexture(): WebGLTexture | undefined {
+    return this.sizesTexture;
+  }
+  public getNodesInCellsTexture(): WebGLTexture | undefined {
+    return this.bitonicSort?.getSortedTexture();
+  }
+  public getNodesCellTexture(): WebGLTexture | undefined {
+    return this.setupSortProgram?.outputTexturesIndex.sortOn.texture;
+  }
+  // Only available with quadrupole, with the same layout as the main atlas:
+  public getMomentsTexture(): WebGLTexture | undefined {
+    return this.momentsTexture;
+  }
   public getBoundariesTexture(): WebGLTexture {
     return this.boundaries.getBoundariesTexture();
   }
@@ -167,21 +438,46 @@ export class QuadTreeGPU {
 
   // These methods are for using the quadtree directly (and for testing):
   public setNodesData(nodes: QuadTreeNode[]) {
+    const { gl, nodesCount } = this;
     this.boundaries.setNodesData(nodes);
+
+    if (this.ownedNodesMetadataTexture) {
+      const textureSize = getTextureSize(nodesCount);
+      const metadataByteArray = new Float32Array(4 * textureSize ** 2);
+      nodes.forEach(({ size }, i) => {
+        metadataByteArray[i * 4] = size ?? 1;
+      });
+
+      gl.bindTexture(gl.TEXTURE_2D, this.ownedNodesMetadataTexture);
+      gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, textureSize, textureSize, 0, gl.RGBA, gl.FLOAT, metadataByteArray);
+    }
   }
   public getBoundaries() {
     return this.boundaries.getBoundaries();
   }
   public getLevelData(level: number): Float32Array {
-    const { gl, atlasFramebuffer } = this;
-    const size = getQuadTreeLevelSize(level);
-    const outputArr = new Float32Array(size * size * 4);
-
-    gl.bindFramebuffer(gl.FRAMEBUFFER, atlasFramebuffer);
-    gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
-    gl.readPixels(0, getQuadTreeLevelRowOffset(level), size, size, gl.RGBA, gl.FLOAT, outputArr);
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-
-    return outputArr;
+    return this.readLevel(this.atlasTexture, level);
+  }
+  // With adjustSizes, the sum of the nodes sizes of each cell of a level:
+  public getLevelSizes(level: number): Float32Array {
+    if (!this.sizesTexture) return new Float32Array(0);
+    const outputArr = this.readLevel(this.sizesTexture, level);
+    return Float32Array.from({ length: outputArr.length / 4 }, (_, i) => outputArr[i * 4]);
+  }
+  // With quadrupole, the (sum(m * dx^2), sum(m * dx * dy), sum(m * dy^2))
+  // of each cell of a level, where (dx, dy) are the nodes offsets to the cell
+  // center:
+  public getLevelMoments(level: number): Float32Array {
+    if (!this.momentsTexture) return new Float32Array(0);
+    const outputArr = this.readLevel(this.momentsTexture, level);
+    return Float32Array.from(
+      { length: (outputArr.length / 4) * 3 },
+      (_, i) => outputArr[Math.floor(i / 3) * 4 + (i % 3)],
+    );
+  }
+  // With adjustSizes, the nodes indices, sorted by finest cell:
+  public getNodesInCells(): number[] {
+    return this.bitonicSort ? this.bitonicSort.getSortedValues() : [];
   }
 }
@@ -11,24 +11,66 @@ import { getTextureSize } from "../../utils/webgl";
  * rasterization assigns the node to the exact same cell as the
  * floor(relativePosition * gridSize) computed in the ForceAtlas2 fragment
  * shader.
+ *
+ * Large levels are drawn one tile at a time (see getQuadTreeLevelLayout):
+ * u_tile holds the first cell of the tile and its side in cells, and nodes
+ * out of the tile are clipped.
+ *
+ * With adjustSizes, it also reads the node size from the nodes metadata
+ * texture, for the sizes atlas.
+ *
+ * With quadrupole, it also outputs the offset of the node to the center of
+ * its cell, for the moments atlas.
  */
-export function getQuadTreeSplatVertexShader({ nodesCount }: { nodesCount: number }) {
+export function getQuadTreeSplatVertexShader({
+  nodesCount,
+  adjustSizes = false,
+  quadrupole = false,
+}: {
+  nodesCount: number;
+  adjustSizes?: boolean;
+  quadrupole?: boolean;
+}) {
   // language=GLSL
   const SHADER = /*glsl*/ `#version 300 es
 precision highp float;
 
 #define NODES_TEXTURE_SIZE ${Math.floor(getTextureSize(nodesCount))}
+${adjustSizes ? "#define ADJUST_SIZES" : ""}
+${quadrupole ? "#define QUADRUPOLE" : ""}
 
 uniform sampler2D u_nodesPositionTexture;
 uniform sampler2D u_boundariesTexture;
 uniform float u_gridSize;
+uniform vec3 u_tile;
 
 out vec3 v_positionAndMass;
 
+#if defined(ADJUST_SIZES)
+  uniform sampler2D u_nodesMetadataTexture;
+  out float v_size;
+#endif
+
+#if defined(QUADRUPOLE)
+  out vec2 v_cellOffset;
+#endif
+
 void main() {
   int nodeIndex = gl_VertexID;
   ivec2 texCoord = ivec2(nodeIndex % NODES_TEXTURE_SIZE, nodeIndex / NODES_TEXTURE_SIZE);
   vec4 nodePosition = texelFetch(u_nodesPositionTexture, texCoord, 0);
+  v_positionAndMass = vec3(nodePosition.xy, nodePosition.z);
+  gl_PointSize = 1.0;
+
+  #if defined(ADJUST_SIZES)
+    v_size = texelFetch(u_nodesMetadataTexture, texCoord, 0).r;
+  #endif
+
+  // Free slots (with a null mass) are sent out of the clip space:
+  if (nodePosition.z <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+    return;
+  }
 
   // Square bounding box (must match the ForceAtlas2 fragment shader):
   vec4 boundaries = texelFetch(u_boundariesTexture, ivec2(0), 0);
@@ -39,11 +81,13 @@ void main() {
 
   // Snap the point to the center of its grid cell:
   vec2 cell = floor(relativePosition * u_gridSize);
-  vec2 clipPosition = (cell + 0.5) / u_gridSize * 2.0 - 1.0;
+  vec2 clipPosition = (cell - u_tile.xy + 0.5) / u_tile.z * 2.0 - 1.0;
+
+  #if defined(QUADRUPOLE)
+    v_cellOffset = nodePosition.xy - (bbCenter + ((cell + 0.5) / u_gridSize - 0.5) * bbSide);
+  #endif
 
   gl_Position = vec4(clipPosition, 0.0, 1.0);
-  gl_PointSize = 1.0;
-  v_positionAndMass = vec3(nodePosition.xy, nodePosition.z);
 }`;
 
   return SHADER;
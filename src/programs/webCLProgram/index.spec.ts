@@ -0,0 +1,68 @@
+import { describe, expect, test } from "vitest";
+
+import { setupWebGL2Context } from "../../utils/webgl";
+import { WebCLProgram } from "./index";
+import { getVertexShader } from "./vertex";
+
+// language=GLSL
+const COPY_FRAGMENT_SHADER = /*glsl*/ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_valuesTexture;
+in vec2 v_textureCoord;
+layout(location = 0) out vec4 values;
+
+void main() {
+  values = texture(u_valuesTexture, v_textureCoord);
+}`;
+
+describe("WebCLProgram", () => {
+  test("writeTexels should only overwrite the given texels and channels", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const program = new WebCLProgram({
+        gl,
+        name: "Copy",
+        fragments: 4,
+        fragmentShaderSource: COPY_FRAGMENT_SHADER,
+        vertexShaderSource: getVertexShader(),
+        dataTextures: [{ name: "values", attributesPerItem: 4, items: 4 }],
+        outputTextures: [{ name: "values", attributesPerItem: 4 }],
+      });
+      program.setTextureData("values", new Float32Array(Array.from({ length: 16 }, (_, i) => i)), 4);
+
+      program.writeTexels("values", [{ index: 1, values: [-1, -2, -3, -4] }]);
+      program.writeTexels("values", [{ index: 3, values: [0, 0, 100, 0] }], [false, false, true, false]);
+
+      expect(Array.from(program.getInput("values"))).toEqual([
+        0, 1, 2, 3, -1, -2, -3, -4, 8, 9, 10, 11, 12, 13, 100, 15,
+      ]);
+      program.kill();
+    } finally {
+      canvas.remove();
+    }
+  });
+
+  test("setOutputData should overwrite the whole output texture", () => {
+    const { gl, canvas } = setupWebGL2Context();
+    try {
+      const program = new WebCLProgram({
+        gl,
+        name: "Copy",
+        fragments: 4,
+        fragmentShaderSource: COPY_FRAGMENT_SHADER,
+        vertexShaderSource: getVertexShader(),
+        dataTextures: [{ name: "values", attributesPerItem: 4, items: 4 }],
+        outputTextures: [{ name: "values", attributesPerItem: 4 }],
+      });
+
+      // Missing items are cleared:
+      program.setOutputData("values", new Float32Array(Array.from({ length: 8 }, (_, i) => i + 1)));
+
+      expect(Array.from(program.getOutput("values"))).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 0, 0, 0, 0, 0, 0, 0, 0]);
+      program.kill();
+    } finally {
+      canvas.remove();
+    }
+  });
+});
@@ -9,6 +9,8 @@ export class WebCLProgram<
 
   public program: WebGLProgram;
   public gl: WebGL2RenderingContext;
+  public positionBuffer: WebGLBuffer;
+  public vao: WebGLVertexArrayObject;
   public size: number;
   public fragments: number;
 
@@ -18,6 +20,8 @@ export class WebCLProgram<
     name: DATA_TEXTURE;
     attributesPerItem: number;
     items: number;
+    // TEXTURE_2D, or TEXTURE_2D_ARRAY for textures wired from elsewhere:
+    target: number;
     index: number;
     texture: WebGLTexture;
   }[];
@@ -29,6 +33,11 @@ export class WebCLProgram<
   private asyncReadArray: Float32Array | null = null;
   private asyncReadFence: WebGLSync | null = null;
 
+  // Textures created by this program. Data textures can be rewired to other
+  // programs' textures (see wirePrograms), so kill only deletes these:
+  private ownedTextures: WebGLTexture[];
+  private shaders: WebGLShader[];
+
   public outputBuffer: WebGLFramebuffer;
   public outputTextures: {
     name: OUTPUT_TEXTURE;
@@ -50,7 +59,7 @@ export class WebCLProgram<
   }: {
     gl: WebGL2RenderingContext;
     fragments: number;
-    dataTextures: { name: DATA_TEXTURE; attributesPerItem: number; items: number }[];
+    dataTextures: { name: DATA_TEXTURE; attributesPerItem: number; items: number; target?: number }[];
     outputTextures: { name: OUTPUT_TEXTURE; attributesPerItem: number }[];
     fragmentShaderSource: string;
     vertexShaderSource: string;
@@ -61,6 +70,7 @@ export class WebCLProgram<
     this.size = getTextureSize(fragments);
     this.fragments = fragments;
     this.dataTextures = dataTextures.map((spec, index) => ({
+      target: gl.TEXTURE_2D,
       ...spec,
       index,
       texture: gl.createTexture() as WebGLTexture,
@@ -79,12 +89,14 @@ export class WebCLProgram<
       (iter, spec) => ({ ...iter, [spec.name]: spec }),
       {} as typeof this.outputTexturesIndex,
     );
+    this.ownedTextures = [...this.dataTextures, ...this.outputTextures].map(({ texture }) => texture);
 
     // Instantiate program:
     this.program = gl.createProgram() as WebGLProgram;
 
     const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
     const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    this.shaders = [vertexShader, fragmentShader];
 
     gl.attachShader(this.program, vertexShader);
     gl.attachShader(this.program, fragmentShader);
@@ -98,15 +110,19 @@ export class WebCLProgram<
     // Handle output:
     this.outputBuffer = gl.createFramebuffer() as WebGLBuffer;
 
-    // Create a buffer for the positions.
+    // Create a buffer for the positions, in a dedicated VAO, so that the
+    // vertex state of other programs (or of a host renderer sharing the
+    // context) never interferes:
     const positionLocation = gl.getAttribLocation(this.program, "a_position");
-    const positionBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    this.vao = gl.createVertexArray() as WebGLVertexArrayObject;
+    gl.bindVertexArray(this.vao);
+    this.positionBuffer = gl.createBuffer() as WebGLBuffer;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
     const positions = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
     gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
     gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
     gl.enableVertexAttribArray(positionLocation);
+    gl.bindVertexArray(null);
 
     this.prepare();
   }
@@ -126,9 +142,9 @@ export class WebCLProgram<
     const { gl, program, size, dataTextures, outputTextures } = this;
 
     // Handle data textures:
-    dataTextures.forEach(({ name, texture, index }) => {
+    dataTextures.forEach(({ name, texture, target, index }) => {
       gl.activeTexture(gl.TEXTURE0 + index);
-      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.bindTexture(target, texture);
       gl.uniform1i(gl.getUniformLocation(program, `u_${name}Texture`), index);
     });
 
@@ -214,6 +230,69 @@ export class WebCLProgram<
     );
   }
 
+  /**
+   * Overwrites some items of a data texture in place, without uploading (or
+   * reading back) the rest of it: each texel is cleared to its new values,
+   * through a 1x1 scissor box. Channels can be masked, so that the other ones
+   * keep their current values on the GPU.
+   */
+  public writeTexels(
+    textureName: DATA_TEXTURE,
+    texels: { index: number; values: number[] }[],
+    channels: [boolean, boolean, boolean, boolean] = [true, true, true, true],
+  ) {
+    const { gl } = this;
+    const { items, texture } = this.dataTexturesIndex[textureName];
+    const textureSize = getTextureSize(items);
+
+    const framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.enable(gl.SCISSOR_TEST);
+    gl.colorMask(...channels);
+
+    texels.forEach(({ index, values }) => {
+      gl.scissor(index % textureSize, Math.floor(index / textureSize), 1, 1);
+      gl.clearBufferfv(
+        gl.COLOR,
+        0,
+        [0, 1, 2, 3].map((i) => values[i] ?? 0),
+      );
+    });
+
+    // Cleanup:
+    gl.colorMask(true, true, true, true);
+    gl.disable(gl.SCISSOR_TEST);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(framebuffer);
+  }
+
+  /**
+   * Overwrites the whole content of an output texture (to restore a saved
+   * state, for instance). Missing items are cleared.
+   */
+  public setOutputData(textureName: OUTPUT_TEXTURE, data: Float32Array) {
+    const { gl, size } = this;
+    const { texture, attributesPerItem } = this.outputTexturesIndex[textureName];
+    const textureData = new Float32Array(size * size * attributesPerItem);
+    textureData.set(data.subarray(0, textureData.length));
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texSubImage2D(
+      gl.TEXTURE_2D,
+      0,
+      0,
+      0,
+      size,
+      size,
+      DATA_TEXTURES_FORMATS[attributesPerItem],
+      gl.FLOAT,
+      textureData,
+    );
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
   public compute() {
     const { gl, outputTextures, dataTextures } = this;
 
@@ -222,7 +301,9 @@ export class WebCLProgram<
       gl.bindTexture(gl.TEXTURE_2D, outputTexture.texture);
     });
 
+    gl.bindVertexArray(this.vao);
     gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
   }
 
   public swapTextures(input: DATA_TEXTURE, output: OUTPUT_TEXTURE) {
@@ -377,6 +458,10 @@ export class WebCLProgram<
   public kill() {
     const { gl } = this;
     if (this.program) gl.deleteProgram(this.program);
+    this.shaders.forEach((shader) => gl.deleteShader(shader));
+    this.shaders = [];
+    gl.deleteBuffer(this.positionBuffer);
+    gl.deleteVertexArray(this.vao);
 
     this.cancelAsyncRead();
     if (this.asyncReadPBO) {
@@ -389,16 +474,12 @@ export class WebCLProgram<
     }
     this.asyncReadArray = null;
 
-    this.dataTextures.forEach(({ texture }) => {
-      gl.deleteTexture(texture);
-    });
+    this.ownedTextures.forEach((texture) => gl.deleteTexture(texture));
+    this.ownedTextures = [];
     this.dataTextures = [];
     this.dataTexturesIndex = {} as typeof this.dataTexturesIndex;
 
-    gl.deleteBuffer(this.outputBuffer);
-    this.outputTextures.forEach(({ texture }) => {
-      gl.deleteTexture(texture);
-    });
+    gl.deleteFramebuffer(this.outputBuffer);
     this.outputTextures = [];
     this.outputTexturesIndex = {} as typeof this.outputTexturesIndex;
   }
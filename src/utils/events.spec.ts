@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+
+import { TypedEventEmitter } from "./events";
+
+type TestEvents = {
+  ping: (payload: { count: number }) => void;
+  pong: () => void;
+};
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  public ping(count: number) {
+    return this.emit("ping", { count });
+  }
+  public pong() {
+    return this.emit("pong");
+  }
+}
+
+describe("TypedEventEmitter", () => {
+  test("should call listeners with the emitted payload", () => {
+    const emitter = new TestEmitter();
+    const counts: number[] = [];
+    emitter.on("ping", ({ count }) => counts.push(count));
+
+    expect(emitter.ping(1)).toBe(true);
+    expect(emitter.ping(2)).toBe(true);
+    expect(emitter.pong()).toBe(false);
+    expect(counts).toEqual([1, 2]);
+  });
+
+  test("should remove listeners", () => {
+    const emitter = new TestEmitter();
+    let calls = 0;
+    const listener = () => calls++;
+    emitter.on("pong", listener);
+    emitter.pong();
+    emitter.off("pong", listener);
+    emitter.pong();
+
+    expect(calls).toBe(1);
+    expect(emitter.listenerCount("pong")).toBe(0);
+  });
+
+  test("should call once listeners only once", () => {
+    const emitter = new TestEmitter();
+    let calls = 0;
+    emitter.once("pong", () => calls++);
+    emitter.pong();
+    emitter.pong();
+
+    expect(calls).toBe(1);
+  });
+
+  test("should remove all listeners", () => {
+    const emitter = new TestEmitter();
+    emitter.on("ping", () => undefined);
+    emitter.on("pong", () => undefined);
+    emitter.removeAllListeners("ping");
+    expect(emitter.listenerCount("ping")).toBe(0);
+    expect(emitter.listenerCount("pong")).toBe(1);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount("pong")).toBe(0);
+  });
+});
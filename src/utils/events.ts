@@ -0,0 +1,48 @@
+export type EventsMap<Events> = { [E in keyof Events]: (...args: never[]) => void };
+
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * A minimal typed event emitter (with the same API as the NodeJS one that
+ * graphology and sigma use), so that no dependency is needed.
+ */
+export class TypedEventEmitter<Events extends EventsMap<Events>> {
+  private listeners: { [E in keyof Events]?: Listener[] } = {};
+
+  public on<E extends keyof Events>(event: E, listener: Events[E]): this {
+    this.listeners[event] = [...(this.listeners[event] || []), listener as unknown as Listener];
+    return this;
+  }
+
+  public once<E extends keyof Events>(event: E, listener: Events[E]): this {
+    const onceListener = ((...args: Parameters<Events[E]>) => {
+      this.off(event, onceListener);
+      listener(...args);
+    }) as Events[E];
+    return this.on(event, onceListener);
+  }
+
+  public off<E extends keyof Events>(event: E, listener: Events[E]): this {
+    const listeners = this.listeners[event];
+    if (listeners) this.listeners[event] = listeners.filter((l) => l !== (listener as unknown as Listener));
+    return this;
+  }
+
+  public removeAllListeners(event?: keyof Events): this {
+    if (event) delete this.listeners[event];
+    else this.listeners = {};
+    return this;
+  }
+
+  public listenerCount(event: keyof Events): number {
+    return this.listeners[event]?.length || 0;
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): boolean {
+    // Copy the listeners first, so that listeners removing themselves (or
+    // others) while the event is dispatched are handled properly:
+    const listeners = [...(this.listeners[event] || [])];
+    listeners.forEach((listener) => listener(...args));
+    return listeners.length > 0;
+  }
+}
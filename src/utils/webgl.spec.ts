@@ -3,8 +3,14 @@ import { afterEach, beforeEach, describe, expect, test } from "vitest";
 import {
   DATA_TEXTURES_FORMATS,
   DATA_TEXTURES_LEVELS,
+  createFloatTexture,
+  createFloatTextureArray,
+  createFramebuffer,
   getTextureSize,
   readTextureData,
+  resetGLState,
+  restoreGLState,
+  saveGLState,
   setupWebGL2Context,
   waitForGPUCompletion,
 } from "./webgl";
@@ -36,6 +42,18 @@ describe("setupWebGL2Context", () => {
     ctx1.canvas.remove();
     ctx2.canvas.remove();
   });
+
+  test("should use the given canvas and context attributes", () => {
+    const offscreenCanvas = new OffscreenCanvas(1, 1);
+    const { canvas, gl } = setupWebGL2Context({
+      canvas: offscreenCanvas,
+      contextAttributes: { powerPreference: "high-performance" },
+    });
+
+    expect(canvas).toBe(offscreenCanvas);
+    expect(gl.canvas).toBe(offscreenCanvas);
+    expect(gl.getContextAttributes()?.powerPreference).toBe("high-performance");
+  });
 });
 
 beforeEach<Test>(async (context) => {
@@ -226,3 +244,68 @@ describe("waitForGPUCompletion", () => {
     gl.deleteTexture(texture);
   });
 });
+
+describe("saveGLState / restoreGLState", () => {
+  test<Test>("should restore the state a host renderer had set", ({ gl }) => {
+    const texture = createFloatTexture(gl, 4);
+    const framebuffer = createFramebuffer(gl, texture);
+    const vao = gl.createVertexArray();
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.bindVertexArray(vao);
+    gl.enable(gl.BLEND);
+    gl.enable(gl.DEPTH_TEST);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    gl.viewport(1, 2, 3, 4);
+    gl.scissor(4, 3, 2, 1);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    const textureArray = createFloatTextureArray(gl, 4, 2);
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, textureArray);
+    gl.activeTexture(gl.TEXTURE2);
+
+    const state = saveGLState(gl, 4);
+    resetGLState(gl);
+    expect(gl.isEnabled(gl.BLEND)).toBe(false);
+    expect(gl.isEnabled(gl.DEPTH_TEST)).toBe(false);
+    expect(gl.getParameter(gl.VERTEX_ARRAY_BINDING)).toBe(null);
+
+    // Mess with the state, like the programs would:
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    gl.viewport(0, 0, 10, 10);
+    gl.scissor(5, 5, 1, 1);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+    gl.activeTexture(gl.TEXTURE0);
+
+    restoreGLState(gl, state);
+    expect(gl.getParameter(gl.FRAMEBUFFER_BINDING)).toBe(framebuffer);
+    expect(gl.getParameter(gl.VERTEX_ARRAY_BINDING)).toBe(vao);
+    expect(gl.isEnabled(gl.BLEND)).toBe(true);
+    expect(gl.isEnabled(gl.DEPTH_TEST)).toBe(true);
+    expect(gl.getParameter(gl.BLEND_SRC_RGB)).toBe(gl.SRC_ALPHA);
+    expect(gl.getParameter(gl.BLEND_DST_RGB)).toBe(gl.ONE_MINUS_SRC_ALPHA);
+    expect(Array.from(gl.getParameter(gl.VIEWPORT))).toEqual([1, 2, 3, 4]);
+    expect(Array.from(gl.getParameter(gl.SCISSOR_BOX))).toEqual([4, 3, 2, 1]);
+    expect(gl.getParameter(gl.ACTIVE_TEXTURE)).toBe(gl.TEXTURE2);
+    expect(gl.getParameter(gl.TEXTURE_BINDING_2D)).toBe(texture);
+    gl.activeTexture(gl.TEXTURE3);
+    expect(gl.getParameter(gl.TEXTURE_BINDING_2D_ARRAY)).toBe(textureArray);
+  });
+
+  test<Test>("should leave the errors and framebuffer of the host when allocating texture arrays", ({ gl }) => {
+    const framebuffer = createFramebuffer(gl, createFloatTexture(gl, 4));
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    // (an invalid enum, as a host renderer bug would do)
+    gl.enable(0x1234);
+
+    createFloatTextureArray(gl, 4, 2);
+    expect(gl.getError()).toBe(gl.INVALID_ENUM);
+    expect(gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING)).toBe(framebuffer);
+  });
+});
@@ -12,12 +12,27 @@ export const DATA_TEXTURES_FORMATS: Record<number, number> = {
   4: WebGL2RenderingContext.RGBA,
 };
 
-export function setupWebGL2Context() {
+// (WebGLContextAttributes is not a global the linter knows about)
+export type WebGL2ContextAttributes = NonNullable<ReturnType<WebGL2RenderingContext["getContextAttributes"]>>;
+
+export type WebGL2ContextOptions<C extends HTMLCanvasElement | OffscreenCanvas = HTMLCanvasElement> = {
+  // The canvas to get the context from (a new 1x1 canvas by default, or a
+  // 1x1 OffscreenCanvas where there is no document, like in workers):
+  canvas?: C;
+  contextAttributes?: WebGL2ContextAttributes;
+};
+
+export function setupWebGL2Context<C extends HTMLCanvasElement | OffscreenCanvas = HTMLCanvasElement>({
+  canvas,
+  contextAttributes,
+}: WebGL2ContextOptions<C> = {}) {
   // Initialize WebGL2 context:
-  const canvas = document.createElement("canvas");
-  canvas.width = 1;
-  canvas.height = 1;
-  const gl = canvas.getContext("webgl2");
+  if (!canvas) {
+    canvas = (typeof document !== "undefined" ? document.createElement("canvas") : new OffscreenCanvas(1, 1)) as C;
+    canvas.width = 1;
+    canvas.height = 1;
+  }
+  const gl = canvas.getContext("webgl2", contextAttributes) as WebGL2RenderingContext | null;
   if (!gl) throw new Error("WebGL2 is not supported in this browser.");
 
   // Check for required extension
@@ -146,6 +161,42 @@ export function createFloatTexture(gl: WebGL2RenderingContext, width: number, he
   return texture;
 }
 
+/**
+ * Creates an array of float textures (for atlases too large for a single
+ * texture), all size x size.
+ */
+export function createFloatTextureArray(gl: WebGL2RenderingContext, size: number, layers: number): WebGLTexture {
+  const texture = gl.createTexture() as WebGLTexture;
+  gl.bindTexture(gl.TEXTURE_2D_ARRAY, texture);
+  gl.texImage3D(gl.TEXTURE_2D_ARRAY, 0, gl.RGBA32F, size, size, layers, 0, gl.RGBA, gl.FLOAT, null);
+
+  // These arrays can be large enough for the allocation to fail. Since the
+  // error flag might hold errors of a host renderer sharing the context, it
+  // is not read: a texture that could not be allocated has no size, so it
+  // can't complete a framebuffer instead (the bound one is left as it was).
+  const boundFramebuffer = gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING);
+  const framebuffer = gl.createFramebuffer();
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, framebuffer);
+  gl.framebufferTextureLayer(gl.DRAW_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, texture, 0, 0);
+  const allocated = gl.checkFramebufferStatus(gl.DRAW_FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE || gl.isContextLost();
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, boundFramebuffer);
+  gl.deleteFramebuffer(framebuffer);
+  if (!allocated) {
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+    gl.deleteTexture(texture);
+    const megabytes = Math.ceil((size * size * layers * 16) / 2 ** 20);
+    throw new Error(
+      `Failed to allocate a ${size}x${size}x${layers} float texture array (${megabytes}MB): the GPU is probably out of memory`,
+    );
+  }
+  gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+  return texture;
+}
+
 /**
  * Creates a framebuffer with the given texture as its color attachment.
  */
@@ -160,6 +211,130 @@ export function createFramebuffer(gl: WebGL2RenderingContext, texture: WebGLText
   return framebuffer;
 }
 
+/**
+ * The part of the WebGL state the programs here modify, so that a context
+ * can be shared with a host renderer (see saveGLState and restoreGLState):
+ */
+export type GLState = {
+  framebuffer: WebGLFramebuffer | null;
+  readFramebuffer: WebGLFramebuffer | null;
+  vertexArray: WebGLVertexArrayObject | null;
+  program: WebGLProgram | null;
+  arrayBuffer: WebGLBuffer | null;
+  pixelPackBuffer: WebGLBuffer | null;
+  pixelUnpackBuffer: WebGLBuffer | null;
+  viewport: Int32Array;
+  scissorBox: Int32Array;
+  clearColor: Float32Array;
+  colorMask: boolean[];
+  capabilities: Record<number, boolean>;
+  blendFunc: [number, number, number, number];
+  blendEquation: [number, number];
+  packAlignment: number;
+  unpackAlignment: number;
+  activeTexture: number;
+  textures: (WebGLTexture | null)[];
+  textureArrays: (WebGLTexture | null)[];
+};
+
+const GL_STATE_CAPABILITIES = [
+  WebGL2RenderingContext.BLEND,
+  WebGL2RenderingContext.DEPTH_TEST,
+  WebGL2RenderingContext.STENCIL_TEST,
+  WebGL2RenderingContext.SCISSOR_TEST,
+  WebGL2RenderingContext.CULL_FACE,
+  WebGL2RenderingContext.RASTERIZER_DISCARD,
+];
+
+/**
+ * Reads the current GL state (including the 2D textures and textures arrays
+ * bound on the first texturesCount units), to restore it later with
+ * restoreGLState.
+ */
+export function saveGLState(gl: WebGL2RenderingContext, texturesCount: number): GLState {
+  const activeTexture = gl.getParameter(gl.ACTIVE_TEXTURE);
+  const textures: (WebGLTexture | null)[] = [];
+  const textureArrays: (WebGLTexture | null)[] = [];
+  for (let i = 0; i < texturesCount; i++) {
+    gl.activeTexture(gl.TEXTURE0 + i);
+    textures.push(gl.getParameter(gl.TEXTURE_BINDING_2D));
+    textureArrays.push(gl.getParameter(gl.TEXTURE_BINDING_2D_ARRAY));
+  }
+  gl.activeTexture(activeTexture);
+
+  return {
+    framebuffer: gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING),
+    readFramebuffer: gl.getParameter(gl.READ_FRAMEBUFFER_BINDING),
+    vertexArray: gl.getParameter(gl.VERTEX_ARRAY_BINDING),
+    program: gl.getParameter(gl.CURRENT_PROGRAM),
+    arrayBuffer: gl.getParameter(gl.ARRAY_BUFFER_BINDING),
+    pixelPackBuffer: gl.getParameter(gl.PIXEL_PACK_BUFFER_BINDING),
+    pixelUnpackBuffer: gl.getParameter(gl.PIXEL_UNPACK_BUFFER_BINDING),
+    viewport: gl.getParameter(gl.VIEWPORT),
+    scissorBox: gl.getParameter(gl.SCISSOR_BOX),
+    clearColor: gl.getParameter(gl.COLOR_CLEAR_VALUE),
+    colorMask: gl.getParameter(gl.COLOR_WRITEMASK),
+    capabilities: GL_STATE_CAPABILITIES.reduce(
+      (iter, capability) => ({ ...iter, [capability]: gl.isEnabled(capability) }),
+      {} as Record<number, boolean>,
+    ),
+    blendFunc: [
+      gl.getParameter(gl.BLEND_SRC_RGB),
+      gl.getParameter(gl.BLEND_DST_RGB),
+      gl.getParameter(gl.BLEND_SRC_ALPHA),
+      gl.getParameter(gl.BLEND_DST_ALPHA),
+    ],
+    blendEquation: [gl.getParameter(gl.BLEND_EQUATION_RGB), gl.getParameter(gl.BLEND_EQUATION_ALPHA)],
+    packAlignment: gl.getParameter(gl.PACK_ALIGNMENT),
+    unpackAlignment: gl.getParameter(gl.UNPACK_ALIGNMENT),
+    activeTexture,
+    textures,
+    textureArrays,
+  };
+}
+
+/**
+ * Puts the state the programs here expect (no depth, stencil or scissor
+ * test, no culling, no blending, all channels written, no VAO, no pixel
+ * buffer), whatever a host renderer sharing the context left.
+ */
+export function resetGLState(gl: WebGL2RenderingContext) {
+  GL_STATE_CAPABILITIES.forEach((capability) => gl.disable(capability));
+  gl.colorMask(true, true, true, true);
+  gl.bindVertexArray(null);
+  gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+  gl.bindBuffer(gl.PIXEL_UNPACK_BUFFER, null);
+}
+
+export function restoreGLState(gl: WebGL2RenderingContext, state: GLState) {
+  state.textures.forEach((texture, i) => {
+    gl.activeTexture(gl.TEXTURE0 + i);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, state.textureArrays[i]);
+  });
+  gl.activeTexture(state.activeTexture);
+
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, state.framebuffer);
+  gl.bindFramebuffer(gl.READ_FRAMEBUFFER, state.readFramebuffer);
+  gl.bindVertexArray(state.vertexArray);
+  gl.useProgram(state.program);
+  gl.bindBuffer(gl.ARRAY_BUFFER, state.arrayBuffer);
+  gl.bindBuffer(gl.PIXEL_PACK_BUFFER, state.pixelPackBuffer);
+  gl.bindBuffer(gl.PIXEL_UNPACK_BUFFER, state.pixelUnpackBuffer);
+  gl.viewport(state.viewport[0], state.viewport[1], state.viewport[2], state.viewport[3]);
+  gl.scissor(state.scissorBox[0], state.scissorBox[1], state.scissorBox[2], state.scissorBox[3]);
+  gl.clearColor(state.clearColor[0], state.clearColor[1], state.clearColor[2], state.clearColor[3]);
+  gl.colorMask(state.colorMask[0], state.colorMask[1], state.colorMask[2], state.colorMask[3]);
+  GL_STATE_CAPABILITIES.forEach((capability) => {
+    if (state.capabilities[capability]) gl.enable(capability);
+    else gl.disable(capability);
+  });
+  gl.blendFuncSeparate(state.blendFunc[0], state.blendFunc[1], state.blendFunc[2], state.blendFunc[3]);
+  gl.blendEquationSeparate(state.blendEquation[0], state.blendEquation[1]);
+  gl.pixelStorei(gl.PACK_ALIGNMENT, state.packAlignment);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, state.unpackAlignment);
+}
+
 export function waitForGPUCompletion(gl: WebGL2RenderingContext): Promise<void> {
   return new Promise((resolve, reject) => {
     const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0) as WebGLSync;